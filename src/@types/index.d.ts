@@ -8,4 +8,526 @@ type SortOrder = 'ascend' | 'descend' | 'asc' | 'desc' | 'ascending' | 'descendi
 interface FindOperatorQB {
     query: string;
     parameters?: any;
-}
\ No newline at end of file
+}
+
+/**
+ * SQL dialect families the condition parser can generate SQL for.
+ */
+type SqlDialect = 'postgres' | 'mysql' | 'sqlite' | 'mssql';
+
+/**
+ * Options of `parseCondition`, shared by every helper that compiles conditions.
+ */
+interface ConditionOptions {
+    /**
+     * TypeORM database type or dialect family to generate SQL for.
+     * Defaults to the query builder's `connection.options.type`.
+     */
+    dialect?: import('typeorm').DatabaseType | SqlDialect;
+    /**
+     * Operator registry to resolve condition operators with, defaults to the registry `registerOperator` adds to.
+     */
+    operators?: import('../operator-registry').OperatorRegistry;
+    /**
+     * Returns the current time relative dates (`now-7d`, `startOf:day`) are resolved against, defaults to `new Date()`.
+     */
+    clock?: () => Date;
+    /**
+     * IANA time zone calendar units of relative dates and date operators are resolved in, defaults to 'UTC'.
+     */
+    timezone?: string;
+    /**
+     * Hands out the parameter names (`p0`, `p1`, ...). The query builder helpers share one context per query builder,
+     * `parseCondition` and `buildFindWhere` start a new one per call unless given.
+     */
+    context?: import('../compile-context').CompileContext;
+}
+
+/**
+ * Values scope filters are built from, e.g. the tenant and user of the current request.
+ */
+type ScopeContext = Record<string, any>;
+
+/**
+ * A filter scope registered with `registerFilterScope`, applied to every query of its entity or alias.
+ */
+interface FilterScope {
+    /** The entity class, schema or name the scope applies to. */
+    entity?: import('typeorm').EntityTarget<any>;
+    /** The query builder alias the scope applies to, e.g. for queries without entity metadata. */
+    alias?: string;
+    /** The filter, or a function building it from the scope context. */
+    filter: Record<string, any> | ((context: ScopeContext) => Record<string, any>);
+}
+
+/**
+ * Scopes disabled for a query, every disabled scope is reported to the audit listener of the registry.
+ */
+interface DisableScopes {
+    /** The scope names, `all` disables every scope. */
+    names: string[] | 'all';
+    /** Why the scopes are disabled, e.g. `restore deleted post`. */
+    reason: string;
+}
+
+/**
+ * A scope disabled for a query, see `ScopeRegistry.setAuditListener`.
+ */
+interface ScopeAuditEvent {
+    scope: string;
+    alias: string;
+    /** The entity name of the alias, if it has metadata. */
+    entity?: string;
+    reason: string;
+    context: ScopeContext;
+}
+
+/**
+ * Options of the helpers applying filter scopes.
+ */
+interface ScopeOptions {
+    /**
+     * Scope registry to apply the scopes of, defaults to the registry `registerFilterScope` adds to.
+     */
+    scopes?: import('../filter-scopes').ScopeRegistry;
+    /**
+     * Context scope filters are built from, defaults to the context provider of the registry.
+     */
+    scopeContext?: ScopeContext;
+    /**
+     * Scopes not to apply, with the reason reported to the audit listener.
+     */
+    disableScopes?: DisableScopes;
+}
+
+/**
+ * Complexity limits of client-supplied filters and sorts, enforced with `enforceFilterLimits` before any SQL is built.
+ */
+interface FilterLimits {
+    /** Deepest nesting of logical operators and relation quantifiers, the filter itself is level 1. */
+    maxDepth?: number;
+    /** Most operator conditions in the whole filter. */
+    maxPredicates?: number;
+    /** Longest list value, e.g. of `$in` and `$notIn`. */
+    maxListLength?: number;
+    /** Longest string value, JSON documents count their JSON text. */
+    maxStringLength?: number;
+    /** Longest pattern of the `$regex` operators. */
+    maxRegexLength?: number;
+    /** Most sort keys. */
+    maxSortKeys?: number;
+    /** Most where objects `buildFindWhere` expands a filter into, every `AND`-ed `$or` group multiplies them. Defaults to 1000. */
+    maxBranches?: number;
+    /** Operators clients may not use anywhere, logical operators and relation quantifiers included. */
+    deniedOperators?: string[];
+}
+
+/**
+ * Measures of a filter returned by `filterComplexity`.
+ */
+interface FilterComplexity {
+    depth: number;
+    predicates: number;
+    longestList: number;
+    longestString: number;
+    /** Every operator used, in the order first used. */
+    operators: string[];
+    /** Estimated cost of the filter. */
+    score: number;
+}
+
+/**
+ * Options shared by the query builder helpers.
+ */
+interface ApplyConditionsOptions extends ConditionOptions, ScopeOptions {
+    /**
+     * Validate fields against entity metadata and coerce values to the column types.
+     * `true` uses the metadata of the query builder alias, an `EntityMetadata` is used as given.
+     */
+    validate?: boolean | import('typeorm').EntityMetadata;
+    /**
+     * Filter policy to enforce, defaults to the policy registered for the entity of the alias.
+     */
+    policy?: FilterPolicy;
+    /**
+     * Collect every error of the filter and throw them together as a `FilterAggregateError`
+     * instead of stopping at the first one.
+     */
+    collectErrors?: boolean;
+    /**
+     * Cache of compiled filters, filters of the same shape reuse the SQL and only bind their values.
+     * Used by `applyWhereConditionsQB`.
+     */
+    cache?: import('../filter-cache').FilterCache;
+    /**
+     * Virtual fields by name, take precedence over the fields registered with `registerVirtualField`.
+     */
+    virtualFields?: Record<string, VirtualField>;
+    /**
+     * Complexity limits checked before anything else, defaults to the limits set with `setDefaultFilterLimits`.
+     */
+    limits?: FilterLimits;
+}
+
+/**
+ * Options of `matchesFilter` and `compileFilterToPredicate`.
+ */
+interface MatchFilterOptions {
+    /** Dialect whose semantics are matched, e.g. LIKE ignores case except on PostgreSQL. Defaults to 'postgres'. */
+    dialect?: import('typeorm').DatabaseType | SqlDialect;
+    operators?: import('../operator-registry').OperatorRegistry;
+    /** Returns the time relative dates are resolved against when the predicate is compiled, defaults to `new Date()`. */
+    clock?: () => Date;
+    timezone?: string;
+}
+
+/**
+ * Calendar units of relative dates and the date operators.
+ */
+type CalendarUnit = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * What an operator is compiled with: the field expression, the parameter name reserved for it and the dialect.
+ */
+interface OperatorContext {
+    /** The operator name, e.g. `$gte`. */
+    operator: string;
+    /** The field expression, e.g. `user.age`, or the column expression TypeORM passes to `Raw` for `find`. */
+    fieldAlias: string;
+    /** A unique parameter name, operators that bind several values use it as prefix. */
+    param: string;
+    dialect: SqlDialect;
+    /** The current time, the same for every operator of a condition. */
+    now: Date;
+    /** The IANA time zone of calendar units. */
+    timezone: string;
+}
+
+/**
+ * Definition of a condition operator registered with `registerOperator`.
+ */
+interface OperatorDefinition {
+    /** Checks the operator value, a `false` result throws a `FilterValidationError` with `message`. */
+    validate?: (value: any, context: OperatorContext) => boolean;
+    /** Message of the error thrown when `validate` fails, defaults to `INVALID_VALUE_FOR_OPERATOR <operator>`. */
+    message?: string;
+    /** The expected value type reported when `validate` fails, e.g. `string`. */
+    expected?: string;
+    /** Compiles the condition for query builders. */
+    toQB: (value: any, context: OperatorContext) => FindOperatorQB;
+    /** Compiles the condition for `find`, defaults to a `Raw` operator around `toQB`. */
+    toFind?: (value: any, context: OperatorContext) => import('typeorm').FindOperator<any>;
+    /**
+     * Evaluates the condition in memory for `matchesFilter`, the returned test receives the field value, never `null`.
+     * Operators without it cannot be evaluated in memory.
+     */
+    toPredicate?: (value: any, context: OperatorContext) => (column: any) => boolean;
+    /** Dialects the operator can be expressed on, defaults to every dialect. */
+    dialects?: SqlDialect[];
+    /**
+     * The SQL of `toQB` does not depend on the value, so cached filters bind new values without compiling again.
+     * Values of other operators are part of the cache key.
+     */
+    rebindable?: boolean;
+}
+
+/**
+ * Stable codes of `FilterError`s.
+ */
+type FilterErrorCode =
+    | 'INVALID_FILTER'
+    | 'INVALID_CONDITION'
+    | 'INVALID_LOGICAL_OPERATOR'
+    | 'INVALID_OPERATOR_VALUE'
+    | 'UNKNOWN_OPERATOR'
+    | 'UNKNOWN_FIELD'
+    | 'INVALID_VALUE_FOR_COLUMN_TYPE'
+    | 'INVALID_ENUM_VALUE'
+    | 'OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE'
+    | 'CONFLICTING_CONDITIONS'
+    | 'UNSUPPORTED_DIALECT'
+    | 'UNSUPPORTED_OPERATOR_ON_DIALECT'
+    | 'FILTER_POLICY_VIOLATION'
+    | 'INVALID_QUERY_STRING'
+    | 'INVALID_SORT'
+    | 'INVALID_AGGREGATE'
+    | 'INVALID_SELECT'
+    | 'INVALID_JSON_PATH'
+    | 'FILTER_LIMIT_EXCEEDED'
+    | 'MULTIPLE_FILTER_ERRORS';
+
+/**
+ * Context carried by a `FilterError`.
+ */
+interface FilterErrorDetails {
+    code: FilterErrorCode;
+    /** Path of the failing condition in the filter, e.g. `$or[1].author.name`. */
+    path?: string;
+    operator?: string;
+    /** The value received. */
+    value?: any;
+    /** The expected type or values, e.g. `number, string or Date`. */
+    expected?: string;
+}
+
+/**
+ * Result of compiling a filter for `repository.find()`.
+ */
+interface FindWhereResult<T extends import('typeorm').ObjectLiteral> {
+    where: import('typeorm').FindOptionsWhere<T> | import('typeorm').FindOptionsWhere<T>[];
+    relations: import('typeorm').FindOptionsRelations<T>;
+}
+
+/**
+ * Paging parameters parsed from a query string.
+ */
+interface PageSpec {
+    page?: number;
+    pageSize?: number;
+    cursor?: string;
+}
+
+/**
+ * Filter, sort, page and select specs parsed from a query string.
+ */
+interface QueryStringSpec {
+    filter: Record<string, any>;
+    sort: Record<string, SortOrder>;
+    page: PageSpec;
+    select?: string[];
+}
+
+/**
+ * A malformed query string parameter.
+ */
+interface QueryStringIssue {
+    /** Bracket-notation path of the parameter, e.g. `filter[age][$between]`. */
+    path: string;
+    code: string;
+}
+
+/**
+ * Declares which fields a client may filter, sort and select.
+ */
+interface FilterPolicy {
+    /** Filterable fields with their allowed operators, `true` allows every operator. Bare values count as `$equalTo`, arrays as `$in`. */
+    filterable?: Record<string, string[] | true>;
+    /** Sortable fields, every field is sortable when omitted. */
+    sortable?: string[];
+    /** Sort used when no sort is given or every sort key was stripped. */
+    defaultSort?: SortSpec;
+    /** Selectable fields and relation paths, a relation allows its nested fields. Every field is selectable when omitted. */
+    selectable?: string[];
+    /** Maximum number of sort keys. */
+    maxSortKeys?: number;
+    /** `reject` (default) throws a `FilterPolicyError` on violations, `strip` silently removes them. */
+    mode?: 'reject' | 'strip';
+}
+
+/**
+ * A filter, sort or select key that breaks a `FilterPolicy`.
+ */
+interface FilterPolicyViolation {
+    /** Path of the violation in the filter, e.g. `$or[1].email`. */
+    path: string;
+    field: string;
+    operator?: string;
+    code: 'FIELD_NOT_FILTERABLE' | 'OPERATOR_NOT_ALLOWED' | 'FIELD_NOT_SORTABLE' | 'TOO_MANY_SORT_KEYS' | 'FIELD_NOT_SELECTABLE';
+}
+
+/**
+ * Options of `applySortOrderQB`.
+ */
+interface ApplySortOptions {
+    /** Filter policy whose sort rules are enforced, defaults to the policy registered for the entity. */
+    policy?: FilterPolicy;
+    /**
+     * TypeORM database type or dialect family the NULLS ordering is generated for.
+     * Defaults to the query builder's `connection.options.type`.
+     */
+    dialect?: import('typeorm').DatabaseType | SqlDialect;
+    /** Computed sort expressions by name, take precedence over the expressions registered with `registerSortExpression`. */
+    expressions?: Record<string, SortExpression>;
+    /** Virtual fields by name, take precedence over the fields registered with `registerVirtualField`. */
+    virtualFields?: Record<string, VirtualField>;
+    /** Complexity limits checked before anything else, defaults to the limits set with `setDefaultFilterLimits`. */
+    limits?: FilterLimits;
+}
+
+/**
+ * How a single sort key is ordered.
+ */
+interface SortKeyOptions {
+    /** Defaults to ascending. */
+    order?: SortOrder;
+    /** Places NULL values first or last, emulated on dialects without `NULLS FIRST/LAST`. */
+    nulls?: 'first' | 'last';
+    /** Compares `LOWER(field)` instead of the field. */
+    caseInsensitive?: boolean;
+    /** Sorts by the position of the value in this list, values missing from the list come last. */
+    values?: (string | number | boolean | null)[];
+    /** Sorts by the full-text rank of the field for this search, use `order: 'desc'` for the best matches first. */
+    search?: string | SearchOptions;
+}
+
+/**
+ * A full-text search of the `$search` operator and of `search` sort keys.
+ */
+interface SearchOptions {
+    /** The search terms, PostgreSQL accepts web search syntax (`"exact phrase" -excluded or other`). */
+    query: string;
+    /** PostgreSQL text search configuration, defaults to `english`. */
+    config?: string;
+    /** Further columns of the same entity searched together with the field, e.g. `['description']`. */
+    columns?: string[];
+}
+
+/**
+ * A sort key of an ordered sort list.
+ */
+interface SortKey extends SortKeyOptions {
+    /** The field, dotted relation path or computed expression name. */
+    field: string;
+}
+
+/**
+ * A sort: an object of fields and sort orders (or key options) applied in key order, or an ordered list of sort keys.
+ */
+type SortSpec = Record<string, SortOrder | SortKeyOptions> | SortKey[];
+
+/**
+ * A computed sort expression, SQL or a function building the SQL from the alias of the query builder.
+ */
+type SortExpression = string | ((alias: string) => string);
+
+/**
+ * A field the entity does not store, registered with `registerVirtualField`. It has either an `expression` or an `expand` function.
+ */
+interface VirtualField {
+    /**
+     * SQL the field is compared and sorted as, or a function building it from the query builder alias,
+     * e.g. `(alias) => \`CONCAT(${alias}.firstName, ' ', ${alias}.lastName)\``. Values are bound as parameters, never part of it.
+     */
+    expression?: SortExpression;
+    /**
+     * Expands a condition on the field into a filter of stored fields, e.g. `isOverdue: true` into
+     * `{ dueAt: { $lt: now }, status: { $notEqualTo: 'done' } }`. Expanded fields cannot be sorted by.
+     */
+    expand?: (condition: any, context: { now: Date; timezone: string }) => Record<string, any>;
+}
+
+/**
+ * A projection, `1`/`true` selects a field or whole relation, nested objects select fields of a relation.
+ */
+interface SelectProjection {
+    [field: string]: 1 | true | SelectProjection;
+}
+
+/**
+ * Fields to select, as a projection (`{ id: 1, author: { name: 1 } }`) or a list of paths (`['id', 'author.name']`).
+ */
+type SelectSpec = string[] | SelectProjection;
+
+/**
+ * Options of `applySelectQB`.
+ */
+interface ApplySelectOptions {
+    /** Filter policy whose select rules are enforced, defaults to the policy registered for the entity. */
+    policy?: FilterPolicy;
+}
+
+/**
+ * An aggregate selection: the aggregate function and the field or dotted relation path it aggregates.
+ * `$count` also takes `'*'`, `distinct` only aggregates distinct values.
+ */
+type AggregateSelection =
+    | { $count: string; distinct?: boolean }
+    | { $sum: string; distinct?: boolean }
+    | { $avg: string; distinct?: boolean }
+    | { $min: string }
+    | { $max: string };
+
+/**
+ * Grouping, aggregate selections, HAVING filter and sort of `aggregateQB`.
+ */
+interface AggregateSpec {
+    /** Fields and dotted relation paths to group by, each selected under its path. */
+    groupBy?: string[];
+    /** Aggregate selections by alias, e.g. `{ orders: { $count: '*' }, revenue: { $sum: 'total' } }`. */
+    aggregates: Record<string, AggregateSelection>;
+    /** Filter on aggregate aliases and grouped fields in the operator language of `where` filters, compiled into HAVING. */
+    having?: Record<string, any>;
+    /** Sort by aggregate aliases and grouped fields. */
+    sort?: SortSpec;
+}
+
+/**
+ * Options of `paginateQB` in offset mode.
+ */
+interface OffsetPaginateOptions extends ScopeOptions {
+    mode: 'offset';
+    /** 1-based page number, defaults to 1. */
+    page?: number;
+    /** Defaults to 20. */
+    pageSize?: number;
+    /** Largest accepted page size, defaults to 100. */
+    maxPageSize?: number;
+    /** Sort applied with `applySortOrderQB`. */
+    sort?: SortSpec;
+    policy?: FilterPolicy;
+}
+
+/**
+ * Options of `paginateQB` in cursor (keyset) mode.
+ */
+interface CursorPaginateOptions extends ScopeOptions {
+    mode: 'cursor';
+    /** Defaults to 20. */
+    pageSize?: number;
+    /** Largest accepted page size, defaults to 100. */
+    maxPageSize?: number;
+    /**
+     * Sort keys of the keyset, the primary key is added as tiebreaker. NULLs are placed by the `nulls` key option,
+     * or like the database sorts them without it, value lists cannot take `nulls`.
+     */
+    sort?: SortSpec;
+    /** `nextCursor` of the previous page. */
+    after?: string;
+    /** `prevCursor` of the next page. */
+    before?: string;
+    /** Secret used to sign cursors with HMAC-SHA256, required so clients cannot forge cursors. */
+    secret: string;
+    /** Also count every row matching the filters. */
+    includeTotalCount?: boolean;
+    policy?: FilterPolicy;
+}
+
+type PaginateOptions = OffsetPaginateOptions | CursorPaginateOptions;
+
+/**
+ * Page info returned by `paginateQB`.
+ */
+interface PageInfo {
+    mode: 'offset' | 'cursor';
+    pageSize: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    /** Offset mode only. */
+    page?: number;
+    /** Offset mode, or cursor mode with `includeTotalCount`. */
+    totalItems?: number;
+    /** Offset mode only. */
+    totalPages?: number;
+    /** Cursor mode only. */
+    nextCursor?: string;
+    /** Cursor mode only. */
+    prevCursor?: string;
+}
+
+/**
+ * A page of entities returned by `paginateQB`.
+ */
+interface Paginated<T> {
+    items: T[];
+    pageInfo: PageInfo;
+}
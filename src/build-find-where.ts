@@ -0,0 +1,250 @@
+import { And, FindOperator, FindOptionsRelations, FindOptionsWhere, ObjectLiteral } from 'typeorm';
+import parseCondition from './parse-condition';
+import validateFilter from './validate-filter';
+import { CompileContext } from './compile-context';
+import { collectFilterError, FilterError, FilterValidationError, throwFilterErrors, withFilterPath } from './filter-errors';
+import { Filter } from './filter-types';
+import enforceFilterLimits, { FilterLimitError, resolveFilterLimits } from './filter-limits';
+
+// A where object for a single AND-combined branch of the filter
+type WhereBranch = Record<string, any>;
+
+// Most where branches a filter may expand into when `maxBranches` is not set, AND-ed `$or` groups multiply them
+const defaultMaxBranches = 1000;
+
+/**
+ * Places a value under a dotted path, turning `author.company.name` into `{ author: { company: { name: value } } }`.
+ */
+function nest(path: string[], value: any): WhereBranch {
+    return path.reduceRight<any>((nested, key) => ({ [key]: nested }), value);
+}
+
+/**
+ * Merges two where objects into one AND-combined where object.
+ * Relation objects are merged recursively, two operators on the same field are combined with `And(...)`.
+ */
+function mergeBranches(left: WhereBranch, right: WhereBranch): WhereBranch {
+    const merged: WhereBranch = { ...left };
+
+    Object.entries(right).forEach(([key, value]) => {
+        const existing = merged[key];
+        if (existing === undefined) {
+            merged[key] = value;
+        } else if (existing instanceof FindOperator && value instanceof FindOperator) {
+            merged[key] = And(existing, value);
+        } else if (!(existing instanceof FindOperator) && !(value instanceof FindOperator)) {
+            merged[key] = mergeBranches(existing, value);
+        } else {
+            // A relation cannot be compared with an operator and filtered by its fields at the same time
+            throw new FilterValidationError(`CANNOT_MERGE_CONDITIONS_FOR_FIELD ${key}`, { code: 'CONFLICTING_CONDITIONS' });
+        }
+    });
+
+    return merged;
+}
+
+/**
+ * AND-combines two lists of OR-ed branches by merging every pair of branches.
+ *
+ * @throws {FilterLimitError} - If there would be more than `maxBranches` branches, before merging any of them.
+ */
+function andBranches(left: WhereBranch[], right: WhereBranch[], maxBranches: number): WhereBranch[] {
+    const count = left.length * right.length;
+    if (count > maxBranches) {
+        throw new FilterLimitError('TOO_MANY_BRANCHES', { limit: 'maxBranches', max: maxBranches, actual: count, expected: `at most ${maxBranches}` });
+    }
+    return left.flatMap((l) => right.map((r) => mergeBranches(l, r)));
+}
+
+/**
+ * Builds the error thrown when a filter is not an object.
+ */
+function invalidFilter(filter: any): FilterValidationError {
+    return new FilterValidationError('FILTER_MUST_BE_AN_OBJECT', { code: 'INVALID_FILTER', value: filter, expected: 'filter object' });
+}
+
+/**
+ * Builds the error thrown when `$and`, `$or` or `$nor` does not hold an array of filters.
+ */
+function invalidLogicalOperator(operator: string, value: any): FilterValidationError {
+    return new FilterValidationError(`${operator.toUpperCase()}_OPERATOR_MUST_HAVE_AN_ARRAY_OF_OBJECTS`, {
+        code: 'INVALID_LOGICAL_OPERATOR', operator, value, expected: 'array of filters',
+    });
+}
+
+/**
+ * Rewrites `NOT filter` into an equivalent filter with the negation pushed down to field-level `$not`
+ * conditions, which `find` can express with `Not(...)`: `NOT (a AND b)` becomes `NOT a OR NOT b`.
+ */
+function negateFilter(filter: any): any {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+        throw invalidFilter(filter);
+    }
+
+    const negated = Object.entries(filter).map(([field, condition]) => {
+        if ((field === '$and' || field === '$or' || field === '$nor') && !Array.isArray(condition)) {
+            throw invalidLogicalOperator(field, condition);
+        }
+
+        switch (field) {
+            case '$and':
+                return { $or: (condition as any[]).map(negateFilter) };
+            case '$or':
+                return { $and: (condition as any[]).map(negateFilter) };
+            case '$nor':
+                return { $or: condition };
+            case '$not':
+                return condition;
+            default:
+                return { [field]: { $not: condition } };
+        }
+    });
+
+    if (negated.length === 0) {
+        // NOT of an empty filter matches nothing, which a where object cannot express
+        throw new FilterValidationError('CANNOT_NEGATE_AN_EMPTY_FILTER', { code: 'INVALID_FILTER', value: filter, expected: 'non-empty filter object' });
+    }
+
+    return negated.length === 1 ? negated[0] : { $or: negated };
+}
+
+/**
+ * Compiles a filter object into a list of OR-ed where branches, collecting the relations used by dotted keys.
+ * Errors are tagged with the filter path of the failing condition (unless `path` is `undefined`) and
+ * collected into `errors` when given.
+ */
+function compileFilter(
+    filter: any,
+    relations: Record<string, any>,
+    options: ConditionOptions,
+    maxBranches: number,
+    path: string | undefined,
+    errors: FilterError[] | undefined
+): WhereBranch[] {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+        throw invalidFilter(filter);
+    }
+
+    let branches: WhereBranch[] = [{}];
+
+    for (const field in filter) {
+        if (Object.prototype.hasOwnProperty.call(filter, field)) {
+            const condition = filter[field];
+            const fieldPath = path === undefined ? undefined : path ? `${path}.${field}` : field;
+            const tag = (error: unknown, suffix: string = '') => fieldPath === undefined ? error : withFilterPath(error, `${fieldPath}${suffix}`);
+
+            try {
+                if (field === '$and' || field === '$or') {
+                    if (!Array.isArray(condition)) {
+                        throw invalidLogicalOperator(field, condition);
+                    }
+
+                    const nested = condition.map((nestedFilter: any, index: number) => {
+                        try {
+                            return compileFilter(nestedFilter, relations, options, maxBranches, fieldPath === undefined ? undefined : `${fieldPath}[${index}]`, errors);
+                        } catch (error) {
+                            throw tag(error, `[${index}]`);
+                        }
+                    });
+
+                    branches = field === '$and'
+                        // Every nested filter must hold, so their branches are merged
+                        ? nested.reduce((acc: WhereBranch[], next: WhereBranch[]) => andBranches(acc, next, maxBranches), branches)
+                        // Any nested filter may hold, so their branches become alternatives
+                        : andBranches(branches, nested.flat(), maxBranches);
+                } else if (field === '$nor' || field === '$not') {
+                    if (field === '$nor' && !Array.isArray(condition)) {
+                        throw invalidLogicalOperator(field, condition);
+                    }
+
+                    // NOT (a OR b) is NOT a AND NOT b. The rewritten filter has a different shape,
+                    // so its errors are reported at the path of the negated group and not collected
+                    const negated = field === '$nor' ? { $and: condition.map(negateFilter) } : negateFilter(condition);
+                    branches = andBranches(branches, compileFilter(negated, relations, options, maxBranches, undefined, undefined), maxBranches);
+                } else {
+                    const path = field.split('.');
+
+                    // Record the relations of the dotted path, e.g. { author: { company: true } }
+                    let node = relations;
+                    path.slice(0, -1).forEach((relation, index) => {
+                        if (index === path.length - 2) {
+                            node[relation] = node[relation] ?? true;
+                        } else {
+                            node[relation] = typeof node[relation] === 'object' ? node[relation] : {};
+                            node = node[relation];
+                        }
+                    });
+
+                    const operator = parseCondition({ conditionFor: 'find', fieldAlias: field, condition, ...options });
+                    branches = andBranches(branches, [nest(path, operator)], maxBranches);
+                }
+            } catch (error) {
+                // Keep the original error and its stack, only record where in the filter it was raised
+                collectFilterError(tag(error), errors);
+            }
+        }
+    }
+
+    return branches;
+}
+
+/**
+ * Compiles a filter object into `where` and `relations` options for `repository.find()`.
+ *
+ * Accepts the same filters as `applyWhereConditionsQB`: `$or` becomes an array of where objects,
+ * `$and` and sibling keys are merged into one where object (operators on the same field are
+ * combined with `And(...)`) and dotted `relation.field` keys become nested relation objects.
+ * `$not` and `$nor` are pushed down to the fields and compiled with `Not(...)`.
+ *
+ * @param filter - The filter object. Supports logical operators (`$and`, `$or`, `$nor`, `$not`) and field conditions,
+ *   checked against `T` when it is given.
+ * @param options - Optional settings, `dialect` selects the SQL used for `Raw` conditions (defaults to 'postgres'),
+ *   `validate` takes the entity metadata to check fields and coerce values against,
+ *   `collectErrors` reports every error of the filter at once, `operators` resolves the condition operators with its own registry,
+ *   `clock` and `timezone` resolve relative dates and the date operators, `limits` bounds the complexity of the filter,
+ *   `limits.maxBranches` the number of where objects it expands into (1000 unless set).
+ * @returns {FindWhereResult<T>} - The `where` and `relations` to pass to `find`/`findAndCount`.
+ *
+ * @throws {FilterError} - If a condition cannot be parsed, with the filter path of the condition.
+ * @throws {FilterAggregateError} - With every error of the filter when `collectErrors` is set.
+ * @throws {FilterLimitError} - If the filter exceeds a complexity limit, or `AND`-ed `$or` groups expand into too many where objects.
+ *
+ * Example usage:
+ * ```typescript
+ * const { where, relations } = buildFindWhere<User>({ 'company.name': 'Acme', $or: [{ age: 30 }, { age: 40 }] });
+ * // where: [{ company: { name: Equal('Acme') }, age: Equal(30) }, { company: { name: Equal('Acme') }, age: Equal(40) }]
+ * // relations: { company: true }
+ * const users = await repository.find({ where, relations });
+ * ```
+ */
+function buildFindWhere<T extends ObjectLiteral = any>(filter: Filter<T>, options: ApplyConditionsOptions = {}): FindWhereResult<T> {
+    if (options.validate === true) {
+        // There is no query builder to take the metadata from
+        throw new Error('VALIDATE_REQUIRES_ENTITY_METADATA');
+    }
+
+    const limits = resolveFilterLimits(options.limits);
+    if (limits) {
+        enforceFilterLimits(filter, limits);
+    }
+
+    const relations: Record<string, any> = {};
+    const validated = options.validate ? validateFilter(filter, options.validate, undefined, { collectErrors: options.collectErrors }) : filter;
+
+    // Every condition of the filter resolves relative dates against the same time
+    const now = options.clock ? options.clock() : new Date();
+    const conditionOptions: ConditionOptions = {
+        dialect: options.dialect, operators: options.operators, clock: () => now, timezone: options.timezone, context: options.context ?? new CompileContext(),
+    };
+
+    const errors: FilterError[] | undefined = options.collectErrors ? [] : undefined;
+    const branches = compileFilter(validated, relations, conditionOptions, limits?.maxBranches ?? defaultMaxBranches, '', errors);
+    throwFilterErrors(errors);
+
+    return {
+        where: (branches.length === 1 ? branches[0] : branches) as FindOptionsWhere<T> | FindOptionsWhere<T>[],
+        relations: relations as FindOptionsRelations<T>,
+    };
+}
+
+export default buildFindWhere;
@@ -0,0 +1,627 @@
+import { And, ArrayContainedBy, ArrayContains, ArrayOverlap, Between, Equal, FindOperator, ILike, In, LessThan, LessThanOrEqual, Like, MoreThan, MoreThanOrEqual, Not } from 'typeorm';
+import { FilterValidationError, UnknownOperatorError, UnsupportedDialectError } from './filter-errors';
+import resolveRelativeDate, { calendarRange, isRelativeDate, resolveDateValue } from './relative-date';
+import compareValues, { jsonContains, jsonEquals, likeMatcher, parseJsonValue, satisfies, valuesEqual } from './compare-values';
+import { jsonKeyPath } from './json-path';
+
+/**
+ * Dialect specific SQL for a condition, the `sql` generator receives the column
+ * expression so it can be used for both query builder and `Raw` find conditions.
+ */
+interface DialectCondition {
+    sql: (column: string) => string;
+    parameters: Record<string, any>;
+}
+
+/**
+ * Builds the error thrown when an operator cannot be expressed on a dialect.
+ */
+export function unsupportedOnDialect(operator: string, dialect: SqlDialect): UnsupportedDialectError {
+    return new UnsupportedDialectError(`UNSUPPORTED_OPERATOR_ON_DIALECT ${operator} ${dialect}`, { code: 'UNSUPPORTED_OPERATOR_ON_DIALECT', operator, value: dialect });
+}
+
+/**
+ * Builds a case-insensitive LIKE predicate, PostgreSQL has ILIKE while other dialects compare lower-cased values.
+ */
+function iLikeSql(column: string, param: string, dialect: SqlDialect, negate: boolean = false): string {
+    if (dialect === 'postgres') {
+        return `${column} ${negate ? 'NOT ILIKE' : 'ILIKE'} :${param}`;
+    }
+    return `LOWER(${column}) ${negate ? 'NOT LIKE' : 'LIKE'} LOWER(:${param})`;
+}
+
+/**
+ * Builds the dialect specific SQL for the `$regex`, `$notRegex`, `$regexi` and `$notRegexi` operators.
+ *
+ * PostgreSQL uses the POSIX regex operators, MySQL/MariaDB use `REGEXP` with an inline `(?i)` flag
+ * for case-insensitive matching. SQLite and SQL Server have no built-in regex support.
+ */
+function regexCondition(operator: string, param: string, value: string, dialect: SqlDialect): DialectCondition {
+    const negate = operator === '$notRegex' || operator === '$notRegexi';
+    const insensitive = operator === '$regexi' || operator === '$notRegexi';
+
+    switch (dialect) {
+        case 'postgres':
+            return {
+                sql: (column) => `${column} ${negate ? '!' : ''}~${insensitive ? '*' : ''} :${param}`,
+                parameters: { [param]: value },
+            };
+        case 'mysql':
+            return {
+                sql: (column) => `${column} ${negate ? 'NOT REGEXP' : 'REGEXP'} :${param}`,
+                parameters: { [param]: insensitive ? `(?i)${value}` : value },
+            };
+        default:
+            throw unsupportedOnDialect(operator, dialect);
+    }
+}
+
+/**
+ * Builds the dialect specific SQL for the `$jsonContains`, `$jsonContained`, `$jsonEquals` and `$jsonHasKey` operators.
+ *
+ * SQLite has no JSON containment operator, so `$jsonContains` with an object is compiled into
+ * one `json_extract` comparison per scalar leaf of the object.
+ */
+function jsonCondition(operator: string, param: string, value: any, dialect: SqlDialect): DialectCondition {
+    switch (operator) {
+        case '$jsonContains':
+        case '$jsonContained': {
+            const contained = operator === '$jsonContained';
+            if (dialect === 'postgres') {
+                return { sql: (column) => `${column} ${contained ? '<@' : '@>'} :${param}`, parameters: { [param]: JSON.stringify(value) } };
+            }
+            if (dialect === 'mysql') {
+                return {
+                    sql: (column) => contained ? `JSON_CONTAINS(:${param}, ${column})` : `JSON_CONTAINS(${column}, :${param})`,
+                    parameters: { [param]: JSON.stringify(value) },
+                };
+            }
+            if (dialect === 'sqlite' && !contained) {
+                return sqliteJsonContains(operator, param, value);
+            }
+            throw unsupportedOnDialect(operator, dialect);
+        }
+        case '$jsonEquals':
+            switch (dialect) {
+                case 'postgres':
+                    return { sql: (column) => `${column} = :${param}`, parameters: { [param]: JSON.stringify(value) } };
+                case 'mysql':
+                    return { sql: (column) => `${column} = CAST(:${param} AS JSON)`, parameters: { [param]: JSON.stringify(value) } };
+                case 'sqlite':
+                    return { sql: (column) => `json(${column}) = json(:${param})`, parameters: { [param]: JSON.stringify(value) } };
+                default:
+                    throw unsupportedOnDialect(operator, dialect);
+            }
+        case '$jsonHasKey':
+            switch (dialect) {
+                case 'postgres':
+                    return { sql: (column) => `${column} ? :${param}_key`, parameters: { [`${param}_key`]: value } };
+                case 'mysql':
+                    return { sql: (column) => `JSON_CONTAINS_PATH(${column}, 'one', :${param}_key)`, parameters: { [`${param}_key`]: jsonKeyPath([String(value)]) } };
+                case 'sqlite':
+                    return { sql: (column) => `json_type(${column}, :${param}_key) IS NOT NULL`, parameters: { [`${param}_key`]: jsonKeyPath([String(value)]) } };
+                default:
+                    throw unsupportedOnDialect(operator, dialect);
+            }
+        default:
+            throw new UnknownOperatorError(operator);
+    }
+}
+
+/**
+ * Emulates JSON containment on SQLite by comparing every scalar leaf of the value with `json_extract`.
+ * JSON paths are bound as parameters, so object keys never end up in the SQL text.
+ */
+function sqliteJsonContains(operator: string, param: string, value: any): DialectCondition {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw unsupportedOnDialect(operator, 'sqlite');
+    }
+
+    const predicates: ((column: string) => string)[] = [];
+    const parameters: Record<string, any> = {};
+
+    const collect = (node: Record<string, any>, keys: string[]) => {
+        Object.entries(node).forEach(([key, leaf]) => {
+            const path = [...keys, key];
+            const index = predicates.length;
+            if (leaf !== null && typeof leaf === 'object') {
+                // Arrays cannot be matched element-wise with json_extract
+                if (Array.isArray(leaf)) {
+                    throw unsupportedOnDialect(operator, 'sqlite');
+                }
+                collect(leaf, path);
+                return;
+            }
+            parameters[`${param}_path_${index}`] = jsonKeyPath(path);
+            if (leaf === null) {
+                predicates.push((column) => `json_type(${column}, :${param}_path_${index}) = 'null'`);
+            } else {
+                // json_extract returns JSON booleans as 1 and 0
+                parameters[`${param}_${index}`] = typeof leaf === 'boolean' ? Number(leaf) : leaf;
+                predicates.push((column) => `json_extract(${column}, :${param}_path_${index}) = :${param}_${index}`);
+            }
+        });
+    };
+    collect(value, []);
+
+    if (predicates.length === 0) {
+        return { sql: (column) => `json_type(${column}) = 'object'`, parameters };
+    }
+
+    return { sql: (column) => `(${predicates.map((predicate) => predicate(column)).join(' AND ')})`, parameters };
+}
+
+/**
+ * Evaluates the `$jsonContains`, `$jsonContained`, `$jsonEquals` and `$jsonHasKey` operators on a JSON value in memory.
+ */
+function jsonMatches(operator: string, value: any, column: any): boolean {
+    const document = parseJsonValue(column);
+    switch (operator) {
+        case '$jsonContains':
+            return jsonContains(document, value);
+        case '$jsonContained':
+            return jsonContains(value, document);
+        case '$jsonEquals':
+            return jsonEquals(document, value);
+        case '$jsonHasKey':
+            // PostgreSQL's `?` also matches string elements of an array
+            return Array.isArray(document)
+                ? document.includes(String(value))
+                : typeof document === 'object' && document !== null && Object.prototype.hasOwnProperty.call(document, String(value));
+        default:
+            throw new UnknownOperatorError(operator);
+    }
+}
+
+// Text search configurations and sibling column names, inlined into the SQL so they must be plain identifiers
+const identifierPattern = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Normalizes a `$search` value, a query string or `{ query, config, columns }`, `undefined` if it is invalid.
+ */
+function searchOptions(value: any): Required<SearchOptions> | undefined {
+    const options = typeof value === 'string' ? { query: value } : value;
+    if (typeof options !== 'object' || options === null || typeof options.query !== 'string' || options.query.trim() === '') {
+        return undefined;
+    }
+
+    const { config = 'english', columns = [] } = options;
+    if (typeof config !== 'string' || !identifierPattern.test(config)) {
+        return undefined;
+    }
+    if (!Array.isArray(columns) || !columns.every((column) => typeof column === 'string' && identifierPattern.test(column))) {
+        return undefined;
+    }
+
+    return { query: options.query.trim(), config, columns };
+}
+
+/**
+ * Splits a search into its lower-cased terms, as matched by the SQLite fallback and in memory.
+ */
+function searchTerms(search: Required<SearchOptions>): string[] {
+    return search.query.toLowerCase().split(/\s+/);
+}
+
+/**
+ * Returns the searched columns, the field followed by the other columns of its alias.
+ * Find mode passes escaped columns, their quotes are dropped as TypeORM maps `alias.property` to the column again.
+ */
+function searchColumns(column: string, columns: string[]): string[] {
+    const alias = column.includes('.') ? column.slice(0, column.lastIndexOf('.')).replace(/["`[\]]/g, '') : undefined;
+    return [column, ...columns.map((property) => alias ? `${alias}.${property}` : property)];
+}
+
+/**
+ * Builds the dialect specific full-text match and rank of a `$search`.
+ *
+ * PostgreSQL matches `to_tsvector` against `websearch_to_tsquery` and ranks with `ts_rank`. MySQL uses
+ * `MATCH ... AGAINST`, which needs a FULLTEXT index over exactly the searched columns. SQLite falls back to a
+ * LIKE per search term, matching `%`, `_` and `\` literally, and ranks by the number of matching terms and columns.
+ */
+function searchCondition(search: Required<SearchOptions>, column: string, param: string, dialect: SqlDialect): { match: string; rank: string; parameters: Record<string, any> } {
+    const columns = searchColumns(column, search.columns);
+
+    switch (dialect) {
+        case 'postgres': {
+            const document = columns.length === 1 ? columns[0] : columns.map((c) => `coalesce(${c}, '')`).join(` || ' ' || `);
+            const vector = `to_tsvector('${search.config}', ${document})`;
+            const query = `websearch_to_tsquery('${search.config}', :${param})`;
+            return { match: `${vector} @@ ${query}`, rank: `ts_rank(${vector}, ${query})`, parameters: { [param]: search.query } };
+        }
+        case 'mysql': {
+            const match = `MATCH (${columns.join(', ')}) AGAINST (:${param} IN NATURAL LANGUAGE MODE)`;
+            return { match, rank: match, parameters: { [param]: search.query } };
+        }
+        case 'sqlite': {
+            const parameters: Record<string, any> = {};
+            const terms = searchTerms(search);
+            terms.forEach((term, index) => {
+                parameters[`${param}_${index}`] = `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+            });
+            // Every term must occur in one of the columns
+            const like = (c: string, index: number) => `LOWER(${c}) LIKE :${param}_${index} ESCAPE '\\'`;
+            const match = terms.map((_, index) => `(${columns.map((c) => like(c, index)).join(' OR ')})`).join(' AND ');
+            const rank = terms.flatMap((_, index) => columns.map((c) => `CASE WHEN ${like(c, index)} THEN 1 ELSE 0 END`)).join(' + ');
+            return { match: terms.length === 1 ? match : `(${match})`, rank: `(${rank})`, parameters };
+        }
+        default:
+            throw unsupportedOnDialect('$search', dialect);
+    }
+}
+
+/**
+ * Builds the full-text rank of a field for a search, the higher the better the match.
+ *
+ * @param column - The field expression, e.g. `post.title`.
+ * @param value - The search, a query string or `{ query, config, columns }`.
+ * @param param - The parameter name reserved for the search.
+ * @param dialect - The dialect to generate SQL for.
+ * @returns {FindOperatorQB} - The rank expression and its parameters.
+ * @throws {FilterValidationError} - If the search is invalid.
+ * @throws {UnsupportedDialectError} - On SQL Server.
+ */
+export function searchRank(column: string, value: any, param: string, dialect: SqlDialect): FindOperatorQB {
+    const search = searchOptions(value);
+    if (!search) {
+        throw new FilterValidationError('SEARCH_MUST_HAVE_A_QUERY_STRING_OR_SEARCH_OPTIONS', { code: 'INVALID_OPERATOR_VALUE', operator: '$search', value, expected: 'string or { query, config, columns }' });
+    }
+    const { rank, parameters } = searchCondition(search, column, param, dialect);
+    return { query: rank, parameters };
+}
+
+// Value checks shared by the built-in operators
+const isScalarList = (value: any) => Array.isArray(value) && value.every((item) => typeof item === 'string' || typeof item === 'number' || item instanceof Date);
+const isComparable = (value: any) => ['number', 'string'].includes(typeof value) || value instanceof Date;
+const isRange = (value: any) => isScalarList(value) && value.length === 2;
+const isString = (value: any) => typeof value === 'string';
+const isEqualityValue = (value: any) => typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value instanceof Date;
+const elementType = (value: any) => value instanceof Date ? 'date' : typeof value;
+const isArrayValue = (value: any) => Array.isArray(value) && value.every((item) => isEqualityValue(item) && elementType(item) === elementType(value[0]));
+const isLength = (value: any) => Number.isInteger(value) && value >= 0;
+
+// Relative dates such as `now-7d` are resolved against the clock of the condition, other values are kept
+const resolveDate = (value: any, { now, timezone }: OperatorContext) => isRelativeDate(value) ? resolveRelativeDate(value, now, timezone) : value;
+
+// Granularities of the calendar date operators
+const calendarUnits: CalendarUnit[] = ['hour', 'day', 'week', 'month', 'year'];
+const isGranularity = (value: any) => value === undefined || calendarUnits.includes(value);
+const isDateValue = (value: any) => resolveDateValue(value, new Date(0), 'UTC') !== undefined;
+const isObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Comparisons `$arrayLength` accepts and their SQL operators
+const lengthComparisons: Record<string, string> = { $equalTo: '=', $notEqualTo: '!=', $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' };
+
+const isLengthCondition = (value: any) => isLength(value) || (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length > 0
+    && Object.entries(value).every(([operator, length]) => Object.prototype.hasOwnProperty.call(lengthComparisons, operator) && isLength(length))
+);
+
+/**
+ * Defines a comparison operator, e.g. `$gte` as `column >= :param` and `MoreThanOrEqual(value)`.
+ */
+function comparison(name: string, sqlOperator: string, toFind: (value: any) => FindOperator<any>): OperatorDefinition {
+    return {
+        validate: isComparable,
+        message: `${name.toUpperCase()}_OPERATOR_MUST_HAVE_A_NUMBER_STRING_OR_DATE`,
+        expected: 'number, string or Date',
+        rebindable: true,
+        toQB: (value, context) => ({ query: `${context.fieldAlias} ${sqlOperator} :${context.param}`, parameters: { [context.param]: resolveDate(value, context) } }),
+        toFind: (value, context) => toFind(resolveDate(value, context)),
+        toPredicate: (value, context) => {
+            const operand = resolveDate(value, context);
+            return (column) => satisfies(compareValues(column, operand), sqlOperator);
+        },
+    };
+}
+
+/**
+ * Defines a range operator, `column BETWEEN :start AND :end` or its negation.
+ */
+function range(message: string, negate: boolean): OperatorDefinition {
+    return {
+        validate: isRange,
+        message,
+        expected: 'array of two strings, numbers or dates',
+        rebindable: true,
+        toQB: (value, context) => ({
+            query: `${context.fieldAlias} ${negate ? 'NOT BETWEEN' : 'BETWEEN'} :${context.param}_start AND :${context.param}_end`,
+            parameters: { [`${context.param}_start`]: resolveDate(value[0], context), [`${context.param}_end`]: resolveDate(value[1], context) },
+        }),
+        toFind: (value, context) => {
+            const between = Between(resolveDate(value[0], context), resolveDate(value[1], context));
+            return negate ? Not(between) : between;
+        },
+        toPredicate: (value, context) => {
+            const [start, end] = [resolveDate(value[0], context), resolveDate(value[1], context)];
+            return (column) => {
+                const [lower, upper] = [compareValues(column, start), compareValues(column, end)];
+                return lower !== undefined && upper !== undefined && (lower >= 0 && upper <= 0) !== negate;
+            };
+        },
+    };
+}
+
+/**
+ * Defines a calendar date operator matching `start <= column < end`, `toRange` returns the half-open range of the value.
+ */
+function calendar(message: string, expected: string, validate: (value: any) => boolean, toRange: (value: any, context: OperatorContext) => [Date, Date]): OperatorDefinition {
+    return {
+        validate,
+        message,
+        expected,
+        rebindable: true,
+        toQB: (value, context) => {
+            const [start, end] = toRange(value, context);
+            const { fieldAlias, param } = context;
+            return {
+                query: `(${fieldAlias} >= :${param}_start AND ${fieldAlias} < :${param}_end)`,
+                parameters: { [`${param}_start`]: start, [`${param}_end`]: end },
+            };
+        },
+        toFind: (value, context) => {
+            const [start, end] = toRange(value, context);
+            return And(MoreThanOrEqual(start), LessThan(end));
+        },
+        toPredicate: (value, context) => {
+            const [start, end] = toRange(value, context);
+            return (column) => satisfies(compareValues(column, start), '>=') && satisfies(compareValues(column, end), '<');
+        },
+    };
+}
+
+/**
+ * Returns the range of the calendar units containing a date, or spanning two dates, in the time zone of the condition.
+ */
+function calendarUnitsRange(from: any, to: any, granularity: CalendarUnit = 'day', { now, timezone }: OperatorContext): [Date, Date] {
+    const [start] = calendarRange(resolveDateValue(from, now, timezone)!, granularity, timezone);
+    const [, end] = calendarRange(resolveDateValue(to, now, timezone)!, granularity, timezone);
+    return [start, end];
+}
+
+/**
+ * Defines a LIKE operator, `pattern` turns the value into the LIKE pattern.
+ */
+function like(message: string, pattern: (value: string) => string, negate: boolean): OperatorDefinition {
+    return {
+        validate: isString,
+        message,
+        expected: 'string',
+        rebindable: true,
+        toQB: (value, { fieldAlias, param }) => ({ query: `${fieldAlias} ${negate ? 'NOT LIKE' : 'LIKE'} :${param}`, parameters: { [param]: pattern(value) } }),
+        toFind: (value) => negate ? Not(Like(pattern(value))) : Like(pattern(value)),
+        // LIKE only respects case on PostgreSQL, the default collations of the other dialects ignore it
+        toPredicate: (value, { dialect }) => {
+            const matches = likeMatcher(pattern(value), dialect !== 'postgres');
+            return (column) => matches(String(column)) !== negate;
+        },
+    };
+}
+
+/**
+ * Defines a regex operator, supported where the database has regex matching.
+ */
+function regex(name: string, message: string): OperatorDefinition {
+    return {
+        validate: isString,
+        message,
+        expected: 'string',
+        dialects: ['postgres', 'mysql'],
+        rebindable: true,
+        toQB: (value, { fieldAlias, param, dialect }) => {
+            const { sql, parameters } = regexCondition(name, param, value, dialect);
+            return { query: sql(fieldAlias), parameters };
+        },
+        toPredicate: (value) => {
+            const negate = name === '$notRegex' || name === '$notRegexi';
+            let expression: RegExp;
+            try {
+                expression = new RegExp(value, name === '$regexi' || name === '$notRegexi' ? 'i' : '');
+            } catch {
+                throw new FilterValidationError(`${name.toUpperCase()}_OPERATOR_MUST_HAVE_A_VALID_PATTERN`, { code: 'INVALID_OPERATOR_VALUE', operator: name, value, expected: 'regular expression' });
+            }
+            return (column) => expression.test(String(column)) !== negate;
+        },
+    };
+}
+
+/**
+ * Defines a PostgreSQL array operator comparing the column with an array of elements of one type.
+ */
+function arrayComparison(message: string, sqlOperator: string, toFind: (value: any[]) => FindOperator<any>): OperatorDefinition {
+    return {
+        validate: isArrayValue,
+        message,
+        expected: 'array of strings, numbers, booleans or dates of one type',
+        dialects: ['postgres'],
+        rebindable: true,
+        toQB: (value, { fieldAlias, param }) => ({ query: `${fieldAlias} ${sqlOperator} :${param}`, parameters: { [param]: value } }),
+        toFind,
+        toPredicate: (value: any[]) => (column) => {
+            if (!Array.isArray(column)) {
+                return false;
+            }
+            const includes = (list: any[], item: any) => list.some((element) => element !== null && valuesEqual(element, item));
+            switch (sqlOperator) {
+                case '@>':
+                    return value.every((item) => includes(column, item));
+                case '<@':
+                    return column.every((item) => includes(value, item));
+                default:
+                    return value.some((item) => includes(column, item));
+            }
+        },
+    };
+}
+
+/**
+ * Defines a JSON operator on the dialects that can express it.
+ */
+function json(name: string, dialects: SqlDialect[]): OperatorDefinition {
+    return {
+        dialects,
+        toQB: (value, { fieldAlias, param, dialect }) => {
+            const { sql, parameters } = jsonCondition(name, param, value, dialect);
+            return { query: sql(fieldAlias), parameters };
+        },
+        toPredicate: (value) => (column) => jsonMatches(name, value, column),
+    };
+}
+
+/**
+ * The built-in operators, registered on every registry created by `createOperatorRegistry`.
+ */
+const builtinOperators: Record<string, OperatorDefinition> = {
+    $in: {
+        validate: isScalarList,
+        message: '$IN_OPERATOR_MUST_HAVE_AN_ARRAY_OF_STRINGS_OR_NUMBERS',
+        expected: 'array of strings, numbers or dates',
+        rebindable: true,
+        toQB: (value, { fieldAlias, param }) => ({ query: `${fieldAlias} IN (:...${param})`, parameters: { [param]: value } }),
+        toFind: (value) => In(value),
+        toPredicate: (value: any[]) => (column) => value.some((item) => valuesEqual(column, item)),
+    },
+    $notIn: {
+        validate: isScalarList,
+        message: '$NOTIN_OPERATOR_MUST_HAVE_AN_ARRAY_OF_STRINGS_OR_NUMBERS',
+        expected: 'array of strings, numbers or dates',
+        rebindable: true,
+        toQB: (value, { fieldAlias, param }) => ({ query: `${fieldAlias} NOT IN (:...${param})`, parameters: { [param]: value } }),
+        toFind: (value) => Not(In(value)),
+        toPredicate: (value: any[]) => (column) => !value.some((item) => valuesEqual(column, item)),
+    },
+    $gte: comparison('$gte', '>=', (value) => MoreThanOrEqual(value)),
+    $lte: comparison('$lte', '<=', (value) => LessThanOrEqual(value)),
+    $gt: comparison('$gt', '>', (value) => MoreThan(value)),
+    $lt: comparison('$lt', '<', (value) => LessThan(value)),
+    $between: range('$BETWEEN_OPERATOR_MUST_HAVE_AN_ARRAY_WITH_TWO_VALUES', false),
+    $notBetween: range('$NOT_BETWEEN_OPERATOR_MUST_HAVE_AN_ARRAY_WITH_TWO_VALUES', true),
+    $dateEquals: calendar(
+        '$DATE_EQUALS_OPERATOR_MUST_HAVE_A_DATE_OR_DATE_AND_GRANULARITY',
+        'date, relative date or { date, granularity }',
+        (value) => isDateValue(value) || (isObject(value) && isDateValue(value.date) && isGranularity(value.granularity)),
+        (value, context) => isObject(value)
+            ? calendarUnitsRange(value.date, value.date, value.granularity, context)
+            : calendarUnitsRange(value, value, 'day', context)
+    ),
+    $dateBetween: calendar(
+        '$DATE_BETWEEN_OPERATOR_MUST_HAVE_TWO_DATES_OR_FROM_TO_AND_GRANULARITY',
+        'array of two dates or { from, to, granularity }',
+        (value) => (Array.isArray(value) && value.length === 2 && value.every(isDateValue))
+            || (isObject(value) && isDateValue(value.from) && isDateValue(value.to) && isGranularity(value.granularity)),
+        (value, context) => Array.isArray(value)
+            ? calendarUnitsRange(value[0], value[1], 'day', context)
+            : calendarUnitsRange(value.from, value.to, value.granularity, context)
+    ),
+    $contains: like('$CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE', (value) => `%${value}%`, false),
+    $notContains: like('$NOT_CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE', (value) => `%${value}%`, true),
+    $iContains: {
+        validate: isString,
+        message: '$I_CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE',
+        expected: 'string',
+        rebindable: true,
+        toQB: (value, { fieldAlias, param, dialect }) => ({ query: iLikeSql(fieldAlias, param, dialect), parameters: { [param]: `%${value}%` } }),
+        toFind: (value) => ILike(`%${value}%`),
+        toPredicate: (value) => {
+            const matches = likeMatcher(`%${value}%`, true);
+            return (column) => matches(String(column));
+        },
+    },
+    $notIContains: {
+        validate: isString,
+        message: '$NOT_I_CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE',
+        expected: 'string',
+        rebindable: true,
+        toQB: (value, { fieldAlias, param, dialect }) => ({ query: iLikeSql(fieldAlias, param, dialect, true), parameters: { [param]: `%${value}%` } }),
+        toFind: (value) => Not(ILike(`%${value}%`)),
+        toPredicate: (value) => {
+            const matches = likeMatcher(`%${value}%`, true);
+            return (column) => !matches(String(column));
+        },
+    },
+    $startsWith: like('$STARTS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE', (value) => `${value}%`, false),
+    $notStartsWith: like('$NOT_STARTS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE', (value) => `${value}%`, true),
+    $endsWith: like('$ENDS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE', (value) => `%${value}`, false),
+    $notEndsWith: like('$NOT_ENDS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE', (value) => `%${value}`, true),
+    $equalTo: {
+        validate: isEqualityValue,
+        message: '$EQUAL_TO_OPERATOR_MUST_HAVE_A_STRING_NUMBER_BOOLEAN_OR_DATE_VALUE',
+        expected: 'string, number, boolean or Date',
+        rebindable: true,
+        toQB: (value, { fieldAlias, param }) => ({ query: `${fieldAlias} = :${param}`, parameters: { [param]: value } }),
+        toFind: (value) => Equal(value),
+        toPredicate: (value) => (column) => valuesEqual(column, value),
+    },
+    $notEqualTo: {
+        validate: isEqualityValue,
+        message: '$NOT_EQUAL_TO_OPERATOR_MUST_HAVE_A_STRING_NUMBER_BOOLEAN_OR_DATE_VALUE',
+        expected: 'string, number, boolean or Date',
+        rebindable: true,
+        toQB: (value, { fieldAlias, param }) => ({ query: `${fieldAlias} != :${param}`, parameters: { [param]: value } }),
+        toFind: (value) => Not(Equal(value)),
+        toPredicate: (value) => (column) => satisfies(compareValues(column, value), '!='),
+    },
+    $regex: regex('$regex', '$REGEX_OPERATOR_MUST_HAVE_A_STRING_VALUE'),
+    $notRegex: regex('$notRegex', '$NOT_REGEX_OPERATOR_MUST_HAVE_A_STRING_VALUE'),
+    $regexi: regex('$regexi', '$REGEXI_OPERATOR_MUST_HAVE_A_STRING_VALUE'),
+    $notRegexi: regex('$notRegexi', '$NOT_REGEXI_OPERATOR_MUST_HAVE_A_STRING_VALUE'),
+    $jsonContains: json('$jsonContains', ['postgres', 'mysql', 'sqlite']),
+    $jsonContained: json('$jsonContained', ['postgres', 'mysql']),
+    $jsonEquals: json('$jsonEquals', ['postgres', 'mysql', 'sqlite']),
+    $jsonHasKey: json('$jsonHasKey', ['postgres', 'mysql', 'sqlite']),
+    $arrayContains: arrayComparison('$ARRAY_CONTAINS_OPERATOR_MUST_HAVE_AN_ARRAY_OF_VALUES_OF_ONE_TYPE', '@>', (value) => ArrayContains(value)),
+    $arrayContainedBy: arrayComparison('$ARRAY_CONTAINED_BY_OPERATOR_MUST_HAVE_AN_ARRAY_OF_VALUES_OF_ONE_TYPE', '<@', (value) => ArrayContainedBy(value)),
+    $arrayOverlap: arrayComparison('$ARRAY_OVERLAP_OPERATOR_MUST_HAVE_AN_ARRAY_OF_VALUES_OF_ONE_TYPE', '&&', (value) => ArrayOverlap(value)),
+    $arrayLength: {
+        validate: isLengthCondition,
+        message: '$ARRAY_LENGTH_OPERATOR_MUST_HAVE_A_LENGTH_OR_LENGTH_COMPARISONS',
+        expected: 'non-negative integer or { $gt, $gte, $lt, $lte, $equalTo, $notEqualTo } of non-negative integers',
+        dialects: ['postgres'],
+        toQB: (value, { fieldAlias, param }) => {
+            // cardinality() is 0 for empty arrays where array_length() is NULL
+            const comparisons: Record<string, number> = typeof value === 'number' ? { $equalTo: value } : value;
+            const parameters: Record<string, any> = {};
+            const predicates = Object.entries(comparisons).map(([operator, length]) => {
+                parameters[`${param}_${operator.slice(1)}`] = length;
+                return `cardinality(${fieldAlias}) ${lengthComparisons[operator]} :${param}_${operator.slice(1)}`;
+            });
+            return { query: predicates.length === 1 ? predicates[0] : `(${predicates.join(' AND ')})`, parameters };
+        },
+        toPredicate: (value) => {
+            const comparisons: Record<string, number> = typeof value === 'number' ? { $equalTo: value } : value;
+            return (column) => Array.isArray(column)
+                && Object.entries(comparisons).every(([operator, length]) => satisfies(compareValues(column.length, length), lengthComparisons[operator]));
+        },
+    },
+    $search: {
+        validate: (value) => searchOptions(value) !== undefined,
+        message: '$SEARCH_OPERATOR_MUST_HAVE_A_QUERY_STRING_OR_SEARCH_OPTIONS',
+        expected: 'string or { query, config, columns }',
+        dialects: ['postgres', 'mysql', 'sqlite'],
+        toQB: (value, { fieldAlias, param, dialect }) => {
+            const { match, parameters } = searchCondition(searchOptions(value)!, fieldAlias, param, dialect);
+            return { query: match, parameters };
+        },
+        // Matches like the SQLite fallback: every term occurs in the field, ignoring case
+        toPredicate: (value) => {
+            const search = searchOptions(value)!;
+            if (search.columns.length > 0) {
+                // The predicate only sees the value of its own field
+                throw new UnsupportedDialectError('UNSUPPORTED_OPERATOR_IN_MEMORY $search', { code: 'UNSUPPORTED_OPERATOR_ON_DIALECT', operator: '$search' });
+            }
+            const terms = searchTerms(search);
+            return (column) => typeof column === 'string' && terms.every((term) => column.toLowerCase().includes(term));
+        },
+    },
+    $anyEquals: {
+        validate: isEqualityValue,
+        message: '$ANY_EQUALS_OPERATOR_MUST_HAVE_A_STRING_NUMBER_BOOLEAN_OR_DATE_VALUE',
+        expected: 'string, number, boolean or Date',
+        dialects: ['postgres'],
+        rebindable: true,
+        toQB: (value, { fieldAlias, param }) => ({ query: `:${param} = ANY(${fieldAlias})`, parameters: { [param]: value } }),
+        toPredicate: (value) => (column) => Array.isArray(column) && column.some((element) => element !== null && valuesEqual(element, value)),
+    },
+};
+
+export default builtinOperators;
@@ -0,0 +1,136 @@
+/**
+ * Returns the time of a date value, `NaN` if it is not a date.
+ */
+function toTime(value: any): number {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    return typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+}
+
+/**
+ * Converts two values the way the database compares a column with a parameter:
+ * dates by their time, numeric strings against numbers as numbers and booleans as 1 and 0.
+ */
+function comparable(left: any, right: any): [any, any] {
+    if (left instanceof Date || right instanceof Date) {
+        return [toTime(left), toTime(right)];
+    }
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+        return [typeof left === 'boolean' ? Number(left) : left, typeof right === 'boolean' ? Number(right) : right];
+    }
+    if (typeof left === 'number' && typeof right === 'string' && right.trim() !== '') {
+        return [left, Number(right)];
+    }
+    if (typeof left === 'string' && typeof right === 'number' && left.trim() !== '') {
+        return [Number(left), right];
+    }
+    return [left, right];
+}
+
+/**
+ * Compares two non-null values like SQL comparison operators do.
+ *
+ * @returns {number | undefined} - A negative number, zero or a positive number, `undefined` if the values cannot be compared.
+ */
+function compareValues(left: any, right: any): number | undefined {
+    const [a, b] = comparable(left, right);
+    if (typeof a !== typeof b || (typeof a === 'number' && (isNaN(a) || isNaN(b)))) {
+        return undefined;
+    }
+    if (typeof a !== 'number' && typeof a !== 'string' && typeof a !== 'bigint') {
+        return undefined;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Returns whether two non-null values are equal like SQL `=`.
+ */
+export function valuesEqual(left: any, right: any): boolean {
+    return compareValues(left, right) === 0;
+}
+
+/**
+ * Returns whether a comparison result satisfies a SQL comparison operator (`=`, `!=`, `>`, `>=`, `<`, `<=`).
+ */
+export function satisfies(order: number | undefined, sqlOperator: string): boolean {
+    if (order === undefined) {
+        return false;
+    }
+    switch (sqlOperator) {
+        case '=':
+            return order === 0;
+        case '!=':
+            return order !== 0;
+        case '>':
+            return order > 0;
+        case '>=':
+            return order >= 0;
+        case '<':
+            return order < 0;
+        case '<=':
+            return order <= 0;
+        default:
+            throw new Error(`UNKNOWN_COMPARISON_OPERATOR ${sqlOperator}`);
+    }
+}
+
+/**
+ * Builds a matcher for a LIKE pattern, `%` matches any text and `_` a single character.
+ *
+ * @param pattern - The LIKE pattern, e.g. `%john%`.
+ * @param caseInsensitive - Whether case is ignored, as by `ILIKE` and the default collations of MySQL, SQLite and SQL Server.
+ */
+export function likeMatcher(pattern: string, caseInsensitive: boolean): (value: string) => boolean {
+    const source = [...pattern].map((char) => char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('');
+    const expression = new RegExp(`^${source}$`, caseInsensitive ? 'si' : 's');
+    return (value) => expression.test(value);
+}
+
+/**
+ * Reads a JSON column value, strings hold serialized JSON as stored by `simple-json` columns.
+ */
+export function parseJsonValue(value: any): any {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+const isJsonObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Returns whether a JSON value contains another like PostgreSQL's `@>`: objects contain their key/value pairs,
+ * arrays contain every element of the other array, scalars contain only themselves.
+ */
+export function jsonContains(container: any, contained: any): boolean {
+    if (Array.isArray(contained)) {
+        return Array.isArray(container) && contained.every((element) => container.some((item) => jsonContains(item, element)));
+    }
+    if (isJsonObject(contained)) {
+        return isJsonObject(container) && Object.entries(contained).every(([key, value]) =>
+            Object.prototype.hasOwnProperty.call(container, key) && jsonContains(container[key], value));
+    }
+    return container === contained;
+}
+
+/**
+ * Returns whether two JSON values are equal, the order of object keys does not matter.
+ */
+export function jsonEquals(left: any, right: any): boolean {
+    if (Array.isArray(left) || Array.isArray(right)) {
+        return Array.isArray(left) && Array.isArray(right) && left.length === right.length && left.every((item, index) => jsonEquals(item, right[index]));
+    }
+    if (isJsonObject(left) || isJsonObject(right)) {
+        return isJsonObject(left) && isJsonObject(right) && Object.keys(left).length === Object.keys(right).length
+            && Object.entries(left).every(([key, value]) => Object.prototype.hasOwnProperty.call(right, key) && jsonEquals(value, right[key]));
+    }
+    return left === right;
+}
+
+export default compareValues;
@@ -0,0 +1,125 @@
+import { QueryBuilder, WhereExpressionBuilder } from 'typeorm';
+
+/**
+ * An operator value bound while compiling a filter, see `CompileContext.recordBindings`.
+ */
+export interface ParameterBinding {
+    /** Keys leading from the filter to the operator value, e.g. `['age', '$or', 1, '$gt']`. */
+    path: (string | number)[];
+    definition: OperatorDefinition;
+    context: OperatorContext;
+}
+
+const contexts = new WeakMap<object, CompileContext>();
+
+/**
+ * Hands out the parameter names of conditions compiled for the same query, `p0`, `p1`, ... in the order they are requested.
+ *
+ * The same filter shape compiled at the same position always gets the same names, so the SQL text stays
+ * the same across requests and can be cached by the database and by a `FilterCache`.
+ */
+export class CompileContext {
+    private next: number;
+    private readonly path: (string | number)[] = [];
+    private bindings: ParameterBinding[] | undefined;
+
+    /**
+     * @param taken - Tells whether a parameter name is already bound elsewhere, such names are skipped.
+     * @param position - Index of the first parameter name.
+     */
+    constructor(private readonly taken: (name: string) => boolean = () => false, position: number = 0) {
+        this.next = position;
+    }
+
+    /**
+     * Index of the next parameter name.
+     */
+    get position(): number {
+        return this.next;
+    }
+
+    /**
+     * Returns the next free parameter name, operators binding several values use it as prefix (`p0_start`).
+     */
+    nextParam(): string {
+        let name = `p${this.next++}`;
+        while (this.taken(name)) {
+            name = `p${this.next++}`;
+        }
+        return name;
+    }
+
+    /**
+     * Returns whether a parameter name is already bound elsewhere.
+     */
+    isTaken(name: string): boolean {
+        return this.taken(name);
+    }
+
+    /**
+     * Moves to a position, e.g. past the parameters of a cached filter.
+     */
+    seek(position: number): void {
+        this.next = position;
+    }
+
+    /**
+     * Compiles the value found at `keys` below the current path, the path is recorded with every binding.
+     */
+    within<T>(keys: (string | number)[], compile: () => T): T {
+        this.path.push(...keys);
+        try {
+            return compile();
+        } finally {
+            this.path.splice(this.path.length - keys.length);
+        }
+    }
+
+    /**
+     * Starts recording every operator value bound until `stopRecording` is called.
+     */
+    recordBindings(): void {
+        this.bindings = [];
+    }
+
+    /**
+     * Stops recording and returns the bindings recorded since `recordBindings`.
+     */
+    stopRecording(): ParameterBinding[] {
+        const bindings = this.bindings ?? [];
+        this.bindings = undefined;
+        return bindings;
+    }
+
+    /**
+     * Records an operator value bound at the current path, when recording.
+     */
+    bind(definition: OperatorDefinition, context: OperatorContext): void {
+        this.bindings?.push({ path: [...this.path], definition, context });
+    }
+}
+
+/**
+ * Returns the compile context shared by every helper applied to a query builder.
+ *
+ * Brackets and the query builder they belong to share their parameters and so their context.
+ * Names already bound on the query builder are skipped.
+ *
+ * @param qb - The query builder, or a `WhereExpressionBuilder` of it.
+ * @returns {CompileContext} - The compile context of the query builder.
+ */
+function compileContextFor(qb: WhereExpressionBuilder): CompileContext {
+    if (!(qb instanceof QueryBuilder)) {
+        return new CompileContext();
+    }
+    const parameters = qb.expressionMap.parameters;
+
+    let context = contexts.get(parameters);
+    if (!context) {
+        context = new CompileContext((name) => Object.prototype.hasOwnProperty.call(parameters, name));
+        contexts.set(parameters, context);
+    }
+    return context;
+}
+
+export default compileContextFor;
@@ -0,0 +1,249 @@
+import { EntityTarget, WhereExpressionBuilder } from 'typeorm';
+import { FilterError } from './filter-errors';
+import { isRelationFilter } from './relation-filter';
+import entityKey, { aliasMetadataLookup, findRegistered } from './entity-metadata';
+
+// Policies registered per entity, keyed by entity class, schema or name
+const registeredPolicies = new Map<EntityTarget<any>, FilterPolicy>();
+
+/**
+ * Error thrown when a filter, sort or select breaks a `FilterPolicy` in `reject` mode.
+ */
+export class FilterPolicyError extends FilterError {
+    readonly violations: FilterPolicyViolation[];
+
+    constructor(violations: FilterPolicyViolation[]) {
+        super(`FILTER_POLICY_VIOLATION ${violations.map((violation) => `${violation.code} at ${violation.path}`).join(', ')}`, { code: 'FILTER_POLICY_VIOLATION' });
+        this.name = 'FilterPolicyError';
+        this.violations = violations;
+    }
+}
+
+// Field-level logical operators, they nest conditions of the same field
+const logicalOperators = ['$and', '$or', '$nor', '$not'];
+
+/**
+ * Returns the operators a condition uses, bare values are implicit `$equalTo` and arrays implicit `$in`.
+ * Operators nested in field-level `$and`/`$or`/`$nor`/`$not` are included.
+ */
+function conditionOperators(condition: any): string[] {
+    if (condition === '$isNull' || condition === '$isNotNull') {
+        return [condition];
+    }
+    if (Array.isArray(condition)) {
+        return ['$in'];
+    }
+    if (typeof condition === 'object' && condition !== null && !(condition instanceof Date)) {
+        return Object.entries(condition).flatMap(([operator, value]) => !logicalOperators.includes(operator)
+            ? [operator]
+            : (Array.isArray(value) ? value : [value]).flatMap(conditionOperators));
+    }
+    return ['$equalTo'];
+}
+
+/**
+ * Checks a filter against the policy, collecting violations and returning the filter without them.
+ * Fields of the filters of relation quantifiers are checked as relation paths, `prefix` leads to them (`posts.`).
+ */
+function checkFilter(filter: any, policy: FilterPolicy, path: string, violations: FilterPolicyViolation[], prefix: string = ''): Record<string, any> {
+    const allowed: Record<string, any> = {};
+
+    for (const field in filter) {
+        if (Object.prototype.hasOwnProperty.call(filter, field)) {
+            const condition = filter[field];
+            const fieldPath = path ? `${path}.${field}` : field;
+
+            if ((field === '$and' || field === '$or' || field === '$nor') && Array.isArray(condition)) {
+                const nested = condition
+                    .map((nestedFilter: any, index: number) => checkFilter(nestedFilter, policy, `${fieldPath}[${index}]`, violations, prefix))
+                    .filter((nestedFilter: Record<string, any>) => Object.keys(nestedFilter).length > 0);
+                if (nested.length > 0) {
+                    allowed[field] = nested;
+                }
+                continue;
+            }
+
+            if (field === '$not' && typeof condition === 'object' && condition !== null && !Array.isArray(condition)) {
+                const nested = checkFilter(condition, policy, fieldPath, violations, prefix);
+                if (Object.keys(nested).length > 0) {
+                    allowed[field] = nested;
+                }
+                continue;
+            }
+
+            if (isRelationFilter(condition)) {
+                // `{ posts: { $some: { status: 'draft' } } }` is allowed when `posts.status` is filterable
+                // Only filters emptied by stripping are dropped, `{ $some: {} }` checks that a related entity exists
+                const quantifiers = Object.entries(condition).flatMap(([quantifier, nestedFilter]) => {
+                    if (typeof nestedFilter !== 'object' || nestedFilter === null || Object.keys(nestedFilter).length === 0) {
+                        return [[quantifier, nestedFilter]];
+                    }
+                    const nested = checkFilter(nestedFilter, policy, `${fieldPath}.${quantifier}`, violations, `${prefix}${field}.`);
+                    return Object.keys(nested).length > 0 ? [[quantifier, nested]] : [];
+                });
+                if (quantifiers.length > 0) {
+                    allowed[field] = Object.fromEntries(quantifiers);
+                }
+                continue;
+            }
+
+            const policyField = `${prefix}${field}`;
+            // Field names like `constructor` must not match properties the policy object inherits
+            const operators = policy.filterable && Object.prototype.hasOwnProperty.call(policy.filterable, policyField) ? policy.filterable[policyField] : undefined;
+            if (operators === undefined) {
+                violations.push({ path: fieldPath, field: policyField, code: 'FIELD_NOT_FILTERABLE' });
+                continue;
+            }
+
+            const denied = operators === true ? [] : conditionOperators(condition).filter((operator) => !operators.includes(operator));
+            denied.forEach((operator) => violations.push({ path: fieldPath, field: policyField, operator, code: 'OPERATOR_NOT_ALLOWED' }));
+
+            if (denied.length === 0) {
+                allowed[field] = condition;
+            } else if (typeof condition === 'object' && !Array.isArray(condition) && condition !== null && !(condition instanceof Date)
+                && !Object.keys(condition).some((operator) => logicalOperators.includes(operator))) {
+                // Keep the allowed operators of an operator object, field-level logic is dropped as a whole
+                const remaining = Object.fromEntries(Object.entries(condition).filter(([operator]) => !denied.includes(operator)));
+                if (Object.keys(remaining).length > 0) {
+                    allowed[field] = remaining;
+                }
+            }
+        }
+    }
+
+    return allowed;
+}
+
+/**
+ * Enforces a filter policy on a filter.
+ *
+ * Fields missing from `policy.filterable` and operators not listed for a field are violations.
+ * In `reject` mode (the default) violations throw a `FilterPolicyError`, in `strip` mode they are
+ * silently removed from the returned filter.
+ *
+ * @param filter - The filter object. Supports logical operators (`$and`, `$or`, `$nor`, `$not`) and field conditions.
+ * @param policy - The filter policy to enforce.
+ * @returns {any} - The filter allowed by the policy.
+ * @throws {FilterPolicyError} - In `reject` mode, with every violation and its filter path.
+ *
+ * Example usage:
+ * ```typescript
+ * const policy: FilterPolicy = { filterable: { email: ['$equalTo', '$iContains'], age: true } };
+ * enforceFilterPolicy({ email: { $iContains: 'acme' } }, policy); // allowed
+ * enforceFilterPolicy({ passwordHash: 'x' }, policy); // throws FIELD_NOT_FILTERABLE at passwordHash
+ * ```
+ */
+function enforceFilterPolicy(filter: any, policy: FilterPolicy): any {
+    const violations: FilterPolicyViolation[] = [];
+    const allowed = checkFilter(filter, policy, '', violations);
+
+    if (violations.length > 0 && policy.mode !== 'strip') {
+        throw new FilterPolicyError(violations);
+    }
+
+    return allowed;
+}
+
+/**
+ * Enforces a filter policy on a sort.
+ *
+ * Fields missing from `policy.sortable` and keys beyond `policy.maxSortKeys` are violations,
+ * rejected or stripped depending on the policy mode. `policy.defaultSort` is used when no sort remains.
+ *
+ * @param sort - An object where keys are field names and values are sort orders, or an ordered list of sort keys.
+ * @param policy - The filter policy to enforce.
+ * @returns {SortSpec} - The sort allowed by the policy, in the shape it was given.
+ * @throws {FilterPolicyError} - In `reject` mode, with every violation and its sort key.
+ */
+export function enforceSortPolicy(sort: SortSpec, policy: FilterPolicy): SortSpec {
+    const violations: FilterPolicyViolation[] = [];
+    const entries: [string, any][] = Array.isArray(sort) ? sort.map((key) => [key.field, key]) : Object.entries(sort);
+    const allowed: [string, any][] = [];
+
+    entries.forEach(([field, order]) => {
+        if (policy.sortable !== undefined && !policy.sortable.includes(field)) {
+            violations.push({ path: field, field, code: 'FIELD_NOT_SORTABLE' });
+        } else if (policy.maxSortKeys !== undefined && allowed.length >= policy.maxSortKeys) {
+            violations.push({ path: field, field, code: 'TOO_MANY_SORT_KEYS' });
+        } else {
+            allowed.push([field, order]);
+        }
+    });
+
+    if (violations.length > 0 && policy.mode !== 'strip') {
+        throw new FilterPolicyError(violations);
+    }
+
+    if (allowed.length === 0) {
+        const defaultSort = policy.defaultSort ?? {};
+        return Array.isArray(defaultSort) ? [...defaultSort] : { ...defaultSort };
+    }
+
+    return Array.isArray(sort) ? allowed.map(([, key]) => key) : Object.fromEntries(allowed);
+}
+
+/**
+ * Enforces a filter policy on a list of selected fields.
+ *
+ * Fields missing from `policy.selectable` are violations, unless a relation path containing them is listed
+ * (`author` allows `author.name`). Violations are rejected or stripped depending on the policy mode.
+ *
+ * @param fields - The selected fields and relation paths.
+ * @param policy - The filter policy to enforce.
+ * @returns {string[]} - The fields allowed by the policy.
+ * @throws {FilterPolicyError} - In `reject` mode, with every field that may not be selected.
+ */
+export function enforceSelectPolicy(fields: string[], policy: FilterPolicy): string[] {
+    const selectable = policy.selectable;
+    if (selectable === undefined) {
+        return fields;
+    }
+
+    const violations: FilterPolicyViolation[] = [];
+    const allowed = fields.filter((field) => {
+        const isAllowed = selectable.some((path) => field === path || field.startsWith(`${path}.`));
+        if (!isAllowed) {
+            violations.push({ path: field, field, code: 'FIELD_NOT_SELECTABLE' });
+        }
+        return isAllowed;
+    });
+
+    if (violations.length > 0 && policy.mode !== 'strip') {
+        throw new FilterPolicyError(violations);
+    }
+
+    return allowed;
+}
+
+/**
+ * Registers the filter policy of an entity, used by the apply helpers when no policy is passed explicitly.
+ *
+ * @param entity - The entity class, schema or name.
+ * @param policy - The filter policy of the entity, `undefined` removes the registered policy.
+ */
+export function registerFilterPolicy(entity: EntityTarget<any>, policy: FilterPolicy | undefined): void {
+    const key = entityKey(entity);
+    if (policy) {
+        registeredPolicies.set(key, policy);
+    } else {
+        registeredPolicies.delete(key);
+    }
+}
+
+/**
+ * Resolves the policy to enforce, the explicit policy or the one registered for the entity of the alias.
+ *
+ * @param qb - The query builder holding the alias.
+ * @param alias - The alias name, defaults to the main alias.
+ * @param explicit - A policy passed explicitly, takes precedence over registered policies.
+ * @returns {FilterPolicy | undefined} - The policy to enforce, if any.
+ */
+export function resolveFilterPolicy(qb: WhereExpressionBuilder, alias?: string, explicit?: FilterPolicy): FilterPolicy | undefined {
+    if (explicit || registeredPolicies.size === 0) {
+        return explicit;
+    }
+
+    return findRegistered(registeredPolicies, aliasMetadataLookup(qb)(alias));
+}
+
+export default enforceFilterPolicy;
@@ -0,0 +1,37 @@
+import { EntityMetadata, EntitySchema, EntityTarget, QueryBuilder, WhereExpressionBuilder } from 'typeorm';
+
+/**
+ * Returns the key an entity is registered under by the per-entity registries, policies, sort expressions,
+ * virtual fields and scopes. Metadata of an entity schema targets its class or name, never the schema itself.
+ *
+ * @param entity - The entity class, schema or name.
+ * @returns {EntityTarget<any>} - The class or name the metadata of the entity targets.
+ */
+function entityKey(entity: EntityTarget<any>): EntityTarget<any> {
+    return entity instanceof EntitySchema ? entity.options.target ?? entity.options.name : entity;
+}
+
+/**
+ * Returns the value registered for the entity of a metadata, by its target or its name.
+ */
+export function findRegistered<V>(registered: Map<EntityTarget<any>, V>, metadata: EntityMetadata | undefined): V | undefined {
+    if (!metadata || registered.size === 0) {
+        return undefined;
+    }
+    return registered.get(metadata.target as EntityTarget<any>) ?? registered.get(metadata.name);
+}
+
+/**
+ * Returns a lookup of the entity metadata of every alias joined on a query builder, the main alias when no alias is given.
+ */
+export function aliasMetadataLookup(qb: WhereExpressionBuilder): (alias?: string) => EntityMetadata | undefined {
+    return (alias) => {
+        if (!(qb instanceof QueryBuilder)) {
+            return undefined;
+        }
+        const found = alias ? qb.expressionMap.aliases.find((a) => a.name === alias) : qb.expressionMap.mainAlias;
+        return found?.hasMetadata ? found.metadata : undefined;
+    };
+}
+
+export default entityKey;
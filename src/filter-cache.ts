@@ -0,0 +1,151 @@
+import { ParameterBinding } from './compile-context';
+import { OperatorRegistry } from './operator-registry';
+import { jsonPathCast } from './json-path';
+
+/**
+ * A filter compiled by `applyWhereConditionsQB`, kept by a `FilterCache` for filters of the same shape.
+ */
+export interface CompiledFilter {
+    /** The SQL of every top-level clause, applied with the where method of the call. */
+    clauses: string[];
+    /** Every field with the expression it was resolved to, dotted relation paths are joined again on reuse. */
+    fields: { field: string; fieldAlias: string }[];
+    /** The operator values bound, rebound from the filter on reuse. */
+    bindings: ParameterBinding[];
+    /** Parameters that are part of the shape, e.g. the paths of JSON path fields, bound again as they are. */
+    constants: Record<string, any>;
+    /** Position of the compile context after the filter. */
+    position: number;
+}
+
+const registryIds = new WeakMap<OperatorRegistry, number>();
+let nextRegistryId = 0;
+
+// Logical operators nest conditions, they are part of the shape like fields and operators
+const logicalOperators = ['$and', '$or', '$nor', '$not'];
+
+/**
+ * Returns the shape of a field condition: operators are kept, values of rebindable operators and bare values become `?`.
+ */
+function conditionShape(condition: any, operators: OperatorRegistry): any {
+    if (condition === '$isNull' || condition === '$isNotNull') {
+        return condition;
+    }
+    if (Array.isArray(condition)) {
+        // A list of values is compiled with `$in`
+        return condition.every((item) => ['string', 'number'].includes(typeof item) || item instanceof Date) ? '[?]' : condition.map((item) => conditionShape(item, operators));
+    }
+    if (typeof condition !== 'object' || condition === null || condition instanceof Date) {
+        return typeof condition === 'boolean' || typeof condition === 'string' || typeof condition === 'number' || condition instanceof Date ? '?' : condition;
+    }
+
+    return Object.entries(condition).map(([operator, value]) => {
+        if (logicalOperators.includes(operator)) {
+            return [operator, Array.isArray(value) ? value.map((nested) => conditionShape(nested, operators)) : conditionShape(value, operators)];
+        }
+        return [operator, operators.getOperator(operator)?.rebindable ? '?' : value];
+    });
+}
+
+/**
+ * Returns the shape of a filter, filters of the same shape compile to the same SQL.
+ */
+function filterShape(filter: any, operators: OperatorRegistry): any {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+        return filter;
+    }
+
+    return Object.entries(filter).map(([field, condition]) => {
+        if (field === '$and' || field === '$or' || field === '$nor') {
+            return [field, Array.isArray(condition) ? condition.map((nested) => filterShape(nested, operators)) : condition];
+        }
+        if (field === '$not') {
+            return [field, filterShape(condition, operators)];
+        }
+        // The cast of a JSON path field depends on its values, it is part of the SQL
+        return field.includes('->')
+            ? [field, jsonPathCast(condition), conditionShape(condition, operators)]
+            : [field, conditionShape(condition, operators)];
+    });
+}
+
+/**
+ * A least recently used cache of compiled filters, keyed by filter shape.
+ *
+ * Filters that only differ in the values of rebindable operators (every built-in operator except the
+ * JSON operators, `$arrayLength` and `$search`) share an entry: the SQL is reused and the values are bound again.
+ * Use one cache per data source.
+ */
+export class FilterCache {
+    private readonly entries = new Map<string, CompiledFilter>();
+
+    /**
+     * @param maxSize - Number of compiled filters kept, the least recently used are evicted first.
+     */
+    constructor(readonly maxSize: number = 500) {
+        if (!Number.isInteger(maxSize) || maxSize < 1) {
+            throw new Error('MAX_SIZE_MUST_BE_A_POSITIVE_INTEGER');
+        }
+    }
+
+    /**
+     * Number of compiled filters in the cache.
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Returns the cache key of a filter compiled with the given settings.
+     */
+    key(filter: any, settings: { alias: string; whereMethod: string; dialect: SqlDialect; position: number; operators: OperatorRegistry }): string {
+        let registryId = registryIds.get(settings.operators);
+        if (registryId === undefined) {
+            registryId = nextRegistryId++;
+            registryIds.set(settings.operators, registryId);
+        }
+        return JSON.stringify([settings.alias, settings.whereMethod, settings.dialect, settings.position, registryId, filterShape(filter, settings.operators)]);
+    }
+
+    get(key: string): CompiledFilter | undefined {
+        const compiled = this.entries.get(key);
+        if (compiled) {
+            // Move the entry to the end, the most recently used
+            this.entries.delete(key);
+            this.entries.set(key, compiled);
+        }
+        return compiled;
+    }
+
+    set(key: string, compiled: CompiledFilter): this {
+        this.entries.delete(key);
+        this.entries.set(key, compiled);
+        if (this.entries.size > this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+        return this;
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Creates a cache of compiled filters for `applyWhereConditionsQB`.
+ *
+ * @param maxSize - Number of compiled filters kept, defaults to 500.
+ * @returns {FilterCache} - The cache, pass it as the `cache` option.
+ *
+ * Example usage:
+ * ```typescript
+ * const filterCache = createFilterCache();
+ * applyWhereConditionsQB(qb, 'andWhere', { age: { $gte: 18 } }, 'user', { cache: filterCache });
+ * // WHERE user.age >= :p0, the next request with { age: { $gte: 21 } } reuses the SQL and binds p0 = 21
+ * ```
+ */
+function createFilterCache(maxSize: number = 500): FilterCache {
+    return new FilterCache(maxSize);
+}
+
+export default createFilterCache;
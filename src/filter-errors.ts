@@ -0,0 +1,120 @@
+/**
+ * Base class of every error caused by a filter, sort or query string a client sent.
+ *
+ * Carries a stable `code`, the path of the failing condition in the filter (`$or[1].author.name`),
+ * the operator, the value received and the expected type, so it can be mapped to a 400 response.
+ */
+export class FilterError extends Error {
+    readonly code: FilterErrorCode;
+    /** Path of the failing condition in the filter, set once the error leaves the filter it was raised in. */
+    path?: string;
+    readonly operator?: string;
+    readonly value?: any;
+    readonly expected?: string;
+
+    constructor(message: string, details: FilterErrorDetails) {
+        super(details.path ? `${message} at ${details.path}` : message);
+        this.name = 'FilterError';
+        this.code = details.code;
+        this.path = details.path;
+        this.operator = details.operator;
+        this.value = details.value;
+        this.expected = details.expected;
+    }
+
+    /**
+     * Returns the error details, e.g. for a response body.
+     */
+    toJSON(): FilterErrorDetails & { message: string } {
+        return { code: this.code, message: this.message, path: this.path, operator: this.operator, value: this.value, expected: this.expected };
+    }
+}
+
+/**
+ * Error thrown when a filter is malformed or does not fit the entity: invalid values, unknown fields, misused logical operators.
+ */
+export class FilterValidationError extends FilterError {
+    constructor(message: string, details: FilterErrorDetails) {
+        super(message, details);
+        this.name = 'FilterValidationError';
+    }
+}
+
+/**
+ * Error thrown when a condition uses an operator that does not exist.
+ */
+export class UnknownOperatorError extends FilterError {
+    constructor(operator: string, path?: string) {
+        super(`INVALID_CONDITION_OPERATOR ${operator}`, { code: 'UNKNOWN_OPERATOR', operator, path });
+        this.name = 'UnknownOperatorError';
+    }
+}
+
+/**
+ * Error thrown when a database type has no dialect or an operator cannot be expressed on a dialect.
+ */
+export class UnsupportedDialectError extends FilterError {
+    constructor(message: string, details: FilterErrorDetails) {
+        super(message, details);
+        this.name = 'UnsupportedDialectError';
+    }
+}
+
+/**
+ * Error thrown with every error of a filter when errors are collected with the `collectErrors` option.
+ */
+export class FilterAggregateError extends FilterError {
+    readonly errors: FilterError[];
+
+    constructor(errors: FilterError[]) {
+        super(`FILTER_ERRORS ${errors.map((error) => error.message).join(', ')}`, { code: 'MULTIPLE_FILTER_ERRORS' });
+        this.name = 'FilterAggregateError';
+        this.errors = errors;
+    }
+
+    toJSON(): FilterErrorDetails & { message: string; errors: (FilterErrorDetails & { message: string })[] } {
+        return { ...super.toJSON(), errors: this.errors.map((error) => error.toJSON()) };
+    }
+}
+
+/**
+ * Records the filter path of an error raised below it. Errors that already carry a (deeper) path keep it.
+ *
+ * @param error - The error raised while processing the condition at `path`.
+ * @param path - The filter path, e.g. `$or[1].author.name`.
+ * @returns {unknown} - The same error, to be rethrown.
+ */
+export function withFilterPath(error: unknown, path: string): unknown {
+    if (error instanceof FilterError && error.path === undefined) {
+        error.path = path;
+        error.message = `${error.message} at ${path}`;
+    }
+    return error;
+}
+
+/**
+ * Collects a filter error when errors are collected, otherwise rethrows it. Errors not caused by the filter are always rethrown.
+ *
+ * @param error - The caught error, with its filter path recorded.
+ * @param errors - The collected errors, `undefined` when errors are not collected.
+ */
+export function collectFilterError(error: unknown, errors: FilterError[] | undefined): void {
+    if (errors && error instanceof FilterAggregateError) {
+        errors.push(...error.errors);
+    } else if (errors && error instanceof FilterError) {
+        errors.push(error);
+    } else {
+        throw error;
+    }
+}
+
+/**
+ * Throws the collected errors as a `FilterAggregateError`, if there are any.
+ *
+ * @param errors - The collected errors, `undefined` when errors are not collected.
+ */
+export function throwFilterErrors(errors: FilterError[] | undefined): void {
+    if (errors && errors.length > 0) {
+        throw new FilterAggregateError(errors);
+    }
+}
@@ -0,0 +1,271 @@
+import { FilterError } from './filter-errors';
+import { isRelationFilter } from './relation-filter';
+
+// Limits applied when no `limits` option is given, see `setDefaultFilterLimits`
+let defaultLimits: FilterLimits | undefined;
+
+// Logical operators nest filters and conditions, every one of them is a level of depth
+const logicalOperators = ['$and', '$or', '$nor', '$not'];
+
+// Operators whose value is a pattern matched by the database's regular expression engine
+const regexOperators = ['$regex', '$notRegex', '$regexi', '$notRegexi'];
+
+// Cost of an operator in the complexity score, every other operator costs 1
+const operatorCosts: Record<string, number> = { $regex: 5, $notRegex: 5, $regexi: 5, $notRegexi: 5, $search: 5 };
+
+// Cost of a relation quantifier, a correlated sub query
+const quantifierCost = 10;
+
+/**
+ * Error thrown when a filter or sort exceeds a `FilterLimits` limit.
+ */
+export class FilterLimitError extends FilterError {
+    /** The limit exceeded, e.g. `maxDepth`. */
+    readonly limit: keyof FilterLimits;
+    /** The configured maximum, not set for denied operators. */
+    readonly max?: number;
+    /** The size reached, not set for denied operators. */
+    readonly actual?: number;
+
+    constructor(message: string, details: Omit<FilterErrorDetails, 'code'> & { limit: keyof FilterLimits; max?: number; actual?: number }) {
+        const { limit, max, actual, ...rest } = details;
+        super(message, { ...rest, code: 'FILTER_LIMIT_EXCEEDED' });
+        this.name = 'FilterLimitError';
+        this.limit = limit;
+        this.max = max;
+        this.actual = actual;
+    }
+
+    toJSON(): FilterErrorDetails & { message: string; limit: keyof FilterLimits; max?: number; actual?: number } {
+        return { ...super.toJSON(), limit: this.limit, max: this.max, actual: this.actual };
+    }
+}
+
+/**
+ * Walks a filter, measuring it and stopping at the first limit it exceeds.
+ */
+class FilterMeasure {
+    readonly complexity: FilterComplexity = { depth: 0, predicates: 0, longestList: 0, longestString: 0, operators: [], score: 0 };
+
+    constructor(private readonly limits: FilterLimits = {}) {
+    }
+
+    /**
+     * Measures the filter found at `path`, nested `depth` levels deep.
+     */
+    filter(filter: any, depth: number, path: string): void {
+        this.level(depth, path);
+        if (typeof filter !== 'object' || filter === null) {
+            return;
+        }
+
+        for (const field in filter) {
+            if (Object.prototype.hasOwnProperty.call(filter, field)) {
+                const condition = filter[field];
+                const fieldPath = path ? `${path}.${field}` : field;
+
+                if ((field === '$and' || field === '$or' || field === '$nor') && Array.isArray(condition)) {
+                    this.operator(field, fieldPath);
+                    condition.forEach((nestedFilter: any, index: number) => this.filter(nestedFilter, depth + 1, `${fieldPath}[${index}]`));
+                } else if (field === '$not') {
+                    this.operator(field, fieldPath);
+                    this.filter(condition, depth + 1, fieldPath);
+                } else if (isRelationFilter(condition)) {
+                    Object.entries(condition).forEach(([quantifier, nestedFilter]) => {
+                        this.operator(quantifier, `${fieldPath}.${quantifier}`);
+                        this.complexity.score += quantifierCost;
+                        this.filter(nestedFilter, depth + 1, `${fieldPath}.${quantifier}`);
+                    });
+                } else {
+                    this.condition(condition, depth, fieldPath);
+                }
+            }
+        }
+    }
+
+    /**
+     * Measures the condition of a field, bare values are implicit `$equalTo` and arrays implicit `$in`.
+     */
+    condition(condition: any, depth: number, path: string): void {
+        if (condition === '$isNull' || condition === '$isNotNull') {
+            this.predicate(condition, undefined, path);
+        } else if (Array.isArray(condition)) {
+            this.predicate('$in', condition, path);
+        } else if (typeof condition === 'object' && condition !== null && !(condition instanceof Date)) {
+            Object.entries(condition).forEach(([operator, value]) => {
+                const operatorPath = `${path}.${operator}`;
+                if (!logicalOperators.includes(operator)) {
+                    this.predicate(operator, value, operatorPath);
+                    return;
+                }
+
+                // Field-level logic nests conditions of the same field
+                this.operator(operator, operatorPath);
+                this.level(depth + 1, operatorPath);
+                if (Array.isArray(value)) {
+                    value.forEach((nested, index) => this.condition(nested, depth + 1, `${operatorPath}[${index}]`));
+                } else {
+                    this.condition(value, depth + 1, operatorPath);
+                }
+            });
+        } else {
+            this.predicate('$equalTo', condition, path);
+        }
+    }
+
+    /**
+     * Counts a predicate and measures its value.
+     */
+    private predicate(operator: string, value: any, path: string): void {
+        this.operator(operator, path);
+        this.complexity.predicates++;
+        this.check('maxPredicates', 'TOO_MANY_PREDICATES', this.complexity.predicates, path);
+        this.complexity.score += operatorCosts[operator] ?? 1;
+
+        if (Array.isArray(value)) {
+            this.complexity.longestList = Math.max(this.complexity.longestList, value.length);
+            this.check('maxListLength', 'LIST_TOO_LONG', value.length, path);
+            // Long lists cost like a predicate every ten values
+            this.complexity.score += Math.floor(value.length / 10);
+            value.forEach((element) => this.value(operator, element, path));
+        } else {
+            this.value(operator, value, path);
+        }
+    }
+
+    /**
+     * Measures a string value, JSON documents are measured as their JSON text.
+     */
+    private value(operator: string, value: any, path: string): void {
+        const text = typeof value === 'string' ? value
+            : typeof value === 'object' && value !== null && !(value instanceof Date) ? JSON.stringify(value) : undefined;
+        if (text === undefined) {
+            return;
+        }
+
+        this.complexity.longestString = Math.max(this.complexity.longestString, text.length);
+        if (regexOperators.includes(operator)) {
+            this.check('maxRegexLength', 'PATTERN_TOO_LONG', text.length, path);
+        }
+        this.check('maxStringLength', 'STRING_TOO_LONG', text.length, path);
+    }
+
+    /**
+     * Records an operator, rejecting denied ones.
+     */
+    private operator(operator: string, path: string): void {
+        if (!this.complexity.operators.includes(operator)) {
+            this.complexity.operators.push(operator);
+        }
+        if (this.limits.deniedOperators?.includes(operator)) {
+            throw new FilterLimitError(`OPERATOR_DENIED ${operator}`, { limit: 'deniedOperators', path, operator });
+        }
+    }
+
+    /**
+     * Records the nesting depth of a filter or condition.
+     */
+    private level(depth: number, path: string): void {
+        this.complexity.depth = Math.max(this.complexity.depth, depth);
+        this.check('maxDepth', 'FILTER_TOO_DEEP', depth, path || undefined);
+    }
+
+    /**
+     * Throws when a size exceeds its limit. The value is left out of the error, it would echo oversized input back.
+     */
+    private check(limit: Exclude<keyof FilterLimits, 'deniedOperators'>, message: string, actual: number, path: string | undefined): void {
+        const max = this.limits[limit];
+        if (max !== undefined && actual > max) {
+            throw new FilterLimitError(message, { limit, max, actual, path, expected: `at most ${max}` });
+        }
+    }
+}
+
+/**
+ * Sets the limits enforced when no `limits` option is given, `undefined` removes them.
+ */
+export function setDefaultFilterLimits(limits: FilterLimits | undefined): void {
+    defaultLimits = limits;
+}
+
+/**
+ * Resolves the limits to enforce, the explicit limits or the default ones.
+ */
+export function resolveFilterLimits(explicit?: FilterLimits): FilterLimits | undefined {
+    return explicit ?? defaultLimits;
+}
+
+/**
+ * Measures a filter for logging and rate limiting.
+ *
+ * The score is a rough estimate of the cost of the filter: every predicate costs 1, `$regex` operators and `$search` 5,
+ * every `$some`/`$none`/`$every` sub query 10 and lists another 1 for every ten values.
+ *
+ * @param filter - The filter object.
+ * @returns {FilterComplexity} - The depth, predicates, longest list and string, operators used and score of the filter.
+ *
+ * Example usage:
+ * ```typescript
+ * filterComplexity({ status: ['open', 'pending'], $or: [{ title: { $regex: '^a' } }, { 'author.name': 'John' }] });
+ * // { depth: 2, predicates: 3, longestList: 2, longestString: 7, operators: ['$in', '$or', '$regex', '$equalTo'], score: 7 }
+ * ```
+ */
+export function filterComplexity(filter: any): FilterComplexity {
+    const measure = new FilterMeasure();
+    measure.filter(filter, 1, '');
+    return measure.complexity;
+}
+
+/**
+ * Checks the number of sort keys and the size of their value lists and searches against the limits.
+ *
+ * @param sort - The sort, see `normalizeSort`.
+ * @param limits - The limits to enforce.
+ * @throws {FilterLimitError} - If the sort exceeds a limit.
+ */
+export function enforceSortLimits(sort: SortSpec, limits: FilterLimits): void {
+    const keys: [string, any][] = Array.isArray(sort) ? sort.map((key, index) => [key?.field ?? `[${index}]`, key]) : Object.entries(sort ?? {});
+    if (limits.maxSortKeys !== undefined && keys.length > limits.maxSortKeys) {
+        throw new FilterLimitError('TOO_MANY_SORT_KEYS', { limit: 'maxSortKeys', max: limits.maxSortKeys, actual: keys.length, expected: `at most ${limits.maxSortKeys}` });
+    }
+
+    // Value lists and searches of sort keys are no predicates
+    const measure = new FilterMeasure({ maxListLength: limits.maxListLength, maxStringLength: limits.maxStringLength, deniedOperators: limits.deniedOperators });
+    keys.forEach(([field, key]) => {
+        if (typeof key === 'object' && key !== null) {
+            if (Array.isArray(key.values)) {
+                measure.condition(key.values, 1, field);
+            }
+            if (key.search !== undefined) {
+                measure.condition({ $search: key.search }, 1, field);
+            }
+        }
+    });
+}
+
+/**
+ * Checks a client-supplied filter against complexity limits before anything else is done with it.
+ *
+ * Every level of `$and`/`$or`/`$nor`/`$not`, field-level logic and relation quantifiers nests the filter one level
+ * deeper, the filter itself is level 1. Every operator of a condition is a predicate, bare values and arrays included.
+ * Lists are the values of `$in`, `$notIn` and every other operator taking an array, strings include the elements of lists
+ * and JSON documents as their JSON text, patterns are the values of the `$regex` operators.
+ *
+ * @param filter - The filter object.
+ * @param limits - The limits to enforce, limits not set are not checked.
+ * @returns {FilterComplexity} - The measures of the filter, see `filterComplexity`.
+ * @throws {FilterLimitError} - At the first limit the filter exceeds, with the filter path, the limit, its maximum and the size reached.
+ *
+ * Example usage:
+ * ```typescript
+ * enforceFilterLimits({ id: { $in: ids } }, { maxListLength: 500, maxDepth: 5, deniedOperators: ['$regex'] });
+ * // throws FilterLimitError: LIST_TOO_LONG at id.$in, { limit: 'maxListLength', max: 500, actual: 5000 }
+ * ```
+ */
+function enforceFilterLimits(filter: any, limits: FilterLimits): FilterComplexity {
+    const measure = new FilterMeasure(limits);
+    measure.filter(filter, 1, '');
+    return measure.complexity;
+}
+
+export default enforceFilterLimits;
@@ -0,0 +1,260 @@
+import { EntityMetadata, EntityTarget, QueryBuilder, WhereExpressionBuilder } from 'typeorm';
+import { WhereClause } from 'typeorm/query-builder/WhereClause';
+import resolveDialect from './resolve-dialect';
+import resolveFieldPath, { rootQueryBuilder } from './resolve-field-path';
+import { compileConditions, groupClauses } from './qb-apply-where-conditions';
+import compileContextFor from './compile-context';
+import entityKey, { aliasMetadataLookup } from './entity-metadata';
+
+interface RegisteredScope {
+    name: string;
+    scope: FilterScope;
+    // The entity target the scope is matched by, see `entityKey`
+    key?: EntityTarget<any>;
+}
+
+interface ScopeState {
+    // The where clause holding every scope applied to the query, always kept last
+    clause: WhereClause;
+    conditions: string[];
+    // `alias:name` of every scope applied or disabled
+    handled: Set<string>;
+}
+
+const scopeStates = new WeakMap<object, ScopeState>();
+
+/**
+ * A set of filter scopes, filters applied to every query of an entity or alias such as tenancy or soft delete.
+ */
+export class ScopeRegistry {
+    private readonly scopes: RegisteredScope[] = [];
+    private contextProvider: (() => ScopeContext) | undefined;
+    private auditListener: ((event: ScopeAuditEvent) => void) | undefined;
+
+    /**
+     * Registers a scope, replacing a scope of the same name for the same entity or alias.
+     * Scopes of the same name for other entities are kept, so one `tenant` scope can be registered per entity.
+     *
+     * @param name - The scope name, disables the scope in `disableScopes`.
+     * @param scope - The entity or alias the scope applies to and its filter, or a function building the filter from the scope context.
+     * @returns {this} - The registry, for chaining.
+     * @throws Error if the name is invalid, the scope has no filter or not exactly one of `entity` and `alias`.
+     */
+    registerScope(name: string, scope: FilterScope): this {
+        if (typeof name !== 'string' || !/^\w+$/.test(name)) {
+            throw new Error(`INVALID_SCOPE_NAME ${String(name)}`);
+        }
+        if ((scope?.entity === undefined) === (scope?.alias === undefined)) {
+            throw new Error(`SCOPE_MUST_HAVE_AN_ENTITY_OR_AN_ALIAS ${name}`);
+        }
+        if (typeof scope.filter !== 'function' && (typeof scope.filter !== 'object' || scope.filter === null || Array.isArray(scope.filter))) {
+            throw new Error(`SCOPE_MUST_HAVE_A_FILTER ${name}`);
+        }
+
+        const key = scope.entity === undefined ? undefined : entityKey(scope.entity);
+        const index = this.scopes.findIndex((registered) => registered.name === name && registered.key === key && registered.scope.alias === scope.alias);
+        if (index === -1) {
+            this.scopes.push({ name, scope, key });
+        } else {
+            this.scopes[index] = { name, scope, key };
+        }
+        return this;
+    }
+
+    /**
+     * Removes every scope of a name.
+     */
+    unregisterScope(name: string): boolean {
+        const count = this.scopes.length;
+        this.scopes.splice(0, count, ...this.scopes.filter((registered) => registered.name !== name));
+        return this.scopes.length !== count;
+    }
+
+    hasScope(name: string): boolean {
+        return this.scopes.some((registered) => registered.name === name);
+    }
+
+    /**
+     * Returns the names of all registered scopes.
+     */
+    scopeNames(): string[] {
+        return [...new Set(this.scopes.map((registered) => registered.name))];
+    }
+
+    /**
+     * Sets the function returning the scope context of the current request, e.g. read from an `AsyncLocalStorage`.
+     * The `scopeContext` option takes precedence over it.
+     */
+    setContextProvider(provider: (() => ScopeContext) | undefined): this {
+        this.contextProvider = provider;
+        return this;
+    }
+
+    /**
+     * Sets the function notified of every scope disabled for a query, the audit trail of `disableScopes`.
+     */
+    setAuditListener(listener: ((event: ScopeAuditEvent) => void) | undefined): this {
+        this.auditListener = listener;
+        return this;
+    }
+
+    /**
+     * Returns the scope context, the explicit one or the one of the context provider.
+     */
+    resolveContext(explicit?: ScopeContext): ScopeContext {
+        return explicit ?? this.contextProvider?.() ?? {};
+    }
+
+    /**
+     * Returns the scopes of an alias, registered for the alias itself or for the entity bound to it.
+     */
+    scopesFor(alias: string, metadata: EntityMetadata | undefined): { name: string; scope: FilterScope }[] {
+        return this.scopes
+            .filter(({ scope, key }) => scope.alias === alias || (metadata !== undefined && key !== undefined && (key === metadata.target || key === metadata.name)))
+            .map(({ name, scope }) => ({ name, scope }));
+    }
+
+    /**
+     * Reports a disabled scope to the audit listener.
+     */
+    audit(event: ScopeAuditEvent): void {
+        this.auditListener?.(event);
+    }
+}
+
+/**
+ * The registry used when no `scopes` option is given.
+ */
+export const defaultScopeRegistry = new ScopeRegistry();
+
+/**
+ * Creates an empty scope registry, e.g. for a data source whose queries are scoped differently.
+ *
+ * @returns {ScopeRegistry} - A new registry.
+ */
+export function createScopeRegistry(): ScopeRegistry {
+    return new ScopeRegistry();
+}
+
+/**
+ * Returns the scopes of `disableScopes` to skip, checking that a reason is given and every name is registered.
+ */
+function disabledScopes(registry: ScopeRegistry, disable: DisableScopes | undefined): string[] | 'all' {
+    if (disable === undefined) {
+        return [];
+    }
+    if (typeof disable.reason !== 'string' || disable.reason.trim() === '') {
+        throw new Error('DISABLE_SCOPES_MUST_HAVE_A_REASON');
+    }
+    if (disable.names === 'all') {
+        return 'all';
+    }
+
+    // A misspelled name would silently keep the scope, which is safe but never what was meant
+    const unknown = disable.names.find((name) => !registry.hasScope(name));
+    if (unknown !== undefined) {
+        throw new Error(`UNKNOWN_FILTER_SCOPE ${unknown}`);
+    }
+    return disable.names;
+}
+
+/**
+ * Applies the scopes of an alias to a TypeORM Query Builder, the apply helpers call it after adding their conditions.
+ *
+ * Every scope is applied once per query. The scopes are kept in their own group, `AND`-ed with every other condition
+ * of the query and always last: when the other conditions are combined with `OR` they are wrapped in brackets first,
+ * so `(user conditions) AND (scopes)` holds however the user conditions are combined. Conditions added with TypeORM's
+ * own `orWhere` after the last helper are not covered, call `applyScopesQB` again after them.
+ *
+ * Scopes are applied to queries and sub queries, not to `Brackets`: they belong to the query the brackets are part of.
+ * Filters of `$some`, `$none` and `$every` and joined relations are not scoped.
+ *
+ * @param qb - The query builder.
+ * @param alias - The alias whose scopes are applied.
+ * @param options - `scopes` is the registry, defaults to the default registry, `scopeContext` overrides its context provider,
+ *   `disableScopes` skips scopes by name with a reason reported to the audit listener,
+ *   `dialect`, `operators`, `clock` and `timezone` compile the scope filters.
+ * @throws Error if `disableScopes` has no reason or names an unknown scope.
+ * @throws {FilterError} - If a scope filter cannot be parsed, with the path `$scopes.<name>`.
+ *
+ * Example usage:
+ * ```typescript
+ * registerFilterScope('tenant', { entity: Post, filter: (context) => ({ tenantId: context.tenantId }) });
+ * const qb = postRepository.createQueryBuilder('post');
+ * applyWhereConditionsQB(qb, 'andWhere', { $or: [{ status: 'open' }, { pinned: true }] }, 'post', { scopeContext: { tenantId: 7 } });
+ * // WHERE (post.status = :p0 OR post.pinned = :p1) AND (post.tenantId = :p2)
+ * ```
+ */
+export function applyScopesQB(qb: WhereExpressionBuilder, alias: string, options: ScopeOptions & ConditionOptions = {}): void {
+    // Scopes belong to the query builder owning the where clauses, not to the `Brackets` nested in it
+    if (!(qb instanceof QueryBuilder) || rootQueryBuilder(qb) !== qb) {
+        return;
+    }
+    const expressionMap = qb.expressionMap;
+
+    const registry = options.scopes ?? defaultScopeRegistry;
+    const disabled = disabledScopes(registry, options.disableScopes);
+    const metadata = aliasMetadataLookup(qb)(alias);
+
+    let state = scopeStates.get(expressionMap);
+    const pending = registry.scopesFor(alias, metadata).filter(({ name }) => !state?.handled.has(`${alias}:${name}`));
+    if (pending.length > 0) {
+        state ??= { clause: { type: 'and', condition: '' }, conditions: [], handled: new Set() };
+        scopeStates.set(expressionMap, state);
+
+        const context = registry.resolveContext(options.scopeContext);
+        const now = options.clock ? options.clock() : new Date();
+        const conditionOptions = {
+            dialect: resolveDialect(qb, options.dialect), operators: options.operators, clock: () => now, timezone: options.timezone ?? 'UTC', context: compileContextFor(qb),
+        };
+
+        for (const { name, scope } of pending) {
+            if (disabled === 'all' || disabled.includes(name)) {
+                state.handled.add(`${alias}:${name}`);
+                registry.audit({ scope: name, alias, entity: metadata?.name, reason: options.disableScopes!.reason, context });
+                continue;
+            }
+
+            const filter = typeof scope.filter === 'function' ? scope.filter(context) : scope.filter;
+            const compiled = { fields: [], constants: {}, parameters: {} };
+            const clauses = compileConditions(qb, filter, (field) => resolveFieldPath(qb, alias, field), conditionOptions, `$scopes.${name}`, compiled, undefined);
+            qb.setParameters(compiled.parameters);
+            state.conditions.push(...clauses);
+            // Only a compiled scope is handled, a scope that throws is applied again by the next apply
+            state.handled.add(`${alias}:${name}`);
+        }
+    }
+
+    if (!state || state.conditions.length === 0) {
+        return;
+    }
+
+    // Keep the scopes last, bracketing the other conditions when an OR could otherwise bypass them
+    const others: WhereClause[] = expressionMap.wheres.filter((where: WhereClause) => where !== state!.clause);
+    state.clause.condition = groupClauses(qb, state.conditions, 'AND', false);
+    expressionMap.wheres = others.some((where, index) => index > 0 && where.type === 'or')
+        ? [{ type: 'simple', condition: others }, state.clause]
+        : [...others, state.clause];
+}
+
+/**
+ * Registers a filter scope on the default registry, applied by every helper that is not given its own `scopes` registry.
+ *
+ * @param name - The scope name, e.g. `tenant` or `notDeleted`.
+ * @param scope - `entity` or `alias` selects the queries the scope applies to, `filter` is the filter or a function
+ *   building it from the scope context.
+ * @returns {ScopeRegistry} - The default registry.
+ * @throws Error if the name is invalid, the scope has no filter or not exactly one of `entity` and `alias`.
+ *
+ * Example usage:
+ * ```typescript
+ * registerFilterScope('tenant', { entity: Post, filter: (context) => ({ tenantId: context.tenantId }) });
+ * registerFilterScope('notDeleted', { entity: Post, filter: { deletedAt: '$isNull' } });
+ * defaultScopeRegistry.setContextProvider(() => requestContext.getStore());
+ * ```
+ */
+function registerFilterScope(name: string, scope: FilterScope): ScopeRegistry {
+    return defaultScopeRegistry.registerScope(name, scope);
+}
+
+export default registerFilterScope;
@@ -0,0 +1,221 @@
+/**
+ * Compile-time types of filters and sorts for a known entity type.
+ *
+ * They only exist for the type checker: every helper accepts the same plain objects at runtime, and resolves
+ * to loosely-typed filters (`Record<string, any>`) when the entity type is unknown (`any` or `ObjectLiteral`).
+ */
+
+// Values compared as a whole, everything else is a relation or a JSON object
+type Scalar = string | number | boolean | bigint | Date;
+
+// Dotted paths are followed this many relations deep, entities referencing each other would recurse forever
+type Depth = [never, 0, 1, 2, 3];
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Entity types whose properties are not known, e.g. `any` or `ObjectLiteral`
+type IsLoose<T> = IsAny<T> extends true ? true : string extends keyof T ? true : false;
+
+// Properties that can be filtered, methods cannot
+type PropertyKeys<T> = { [K in keyof T & string]: NonNullable<T[K]> extends (...args: any[]) => any ? never : K }[keyof T & string];
+
+// The entity a to-many relation joins, other values are kept
+type Unwrap<V> = V extends readonly (infer E)[] ? (NonNullable<E> extends Scalar ? V : NonNullable<E>) : V;
+
+/**
+ * The properties of an entity and the dotted paths into its relations, e.g. `'name' | 'author.name'`.
+ */
+export type FilterPath<T, D extends number = 3> = [D] extends [never] ? never : {
+    [K in PropertyKeys<T>]: Unwrap<NonNullable<T[K]>> extends infer V
+        ? V extends Scalar | readonly any[] ? K : K | `${K}.${FilterPath<V, Depth[D]>}`
+        : never;
+}[PropertyKeys<T>];
+
+/**
+ * The type of the property a path of `FilterPath<T>` leads to.
+ */
+export type PathValue<T, P extends string> = P extends keyof T
+    ? T[P]
+    : P extends `${infer K}.${infer Rest}`
+        ? K extends keyof T ? PathValue<Unwrap<NonNullable<T[K]>>, Rest> : never
+        : never;
+
+/**
+ * A field extracting a value from a JSON property, e.g. `'meta->limits->seats'` or `'meta->price::numeric'`.
+ */
+export type JsonPathField<T> = `${{ [P in FilterPath<T>]: NonNullable<PathValue<T, P>> extends Scalar ? never : P }[FilterPath<T>]}->${string}`;
+
+/**
+ * A date value of the date operators: a `Date`, a relative date (`now-7d`, `startOf:month`) or a date string.
+ */
+export type DateValue = Date | string;
+
+/**
+ * A `$dateEquals`/`$dateBetween` granularity.
+ */
+export type DateGranularity = CalendarUnit;
+
+/**
+ * A length compared by `$arrayLength`.
+ */
+export type LengthCondition = number | { $equalTo?: number; $notEqualTo?: number; $gt?: number; $gte?: number; $lt?: number; $lte?: number };
+
+/**
+ * Operators of every property type.
+ */
+interface EqualityOperators<V> {
+    $equalTo?: V;
+    $notEqualTo?: V;
+}
+
+/**
+ * Operators of string, number and date properties.
+ */
+interface ListOperators<V> {
+    $in?: V[];
+    $notIn?: V[];
+}
+
+/**
+ * Operators of ordered properties: numbers, dates and strings.
+ */
+interface RangeOperators<V> {
+    $gt?: V;
+    $gte?: V;
+    $lt?: V;
+    $lte?: V;
+    $between?: [V, V];
+    $notBetween?: [V, V];
+}
+
+/**
+ * Operators of string properties.
+ */
+interface StringOperators {
+    $contains?: string;
+    $notContains?: string;
+    $iContains?: string;
+    $notIContains?: string;
+    $startsWith?: string;
+    $notStartsWith?: string;
+    $endsWith?: string;
+    $notEndsWith?: string;
+    $regex?: string;
+    $notRegex?: string;
+    $regexi?: string;
+    $notRegexi?: string;
+    $search?: string | SearchOptions;
+}
+
+/**
+ * Operators of date properties.
+ */
+interface DateOperators {
+    $dateEquals?: DateValue | { date: DateValue; granularity?: DateGranularity };
+    $dateBetween?: [DateValue, DateValue] | { from: DateValue; to: DateValue; granularity?: DateGranularity };
+}
+
+/**
+ * Operators of array columns.
+ */
+interface ArrayOperators<E> {
+    $arrayContains?: E[];
+    $arrayContainedBy?: E[];
+    $arrayOverlap?: E[];
+    $arrayLength?: LengthCondition;
+    $anyEquals?: E;
+}
+
+/**
+ * Operators of JSON properties.
+ */
+interface JsonOperators<V> {
+    $jsonContains?: Partial<V> | Record<string, any>;
+    $jsonContained?: Partial<V> | Record<string, any>;
+    $jsonEquals?: V;
+    $jsonHasKey?: (keyof V & string) | string;
+}
+
+/**
+ * Quantifiers of a relation, filtering by its related entities, e.g. `{ posts: { $some: { status: 'published' } } }`.
+ */
+interface RelationQuantifiers<E> {
+    $some?: Filter<E>;
+    $none?: Filter<E>;
+    $every?: Filter<E>;
+}
+
+/**
+ * Logical operators inside a field condition, e.g. `{ $or: [{ $lt: 18 }, { $gt: 65 }] }`.
+ */
+interface ConditionLogic<V> {
+    $and?: Condition<V>[];
+    $or?: Condition<V>[];
+    $nor?: Condition<V>[];
+    $not?: Condition<V>;
+}
+
+/**
+ * The operators a property of type `V` accepts.
+ */
+export type ConditionOperators<V> = [NonNullable<V>] extends [infer N]
+    ? N extends string ? EqualityOperators<N> & ListOperators<N> & RangeOperators<N> & StringOperators
+    : N extends number | bigint ? EqualityOperators<N> & ListOperators<N> & RangeOperators<N>
+    : N extends Date ? EqualityOperators<DateValue> & ListOperators<DateValue> & RangeOperators<DateValue> & DateOperators
+    : N extends boolean ? EqualityOperators<N>
+    : N extends readonly (infer E)[] ? (NonNullable<E> extends Scalar ? ArrayOperators<E> : RelationQuantifiers<NonNullable<E>>)
+    : JsonOperators<N> & RelationQuantifiers<N>
+    : never;
+
+// Values compared with `$equalTo` without an operator, and lists compared with `$in`
+type BareCondition<V> =
+    NonNullable<V> extends Date ? DateValue | DateValue[]
+    : NonNullable<V> extends string | number ? NonNullable<V> | NonNullable<V>[]
+    : NonNullable<V> extends boolean ? NonNullable<V>
+    : never;
+
+/**
+ * A condition on a property of type `V`: a value, a list of values, `'$isNull'`/`'$isNotNull'` or an object of operators.
+ */
+export type Condition<V = any> = IsAny<V> extends true
+    ? any
+    : BareCondition<V> | '$isNull' | '$isNotNull' | (ConditionOperators<V> & ConditionLogic<V>);
+
+/**
+ * Logical operators combining filters.
+ */
+interface FilterLogic<T, V extends string> {
+    $and?: Filter<T, V>[];
+    $or?: Filter<T, V>[];
+    $nor?: Filter<T, V>[];
+    $not?: Filter<T, V>;
+}
+
+/**
+ * A filter on an entity: conditions on its properties and relation paths, combined with `$and`/`$or`/`$nor`/`$not`.
+ * `V` names the virtual fields that can be filtered on as well.
+ *
+ * Example usage:
+ * ```typescript
+ * const filter: Filter<User> = { name: { $startsWith: 'Jo' }, 'company.name': 'Acme', $or: [{ age: { $gte: 18 } }, { role: 'admin' }] };
+ * ```
+ */
+export type Filter<T, V extends string = never> = IsLoose<T> extends true
+    ? Record<string, any>
+    : { [P in FilterPath<T>]?: Condition<PathValue<T, P>> } & { [P in JsonPathField<T> | V]?: Condition } & FilterLogic<T, V>;
+
+// Paths a sort can order by: scalar properties, of the entity or its relations
+type SortPath<T> = { [P in FilterPath<T>]: NonNullable<PathValue<T, P>> extends Scalar ? P : never }[FilterPath<T>];
+
+/**
+ * A sort of an entity: an object of property paths and sort orders (or key options), or an ordered list of sort keys.
+ * `E` names the computed sort expressions and virtual fields that can be sorted by as well.
+ *
+ * Example usage:
+ * ```typescript
+ * const sort: Sort<User> = [{ field: 'company.name', nulls: 'last' }, { field: 'createdAt', order: 'desc' }];
+ * ```
+ */
+export type Sort<T, E extends string = never> = IsLoose<T> extends true
+    ? SortSpec
+    : { [P in SortPath<T> | JsonPathField<T> | E]?: SortOrder | SortKeyOptions } | (SortKeyOptions & { field: SortPath<T> | JsonPathField<T> | E })[];
@@ -1,5 +1,26 @@
 export { default as parseCondition } from './parse-condition';
-export { default as applySortOrderQB } from './qb-apply-sort-order';
+export { default as applySortOrderQB, registerSortExpression, normalizeSort } from './qb-apply-sort-order';
 export { default as applyWhereConditionsQB } from './qb-apply-where-conditions';
 export { default as applyWhereConditionQB } from './qb-apply-where-condition';
 export { default as applyFiltersQB } from './qb-apply-filters';
+export { default as resolveDialect } from './resolve-dialect';
+export { default as buildFindWhere } from './build-find-where';
+export { default as compileFilterToPredicate, matchesFilter } from './match-filter';
+export { default as parseQueryString, QueryStringParseError } from './parse-query-string';
+export { default as validateFilter, validateCondition } from './validate-filter';
+export { default as enforceFilterPolicy, enforceSortPolicy, enforceSelectPolicy, registerFilterPolicy, FilterPolicyError } from './enforce-filter-policy';
+export { default as resolveFieldPath, ensureJoin } from './resolve-field-path';
+export { default as enforceFilterLimits, filterComplexity, enforceSortLimits, setDefaultFilterLimits, FilterLimitError } from './filter-limits';
+export { default as registerVirtualField, expandVirtualFields } from './virtual-fields';
+export { default as parseJsonPath, jsonPathExpression } from './json-path';
+export { default as paginateQB } from './qb-paginate';
+export { default as applySelectQB } from './qb-apply-select';
+export { default as aggregateQB, applyAggregateQB } from './qb-aggregate';
+export { default as resolveRelativeDate, calendarRange, isRelativeDate } from './relative-date';
+export { default as createFilterCache, FilterCache } from './filter-cache';
+export { default as compileContextFor, CompileContext } from './compile-context';
+export { default as registerFilterScope, applyScopesQB, createScopeRegistry, defaultScopeRegistry, ScopeRegistry } from './filter-scopes';
+export { default as registerOperator, createOperatorRegistry, defaultOperatorRegistry, OperatorRegistry } from './operator-registry';
+export { FilterError, FilterValidationError, UnknownOperatorError, UnsupportedDialectError, FilterAggregateError } from './filter-errors';
+export type { Filter, Condition, ConditionOperators, Sort, FilterPath, PathValue, DateValue, JsonPathField } from './filter-types';
+export type { JsonPath, JsonPathCast } from './json-path';
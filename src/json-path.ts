@@ -0,0 +1,191 @@
+import { FilterValidationError } from './filter-errors';
+import { isRelativeDate } from './relative-date';
+
+/**
+ * The type a value extracted from a JSON document is compared and sorted as, `json` keeps it a JSON document.
+ */
+export type JsonPathCast = 'text' | 'numeric' | 'boolean' | 'timestamp' | 'json';
+
+/**
+ * A field extracting a value from a JSON column, e.g. `metadata->price::numeric`.
+ */
+export interface JsonPath {
+    /** The JSON column, a field or dotted relation path. */
+    column: string;
+    /** Object keys and array indexes leading to the value. */
+    segments: (string | number)[];
+    /** The explicit cast, inferred from the condition when missing. */
+    cast?: JsonPathCast;
+}
+
+const jsonPathCasts: JsonPathCast[] = ['text', 'numeric', 'boolean', 'timestamp', 'json'];
+
+// Operators comparing JSON documents, the value they compare is extracted as JSON
+const jsonOperators = ['$jsonContains', '$jsonContained', '$jsonEquals', '$jsonHasKey'];
+
+// Operators matching calendar units, the value they compare is a timestamp
+const dateOperators = ['$dateEquals', '$dateBetween'];
+
+/**
+ * Quotes JSON object keys and array indexes as a JSON path (`$."key"[0]`) understood by MySQL, SQLite and SQL Server.
+ */
+export function jsonKeyPath(keys: (string | number)[]): string {
+    return '$' + keys.map((key) => typeof key === 'number' ? `[${key}]` : `."${key.replace(/(["\\])/g, '\\$1')}"`).join('');
+}
+
+/**
+ * Parses a field extracting a value from a JSON column: the column, `->` before every key or array index
+ * and an optional `::text`, `::numeric`, `::boolean`, `::timestamp` or `::json` cast.
+ *
+ * @param field - The filter or sort field, e.g. `settings->notifications->email` or `metadata->sizes->0::numeric`.
+ * @returns {JsonPath | undefined} - The JSON path, `undefined` for fields without `->`.
+ * @throws {FilterValidationError} - If a segment is empty or the cast is unknown.
+ */
+function parseJsonPath(field: string): JsonPath | undefined {
+    if (!field.includes('->')) {
+        return undefined;
+    }
+
+    const [column, ...keys] = field.split('->');
+    let cast: JsonPathCast | undefined;
+    const castIndex = keys[keys.length - 1].lastIndexOf('::');
+    if (castIndex !== -1) {
+        const name = keys[keys.length - 1].slice(castIndex + 2);
+        if (!jsonPathCasts.includes(name as JsonPathCast)) {
+            throw new FilterValidationError(`INVALID_JSON_PATH_CAST ${name}`, { code: 'INVALID_JSON_PATH', value: field, expected: jsonPathCasts.join(', ') });
+        }
+        cast = name as JsonPathCast;
+        keys[keys.length - 1] = keys[keys.length - 1].slice(0, castIndex);
+    }
+
+    if (column.trim() === '' || keys.some((key) => key === '')) {
+        throw new FilterValidationError(`INVALID_JSON_PATH ${field}`, { code: 'INVALID_JSON_PATH', value: field, expected: 'column->key->...' });
+    }
+
+    // Whole numbers index arrays, every other segment is an object key
+    return { column, segments: keys.map((key) => /^\d+$/.test(key) ? Number(key) : key), cast };
+}
+
+/**
+ * Infers the cast of an extracted value from the condition it is compared with: numbers compare as `numeric`,
+ * booleans as `boolean`, dates, relative dates and the calendar date operators as `timestamp`,
+ * the JSON operators as `json` and everything else as `text`.
+ */
+export function jsonPathCast(condition: any): JsonPathCast {
+    if (Array.isArray(condition)) {
+        return condition.length > 0 ? jsonPathCast(condition[0]) : 'text';
+    }
+    if (typeof condition === 'number' || typeof condition === 'bigint') {
+        return 'numeric';
+    }
+    if (typeof condition === 'boolean') {
+        return 'boolean';
+    }
+    if (condition instanceof Date || isRelativeDate(condition)) {
+        return 'timestamp';
+    }
+    if (typeof condition === 'object' && condition !== null) {
+        for (const [operator, value] of Object.entries(condition)) {
+            if (jsonOperators.includes(operator)) {
+                return 'json';
+            }
+            if (dateOperators.includes(operator)) {
+                return 'timestamp';
+            }
+            // Operator values and the conditions of field-level logic
+            const cast = jsonPathCast(value);
+            if (cast !== 'text') {
+                return cast;
+            }
+        }
+    }
+    return 'text';
+}
+
+/**
+ * Builds the dialect specific SQL extracting a value from a JSON column and casting it.
+ *
+ * The path is bound as a parameter (a `text[]` on PostgreSQL, a JSON path string elsewhere), so keys never end up
+ * in the SQL text. SQL Server accepts a parameter as path from SQL Server 2017 on.
+ *
+ * @param column - The column expression, e.g. `product.metadata`.
+ * @param segments - Object keys and array indexes leading to the value.
+ * @param cast - The type the value is cast to.
+ * @param param - The parameter name of the path.
+ * @param dialect - The dialect to generate SQL for.
+ * @returns The SQL expression and the parameter of the path.
+ */
+export function jsonPathExpression(column: string, segments: (string | number)[], cast: JsonPathCast, param: string, dialect: SqlDialect): { query: string; parameters: Record<string, any> } {
+    if (dialect === 'postgres') {
+        const text = `${column} #>> :${param}`;
+        const casts: Record<JsonPathCast, string> = {
+            json: `${column} #> :${param}`,
+            text: `(${text})`,
+            numeric: `CAST(${text} AS numeric)`,
+            boolean: `CAST(${text} AS boolean)`,
+            timestamp: `CAST(${text} AS timestamptz)`,
+        };
+        return { query: casts[cast], parameters: { [param]: segments.map(String) } };
+    }
+
+    const path = { [param]: jsonKeyPath(segments) };
+    switch (dialect) {
+        case 'mysql': {
+            const text = `JSON_UNQUOTE(JSON_EXTRACT(${column}, :${param}))`;
+            const casts: Record<JsonPathCast, string> = {
+                json: `JSON_EXTRACT(${column}, :${param})`,
+                text,
+                numeric: `CAST(${text} AS DECIMAL(65, 30))`,
+                boolean: `(${text} = 'true')`,
+                timestamp: `CAST(${text} AS DATETIME(6))`,
+            };
+            return { query: casts[cast], parameters: path };
+        }
+        case 'sqlite': {
+            // json_extract returns SQL values, JSON booleans as 1 and 0 like bound booleans
+            const value = `json_extract(${column}, :${param})`;
+            const casts: Record<JsonPathCast, string> = {
+                json: value,
+                text: `CAST(${value} AS TEXT)`,
+                numeric: `CAST(${value} AS NUMERIC)`,
+                boolean: value,
+                timestamp: `strftime('%Y-%m-%d %H:%M:%f', ${value})`,
+            };
+            return { query: casts[cast], parameters: path };
+        }
+        default: {
+            const text = `JSON_VALUE(${column}, :${param})`;
+            const casts: Record<JsonPathCast, string> = {
+                json: `JSON_QUERY(${column}, :${param})`,
+                text,
+                numeric: `CAST(${text} AS DECIMAL(38, 10))`,
+                boolean: `CASE ${text} WHEN 'true' THEN 1 WHEN 'false' THEN 0 END`,
+                timestamp: `CAST(${text} AS DATETIMEOFFSET)`,
+            };
+            return { query: casts[cast], parameters: path };
+        }
+    }
+}
+
+/**
+ * Extracts a value from a JSON document in memory and casts it like `jsonPathExpression` does.
+ */
+export function extractJsonPath(document: any, segments: (string | number)[], cast: JsonPathCast): any {
+    const value = segments.reduce((node, key) => node === null || node === undefined || typeof node !== 'object' ? undefined : node[key], document);
+    if (value === null || value === undefined || cast === 'json') {
+        return value;
+    }
+
+    switch (cast) {
+        case 'numeric':
+            return typeof value === 'number' ? value : Number(value);
+        case 'boolean':
+            return typeof value === 'boolean' ? value : value === 'true' ? true : value === 'false' ? false : undefined;
+        case 'timestamp':
+            return new Date(value);
+        default:
+            return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+}
+
+export default parseJsonPath;
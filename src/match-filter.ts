@@ -0,0 +1,326 @@
+import resolveDialect from './resolve-dialect';
+import { checkOperator } from './parse-condition';
+import { defaultOperatorRegistry, OperatorRegistry } from './operator-registry';
+import { assertTimeZone } from './relative-date';
+import { Filter } from './filter-types';
+import { isRelationFilter } from './relation-filter';
+import parseJsonPath, { extractJsonPath, jsonPathCast } from './json-path';
+import { parseJsonValue } from './compare-values';
+import { FilterValidationError, UnknownOperatorError, UnsupportedDialectError, withFilterPath } from './filter-errors';
+
+// SQL's three-valued logic, `null` is UNKNOWN: a comparison with NULL, which never matches, not even negated
+type Truth = boolean | null;
+
+// A row of field values by filter path, one per combination of joined to-many relation entities
+type Row = Record<string, any>;
+
+/**
+ * The filter paths below an object, `leaf` if the path itself is compared.
+ */
+interface PathTree {
+    leaf: boolean;
+    children: Map<string, PathTree>;
+}
+
+/**
+ * What conditions are compiled with.
+ */
+interface MatchSettings {
+    dialect: SqlDialect;
+    operators: OperatorRegistry;
+    now: Date;
+    timezone: string;
+    paths: PathTree;
+}
+
+const not = (truth: Truth): Truth => truth === null ? null : !truth;
+
+/**
+ * Combines conditions with AND: false wins over UNKNOWN, which wins over true.
+ */
+function every<T>(tests: ((input: T) => Truth)[], input: T): Truth {
+    let result: Truth = true;
+    for (const test of tests) {
+        const truth = test(input);
+        if (truth === false) {
+            return false;
+        }
+        if (truth === null) {
+            result = null;
+        }
+    }
+    return result;
+}
+
+/**
+ * Combines conditions with OR: true wins over UNKNOWN, which wins over false.
+ */
+function some<T>(tests: ((input: T) => Truth)[], input: T): Truth {
+    let result: Truth = false;
+    for (const test of tests) {
+        const truth = test(input);
+        if (truth === true) {
+            return true;
+        }
+        if (truth === null) {
+            result = null;
+        }
+    }
+    return result;
+}
+
+/**
+ * Compiles a field condition into a test of the field value, with the same checks and errors as `parseCondition`.
+ */
+function compileCondition(field: string, condition: any, settings: MatchSettings): (value: any) => Truth {
+    if (condition === undefined || condition === null) {
+        throw new FilterValidationError('CONDITION_CANNOT_BE_UNDEFINED_OR_NULL', { code: 'INVALID_CONDITION', value: condition });
+    }
+
+    const operatorTest = (operator: string, value: any): (value: any) => Truth => {
+        const definition = settings.operators.getOperator(operator);
+        if (!definition) {
+            throw new UnknownOperatorError(operator);
+        }
+
+        const { dialect, now, timezone } = settings;
+        const context: OperatorContext = { operator, fieldAlias: field, param: operator.slice(1), dialect, now, timezone };
+        checkOperator(definition, value, context);
+        if (!definition.toPredicate) {
+            throw new UnsupportedDialectError(`UNSUPPORTED_OPERATOR_IN_MEMORY ${operator}`, { code: 'UNSUPPORTED_OPERATOR_ON_DIALECT', operator });
+        }
+
+        // Every operator compares with NULL as UNKNOWN
+        const test = definition.toPredicate(value, context);
+        return (column) => column === null || column === undefined ? null : test(column);
+    };
+
+    if (typeof condition === 'object' && !Array.isArray(condition) && !(condition instanceof Date)) {
+        const entries = Object.entries(condition);
+        if (entries.length === 0) {
+            throw new FilterValidationError('CONDITION_OBJECT_MUST_HAVE_AT_LEAST_ONE_KEY', { code: 'INVALID_CONDITION', value: condition });
+        }
+
+        // Several operators on the same field must all hold
+        const tests = entries.map(([operator, value]): ((column: any) => Truth) => {
+            if (value === undefined || value === null) {
+                throw new FilterValidationError('CONDITION_VALUE_CANNOT_BE_UNDEFINED_OR_NULL', { code: 'INVALID_OPERATOR_VALUE', operator, value, expected: 'a value' });
+            }
+
+            switch (operator) {
+                case '$not': {
+                    const negated = compileCondition(field, value, settings);
+                    return (column) => not(negated(column));
+                }
+                case '$and':
+                case '$or':
+                case '$nor': {
+                    if (!Array.isArray(value) || value.length === 0) {
+                        throw new FilterValidationError(`${operator.toUpperCase()}_OPERATOR_MUST_HAVE_A_NON_EMPTY_ARRAY_OF_CONDITIONS`, {
+                            code: 'INVALID_OPERATOR_VALUE', operator, value, expected: 'non-empty array of conditions',
+                        });
+                    }
+                    const nested = value.map((nestedCondition) => compileCondition(field, nestedCondition, settings));
+                    if (operator === '$and') {
+                        return (column) => every(nested, column);
+                    }
+                    return operator === '$or' ? (column) => some(nested, column) : (column) => not(some(nested, column));
+                }
+                default:
+                    return operatorTest(operator, value);
+            }
+        });
+        return tests.length === 1 ? tests[0] : (column) => every(tests, column);
+    }
+
+    // Lists are compared with $in, NULL checks are the only conditions that match NULL
+    if (Array.isArray(condition) && condition.every((item) => typeof item === 'string' || typeof item === 'number' || item instanceof Date)) {
+        return operatorTest('$in', condition);
+    }
+    if (condition === '$isNull') {
+        return (column) => column === null || column === undefined;
+    }
+    if (condition === '$isNotNull') {
+        return (column) => column !== null && column !== undefined;
+    }
+    if (typeof condition === 'string' || typeof condition === 'number' || typeof condition === 'boolean' || condition instanceof Date) {
+        return operatorTest('$equalTo', condition);
+    }
+    throw new FilterValidationError('INVALID_CONDITION', { code: 'INVALID_CONDITION', value: condition, expected: 'object, array, string, number, boolean or Date' });
+}
+
+/**
+ * Adds a dotted filter path to the tree of compared paths.
+ */
+function addPath(tree: PathTree, field: string): void {
+    const node = field.split('.').reduce((parent, key) => {
+        let child = parent.children.get(key);
+        if (!child) {
+            child = { leaf: false, children: new Map() };
+            parent.children.set(key, child);
+        }
+        return child;
+    }, tree);
+    node.leaf = true;
+}
+
+/**
+ * Compiles a `$some`/`$none`/`$every` quantifier into a test of the related entities, a list or a single entity.
+ * Like the `EXISTS` sub query it compiles to in SQL, it is never UNKNOWN.
+ */
+function compileQuantifier(quantifier: string, filter: any, settings: MatchSettings, path: string): (related: any) => Truth {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+        throw new FilterValidationError(`${quantifier.toUpperCase()}_OPERATOR_MUST_HAVE_A_FILTER_OBJECT`, {
+            code: 'INVALID_OPERATOR_VALUE', operator: quantifier, value: filter, expected: 'filter object',
+        });
+    }
+
+    // The related entities are matched on their own, with the paths of the nested filter
+    const nestedSettings = { ...settings, paths: { leaf: false, children: new Map() } };
+    const tests = compileFilter(filter, nestedSettings, path);
+    const matches = (entity: any) => expandRows(entity, nestedSettings.paths, '').some((row) => every(tests, row) === true);
+
+    return (related) => {
+        const entities: any[] = Array.isArray(related) ? related : related === null || related === undefined ? [] : [related];
+        if (quantifier === '$every') {
+            return entities.every(matches);
+        }
+        return quantifier === '$some' ? entities.some(matches) : !entities.some(matches);
+    };
+}
+
+/**
+ * Compiles a filter into tests of a row, groups are combined the way `applyWhereConditionsQB` brackets them.
+ */
+function compileFilter(filter: any, settings: MatchSettings, path: string): ((row: Row) => Truth)[] {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+        throw new FilterValidationError('FILTER_MUST_BE_AN_OBJECT', { code: 'INVALID_FILTER', value: filter, expected: 'filter object' });
+    }
+
+    return Object.entries(filter).map(([field, condition]): ((row: Row) => Truth) => {
+        const fieldPath = path ? `${path}.${field}` : field;
+        try {
+            if (field === '$and' || field === '$or' || field === '$nor') {
+                if (!Array.isArray(condition)) {
+                    throw new FilterValidationError(`${field.toUpperCase()}_OPERATOR_MUST_HAVE_AN_ARRAY_OF_OBJECTS`, {
+                        code: 'INVALID_LOGICAL_OPERATOR', operator: field, value: condition, expected: 'array of filters',
+                    });
+                }
+
+                // An empty group is `1=1`, like the SQL of an empty Brackets
+                const nested = condition.flatMap((nestedFilter, index) => compileFilter(nestedFilter, settings, `${fieldPath}[${index}]`));
+                if (field === '$and' || nested.length === 0) {
+                    return field === '$nor' ? (row) => not(every(nested, row)) : (row) => every(nested, row);
+                }
+                return field === '$or' ? (row) => some(nested, row) : (row) => not(some(nested, row));
+            }
+            if (field === '$not') {
+                if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+                    throw new FilterValidationError('$NOT_OPERATOR_MUST_HAVE_AN_OBJECT', {
+                        code: 'INVALID_LOGICAL_OPERATOR', operator: field, value: condition, expected: 'filter object',
+                    });
+                }
+                const nested = compileFilter(condition, settings, fieldPath);
+                return (row) => not(every(nested, row));
+            }
+
+            const jsonPath = parseJsonPath(field);
+            if (jsonPath) {
+                // Compare the value extracted from the JSON document, cast like in SQL
+                const cast = jsonPath.cast ?? jsonPathCast(condition);
+                const test = compileCondition(field, condition, settings);
+                addPath(settings.paths, jsonPath.column);
+                return (row) => test(extractJsonPath(parseJsonValue(row[jsonPath.column]), jsonPath.segments, cast));
+            }
+
+            addPath(settings.paths, field);
+            if (isRelationFilter(condition)) {
+                const quantifiers = Object.entries(condition).map(([quantifier, nestedFilter]) => compileQuantifier(quantifier, nestedFilter, settings, `${fieldPath}.${quantifier}`));
+                return (row) => every(quantifiers, row[field]);
+            }
+            const test = compileCondition(field, condition, settings);
+            return (row) => test(row[field]);
+        } catch (error) {
+            throw withFilterPath(error, fieldPath);
+        }
+    });
+}
+
+/**
+ * Expands an object into the rows a query joining its to-many relations would return: one per combination
+ * of related entities, with a single row of NULLs for an empty relation like a LEFT JOIN.
+ */
+function expandRows(value: any, tree: PathTree, prefix: string): Row[] {
+    let rows: Row[] = [{}];
+    tree.children.forEach((child, key) => {
+        const path = prefix ? `${prefix}.${key}` : key;
+        const nested = value === null || value === undefined ? undefined : value[key];
+
+        // Arrays followed by a path are to-many relations, other arrays are compared as a whole
+        const entities = child.children.size > 0 && Array.isArray(nested) ? (nested.length > 0 ? nested : [undefined]) : [nested];
+        const childRows = entities.flatMap((entity) => expandRows(entity, child, path).map((row) => child.leaf ? { [path]: nested, ...row } : row));
+        rows = rows.flatMap((row) => childRows.map((childRow) => ({ ...row, ...childRow })));
+    });
+    return rows;
+}
+
+/**
+ * Options of the in-memory evaluation with the defaults applied.
+ */
+function matchSettings(options: MatchFilterOptions): MatchSettings {
+    const timezone = options.timezone ?? 'UTC';
+    if (timezone !== 'UTC') {
+        assertTimeZone(timezone);
+    }
+
+    return {
+        dialect: resolveDialect(undefined, options.dialect),
+        operators: options.operators ?? defaultOperatorRegistry,
+        now: options.clock ? options.clock() : new Date(),
+        timezone,
+        paths: { leaf: false, children: new Map() },
+    };
+}
+
+/**
+ * Compiles a filter into a predicate of plain JavaScript objects, e.g. cached entities or change events.
+ *
+ * The predicate agrees with the rows `applyWhereConditionsQB` selects: comparisons with `null`/`undefined` never
+ * match (not even negated, only `$isNull` does), LIKE operators ignore case except on PostgreSQL, dates compare
+ * by time and dotted paths into to-many relations match when one related entity matches, like a join.
+ * `$some`, `$none` and `$every` test the related entities like their `EXISTS` sub queries.
+ * Relative dates are resolved once, when the predicate is compiled.
+ *
+ * @param filter - The filter, with the same operators as `applyWhereConditionsQB`.
+ * @param options - Optional settings, `dialect` selects whose semantics are matched (defaults to 'postgres'),
+ *   `operators` resolves the condition operators with its own registry, `clock` and `timezone` resolve relative dates.
+ * @returns {(entity: T) => boolean} - The predicate.
+ * @throws {FilterError} - If a condition is invalid, with the filter path of the condition.
+ * @throws {UnsupportedDialectError} - If an operator cannot be evaluated in memory (`$search` over other `columns`, custom operators without `toPredicate`).
+ *
+ * Example usage:
+ * ```typescript
+ * const isActiveAdult = compileFilterToPredicate<User>({ age: { $gte: 18 }, 'company.name': { $iContains: 'acme' } });
+ * const visible = cachedUsers.filter(isActiveAdult);
+ * ```
+ */
+function compileFilterToPredicate<T = any>(filter: Filter<T>, options: MatchFilterOptions = {}): (entity: T) => boolean {
+    const settings = matchSettings(options);
+    const tests = compileFilter(filter, settings, '');
+
+    return (entity) => expandRows(entity, settings.paths, '').some((row) => every(tests, row) === true);
+}
+
+/**
+ * Returns whether a plain JavaScript object matches a filter, see `compileFilterToPredicate`.
+ *
+ * Example usage:
+ * ```typescript
+ * matchesFilter({ name: 'John', age: null }, { age: { $not: { $gte: 18 } } }); // false, like `NOT (age >= 18)` on a NULL age
+ * ```
+ */
+export function matchesFilter<T = any>(entity: T, filter: Filter<T>, options: MatchFilterOptions = {}): boolean {
+    return compileFilterToPredicate(filter, options)(entity);
+}
+
+export default compileFilterToPredicate;
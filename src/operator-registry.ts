@@ -0,0 +1,113 @@
+import builtinOperators from './builtin-operators';
+
+// Logical operators combine conditions and are handled by the parser itself
+const reservedOperators = ['$and', '$or', '$nor', '$not'];
+
+/**
+ * A set of condition operators. Every registry starts with the built-in operators,
+ * so registering on one registry never changes the operators of another.
+ */
+export class OperatorRegistry {
+    private readonly operators = new Map<string, OperatorDefinition>();
+
+    constructor(operators: Record<string, OperatorDefinition> = builtinOperators) {
+        Object.entries(operators).forEach(([name, definition]) => this.operators.set(name, definition));
+    }
+
+    /**
+     * Registers an operator, replacing an operator of the same name.
+     *
+     * @param name - The operator name, starting with `$`, e.g. `$near`.
+     * @param definition - How the operator is validated and compiled.
+     * @returns {this} - The registry, for chaining.
+     * @throws Error if the name does not start with `$` or is a logical operator.
+     */
+    registerOperator(name: string, definition: OperatorDefinition): this {
+        if (typeof name !== 'string' || !/^\$\w+$/.test(name)) {
+            throw new Error(`INVALID_OPERATOR_NAME ${String(name)}`);
+        }
+        if (reservedOperators.includes(name)) {
+            throw new Error(`OPERATOR_IS_RESERVED ${name}`);
+        }
+        if (typeof definition?.toQB !== 'function') {
+            throw new Error(`OPERATOR_MUST_HAVE_A_TO_QB_FUNCTION ${name}`);
+        }
+        this.operators.set(name, definition);
+        return this;
+    }
+
+    /**
+     * Removes an operator, conditions using it fail with `INVALID_CONDITION_OPERATOR` afterwards.
+     */
+    unregisterOperator(name: string): boolean {
+        return this.operators.delete(name);
+    }
+
+    getOperator(name: string): OperatorDefinition | undefined {
+        return this.operators.get(name);
+    }
+
+    hasOperator(name: string): boolean {
+        return this.operators.has(name);
+    }
+
+    /**
+     * Returns the names of all registered operators.
+     */
+    operatorNames(): string[] {
+        return [...this.operators.keys()];
+    }
+
+    /**
+     * Returns a new registry with the same operators.
+     */
+    clone(): OperatorRegistry {
+        return new OperatorRegistry(Object.fromEntries(this.operators));
+    }
+}
+
+/**
+ * The registry used when no `operators` option is given.
+ */
+export const defaultOperatorRegistry = new OperatorRegistry();
+
+/**
+ * Creates a registry with the built-in operators, e.g. for operators only one endpoint or tenant may use.
+ *
+ * @returns {OperatorRegistry} - A new registry.
+ *
+ * Example usage:
+ * ```typescript
+ * const operators = createOperatorRegistry().registerOperator('$near', near);
+ * applyWhereConditionsQB(qb, 'andWhere', { location: { $near: [52.5, 13.4] } }, 'shop', { operators });
+ * ```
+ */
+export function createOperatorRegistry(): OperatorRegistry {
+    return new OperatorRegistry();
+}
+
+/**
+ * Registers a custom condition operator on the default registry, making it available to every helper
+ * that is not given its own `operators` registry.
+ *
+ * @param name - The operator name, starting with `$`.
+ * @param definition - `validate` checks the value, `toQB` compiles it for query builders, `toFind` for `find`
+ *                     (defaults to a `Raw` operator around `toQB`) and `dialects` restricts where it can be used.
+ * @returns {OperatorRegistry} - The default registry.
+ * @throws Error if the name does not start with `$` or is a logical operator.
+ *
+ * Example usage:
+ * ```typescript
+ * registerOperator('$divisibleBy', {
+ *     validate: (value) => Number.isInteger(value) && value > 0,
+ *     expected: 'positive integer',
+ *     toQB: (value, { fieldAlias, param }) => ({ query: `MOD(${fieldAlias}, :${param}) = 0`, parameters: { [param]: value } }),
+ * });
+ * applyWhereConditionsQB(qb, 'andWhere', { quantity: { $divisibleBy: 6 } }, 'item');
+ * ```
+ */
+function registerOperator(name: string, definition: OperatorDefinition): OperatorRegistry {
+    return defaultOperatorRegistry.registerOperator(name, definition);
+}
+
+export default registerOperator;
@@ -1,77 +1,159 @@
-import { Between, Equal, FindOperator, ILike, In, IsNull, LessThan, LessThanOrEqual, Like, MoreThan, MoreThanOrEqual, Not, Raw } from 'typeorm';
-import { v4 as uuid } from 'uuid'
+import { And, FindOperator, IsNull, Not, Or, Raw } from 'typeorm';
+import resolveDialect from './resolve-dialect';
+import { FilterValidationError, UnknownOperatorError } from './filter-errors';
+import { unsupportedOnDialect } from './builtin-operators';
+import { defaultOperatorRegistry, OperatorRegistry } from './operator-registry';
+import { assertTimeZone } from './relative-date';
+import { CompileContext } from './compile-context';
+import { Condition } from './filter-types';
 
-// Centralized operator map
-const operatorMap: Record<string, string> = {
-    $in: 'IN',
-    $notIn: 'NOT IN',
-    $gte: '>=',
-    $lte: '<=',
-    $gt: '>',
-    $lt: '<',
-    $between: 'BETWEEN',
-    $notBetween: 'NOT BETWEEN',
-    $contains: 'LIKE',
-    $notContains: 'NOT LIKE',
-    $iContains: 'ILIKE',
-    $notIContains: 'NOT ILIKE',
-    $startsWith: 'LIKE',
-    $notStartsWith: 'NOT LIKE',
-    $endsWith: 'LIKE',
-    $notEndsWith: 'NOT LIKE',
-    $regex: '~',
-    $notRegex: '!~',
-    $regexi: '~*',
-    $notRegexi: '!~*',
-    $equalTo: '=',
-    $notEqualTo: '<>',
-    $jsonContains: '@>',
-    $jsonContained: '<@',
-    $jsonEquals: '=',
-    $jsonHasKey: '?',
-};
+/**
+ * Builds the error thrown when an operator receives a value it cannot work with.
+ */
+function invalidOperatorValue(message: string, operator: string, value: any, expected: string): FilterValidationError {
+    return new FilterValidationError(message, { code: 'INVALID_OPERATOR_VALUE', operator, value, expected });
+}
+
+/**
+ * Checks an operator value with the operator definition and that the operator can be expressed on the dialect.
+ *
+ * @throws {FilterValidationError} - If the value is invalid.
+ * @throws {UnsupportedDialectError} - If the operator is not supported on the dialect.
+ */
+export function checkOperator(definition: OperatorDefinition, value: any, context: OperatorContext): void {
+    if (definition.validate && !definition.validate(value, context)) {
+        throw invalidOperatorValue(definition.message ?? `INVALID_VALUE_FOR_OPERATOR ${context.operator}`, context.operator, value, definition.expected ?? 'a valid value');
+    }
+
+    if (definition.dialects && !definition.dialects.includes(context.dialect)) {
+        throw unsupportedOnDialect(context.operator, context.dialect);
+    }
+}
+
+/**
+ * Validates an operator value and compiles it with the operator definition.
+ */
+function applyOperator(definition: OperatorDefinition, value: any, context: OperatorContext, conditionFor: "qb" | "find", compileContext: CompileContext): any {
+    checkOperator(definition, value, context);
+    compileContext.bind(definition, context);
+
+    if (conditionFor === "qb") {
+        return definition.toQB(value, context);
+    }
+
+    if (definition.toFind) {
+        return definition.toFind(value, context);
+    }
+
+    // Without a find form the query builder SQL is used as a Raw condition on the column TypeORM passes in
+    const { parameters } = definition.toQB(value, context);
+    return Raw((column) => definition.toQB(value, { ...context, fieldAlias: column }).query, parameters);
+}
+
+/**
+ * Returns a built-in operator of a registry, bare values and arrays are compiled with `$equalTo` and `$in`.
+ */
+function builtinOperator(operators: OperatorRegistry, name: string): OperatorDefinition {
+    const definition = operators.getOperator(name);
+    if (!definition) {
+        throw new UnknownOperatorError(name);
+    }
+    return definition;
+}
 
 // Function overloads for parseCondition
 
+/**
+ * Parses a condition checked against the property type `V` for TypeORM query builder ('qb') type,
+ * e.g. `parseCondition<number>({ conditionFor: 'qb', fieldAlias: 'user.age', condition: { $between: [18, 65] } })`.
+ * @param params - The same parameters as the untyped overload, `condition` must be a `Condition<V>`.
+ * @returns {FindOperatorQB} - The parsed condition object for use in query builder.
+ */
+function parseCondition<V>(params: { conditionFor: "qb", fieldAlias: string; condition: NoInfer<Condition<V>>; } & ConditionOptions): FindOperatorQB;
+
+/**
+ * Parses a condition checked against the property type `V` for TypeORM 'find' operator type.
+ * @param params - The same parameters as the untyped overload, `condition` must be a `Condition<V>`.
+ * @returns {FindOperator<V>} - The parsed condition object for use in find operation.
+ */
+function parseCondition<V>(params: { conditionFor: "find", condition: NoInfer<Condition<V>>; fieldAlias: string; } & ConditionOptions): FindOperator<V>;
+
 /**
  * Parses condition for TypeORM query builder ('qb') type. 
  * @param params - Object with parameters for the condition.
  * @param params.conditionFor - Specifies the type of condition ('qb').
  * @param params.fieldAlias - Optional alias for the field.
  * @param params.condition - The condition to apply in the query.
+ * @param params.dialect - Optional database type or dialect family to generate SQL for, defaults to 'postgres'.
+ * @param params.operators - Optional operator registry, defaults to the registry `registerOperator` adds to.
+ * @param params.clock - Optional clock relative dates are resolved against, defaults to `new Date()`.
+ * @param params.timezone - Optional IANA time zone of calendar units, defaults to 'UTC'.
+ * @param params.context - Optional compile context handing out the parameter names, defaults to a new context (`p0`, `p1`, ...).
  * @returns {FindOperatorQB} - The parsed condition object for use in query builder.
  */
-function parseCondition(params: { conditionFor: "qb", fieldAlias: string; condition: any; }): FindOperatorQB;
+function parseCondition(params: { conditionFor: "qb", fieldAlias: string; condition: any; } & ConditionOptions): FindOperatorQB;
 
 /**
  * Parses condition for TypeORM 'find' operator type.
  * @param params - Object with parameters for the condition.
  * @param params.conditionFor - Specifies the type of condition ('find').
  * @param params.condition - The condition to apply in the query.
+ * @param params.dialect - Optional database type or dialect family to generate SQL for, defaults to 'postgres'.
+ * @param params.operators - Optional operator registry, defaults to the registry `registerOperator` adds to.
+ * @param params.clock - Optional clock relative dates are resolved against, defaults to `new Date()`.
+ * @param params.timezone - Optional IANA time zone of calendar units, defaults to 'UTC'.
+ * @param params.context - Optional compile context handing out the parameter names, defaults to a new context (`p0`, `p1`, ...).
  * @returns {FindOperator<any>} - The parsed condition object for use in find operation.
  */
-function parseCondition(params: { conditionFor: "find", condition: any; fieldAlias: string; }): FindOperator<any>;
+function parseCondition(params: { conditionFor: "find", condition: any; fieldAlias: string; } & ConditionOptions): FindOperator<any>;
 
 /**
  * Parses conditions into a TypeORM-compatible format.
  * Uses Raw for complex conditions and supports both 'qb' and 'find' types.
+ * `$not`, `$and`, `$or` and `$nor` combine nested conditions of the same field,
+ * e.g. `{ $or: [{ $lt: 18 }, { $gt: 65 }] }` or `{ $not: { $startsWith: 'tmp' } }`.
+ * Several operators in one condition object are AND-combined, e.g. `{ $gte: 18, $lt: 65 }`.
  * 
  * @param params - Object with the following properties:
  *   - `fieldAlias`: Optional alias for the field (used only for 'qb' conditions).
  *   - `condition`: The condition to apply in the query.
  *   - `conditionFor`: Specifies the type of condition, either 'qb' or 'find'.
+ *   - `dialect`: Optional database type or dialect family ('postgres', 'mysql', 'sqlite', 'mssql'), defaults to 'postgres'.
+ *   - `operators`: Optional operator registry the condition operators are resolved with, see `registerOperator`.
+ *   - `clock`: Optional clock relative dates such as `now-7d` are resolved against, defaults to `new Date()`.
+ *   - `timezone`: Optional IANA time zone calendar units (`startOf:day`, `$dateEquals`) are resolved in, defaults to 'UTC'.
+ *   - `context`: Optional compile context handing out the parameter names. Share one between conditions of the same query,
+ *     a new context names the parameters `p0`, `p1`, ... from the start.
  * @returns {any} - A parsed condition, either in the form of a `FindOperatorQB` or `FindOperator<any>`.
- * @throws Error if an unsupported `conditionFor` value is provided.
+ * @throws Error if an unsupported `conditionFor` value is provided or the time zone is unknown.
+ * @throws {FilterValidationError} - If the condition or an operator value is invalid.
+ * @throws {UnknownOperatorError} - If the condition operator does not exist.
+ * @throws {UnsupportedDialectError} - If the condition operator is not supported on the dialect.
  */
-function parseCondition({ fieldAlias: a, condition, conditionFor }: { fieldAlias: string; condition: any; conditionFor: "qb" | "find" }): any {
+function parseCondition({ fieldAlias: a, condition, conditionFor, dialect: d, operators = defaultOperatorRegistry, clock, timezone = 'UTC', context }: { fieldAlias: string; condition: any; conditionFor: "qb" | "find"; } & ConditionOptions): any {
 
     if (conditionFor !== 'qb' && conditionFor !== 'find') {
         // Throw an error if an unsupported `conditionFor` value is passed
         throw new Error("UNSUPPORTED_CONDITION_FOR_VALUE");
     }
 
-    // Generate a unique prefix for parameter aliases
-    const uniqueId = uuid().replace(/-/g, '_');
+    // Resolve the dialect family the SQL is generated for
+    const dialect = resolveDialect(undefined, d);
+
+    // Relative dates of every nested condition are resolved against the same time
+    const now = clock ? clock() : new Date();
+    if (timezone !== 'UTC') {
+        assertTimeZone(timezone);
+    }
+
+    // Parameters are named p0, p1, ... in the order the operators are compiled
+    const compileContext = context ?? new CompileContext();
+    const nestedOptions: ConditionOptions = { dialect, operators, clock: () => now, timezone, context: compileContext };
+
+    // Parses a nested condition of the same field with the options of this one
+    const parseNested = (nestedCondition: any): any => conditionFor === "qb"
+        ? parseCondition({ conditionFor, fieldAlias: a, condition: nestedCondition, ...nestedOptions })
+        : parseCondition({ conditionFor, fieldAlias: a, condition: nestedCondition, ...nestedOptions });
 
     // Basic validation: Check if alias is a non-empty string
     if ((a.trim().length === 0) && conditionFor === 'qb') {
@@ -80,18 +162,30 @@ function parseCondition({ fieldAlias: a, condition, conditionFor }: { fieldAlias
 
     // Validate condition is not undefined or null
     if (condition === undefined || condition === null) {
-        throw new Error('CONDITION_CANNOT_BE_UNDEFINED_OR_NULL');
+        throw new FilterValidationError('CONDITION_CANNOT_BE_UNDEFINED_OR_NULL', { code: 'INVALID_CONDITION', value: condition });
     }
 
-    // If the condition is an object, then it must have exactly one key
-    if (typeof condition === 'object' && !Array.isArray(condition)) {
+    // If the condition is an object, then it must have at least one key
+    if (typeof condition === 'object' && !Array.isArray(condition) && !(condition instanceof Date)) {
 
-        // Check if the condition object has exactly one key, if not throw an error
+        // Check if the condition object has any key, if not throw an error
         // This is to ensure that the condition object is a valid condition
         // e.g. { $in: [1, 2, 3] }
         // if no keys are found, then the object is not a valid condition
-        if (Object.keys(condition).length !== 1) {
-            throw new Error('CONDITION_OBJECT_MUST_HAVE_EXACTLY_ONE_KEY');
+        if (Object.keys(condition).length === 0) {
+            throw new FilterValidationError('CONDITION_OBJECT_MUST_HAVE_AT_LEAST_ONE_KEY', { code: 'INVALID_CONDITION', value: condition });
+        }
+
+        // Several operators on the same field must all hold, e.g. { $gte: 18, $lt: 65 } is { $and: [{ $gte: 18 }, { $lt: 65 }] }
+        if (Object.keys(condition).length > 1) {
+            const nested = Object.entries(condition).map(([operator, value]) => parseNested({ [operator]: value }));
+            if (conditionFor === "qb") {
+                return {
+                    query: `(${nested.map(({ query }) => query).join(' AND ')})`,
+                    parameters: Object.assign({}, ...nested.map(({ parameters }) => parameters)),
+                };
+            }
+            return And(...nested);
         }
 
         // Get the key and value of the condition object
@@ -99,303 +193,56 @@ function parseCondition({ fieldAlias: a, condition, conditionFor }: { fieldAlias
 
         // Check if the condition operator is a valid string
         if (typeof conditionOperator != 'string') {
-            throw new Error('CONDITION_OPERATOR_MUST_BE_A_STRING');
+            throw new FilterValidationError('CONDITION_OPERATOR_MUST_BE_A_STRING', { code: 'INVALID_CONDITION', value: condition });
         }
 
         // Check if the condition value is valid for the given operator
         if (conditionValue === undefined || conditionValue === null) {
-            throw new Error("CONDITION_VALUE_CANNOT_BE_UNDEFINED_OR_NULL");
+            throw invalidOperatorValue('CONDITION_VALUE_CANNOT_BE_UNDEFINED_OR_NULL', conditionOperator, conditionValue, 'a value');
         }
 
-        // Get the parameter prefix for parameter aliases along opreator 
-        const pp = `${uniqueId}_${conditionOperator.replace(/\$/, "")}`;
-
-        // Check if the condition operator is a valid operator
+        // Logical operators combine nested conditions, every other operator comes from the registry
         switch (conditionOperator) {
-            // If the condition operator is a valid operator, then return the parsed condition object
-            case '$in':
-                // Check if the condition value is an array of strings or numbers or dates
-                if (Array.isArray(conditionValue) && conditionValue.every(item => typeof item === 'string' || typeof item === 'number' || item instanceof Date)) {
-                    return (conditionFor === "qb")
-                        ?
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        { query: `${a} IN (:...${pp}_${a})`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        :
-                        // Return a Raw object for the 'find' condition
-                        In(conditionValue);
-
-                } else {
-                    throw new Error("$IN_OPERATOR_MUST_HAVE_AN_ARRAY_OF_STRINGS_OR_NUMBERS");
-                }
-            case '$notIn':
-                // Check if the condition value is an array of strings or numbers or dates
-                if (Array.isArray(conditionValue) && conditionValue.every(item => typeof item === 'string' || typeof item === 'number' || item instanceof Date)) {
-                    return (conditionFor === "qb")
-                        ?
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        { query: `${a} NOT IN (:...${pp}_${a})`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        :
-                        // Return a Raw object for the 'find' condition
-                        Not(In(conditionValue))
-                } else {
-                    throw new Error("$IN_OPERATOR_MUST_HAVE_AN_ARRAY_OF_STRINGS_OR_NUMBERS");
-                }
-            case '$gte':
-                // Check if the condition value is a number, string, or Date
-                if (['number', 'string'].includes(typeof conditionValue) || conditionValue instanceof Date) {
-                    return (conditionFor === "qb")
-                        ?
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        { query: `${a} >= :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        :
-                        // Return a Raw object for the 'find' condition
-                        MoreThanOrEqual(conditionValue);
-                } else {
-                    throw new Error("$GTE_OPERATOR_MUST_HAVE_A_NUMBER_STRING_OR_DATE");
-                }
-            case '$lte':
-                // Check if the condition value is a number, string, or Date
-                if (['number', 'string'].includes(typeof conditionValue) || conditionValue instanceof Date) {
-                    return (conditionFor === "qb")
-                        ?
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        { query: `${a} <= :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        :
-                        // Return a Raw object for the 'find' condition
-                        LessThanOrEqual(conditionValue);
-                } else {
-                    throw new Error("$LTE_OPERATOR_MUST_HAVE_A_NUMBER_STRING_OR_DATE");
-                }
-            case '$gt':
-                // Check if the condition value is a number, string or Date
-                if (['number', 'string'].includes(typeof conditionValue) || conditionValue instanceof Date) {
-                    return (conditionFor === "qb")
-                        ?
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        { query: `${a} > :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        :
-                        // Return a Raw object for the 'find' condition
-                        MoreThan(conditionValue);
-                } else {
-                    throw new Error("$GT_OPERATOR_MUST_HAVE_A_NUMBER_STRING_OR_DATE");
-                }
-            case '$lt':
-                // Check if the condition value is a number, string or Date
-                if (['number', 'string'].includes(typeof conditionValue) || conditionValue instanceof Date) {
-                    return (conditionFor === "qb")
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        ? { query: `${a} < :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        // Return a Raw object for the 'find' condition
-                        : LessThan(conditionValue);
-                } else {
-                    throw new Error("$LT_OPERATOR_MUST_HAVE_A_NUMBER_STRING_OR_DATE");
-                }
-            case '$between':
-                // Check if the condition value is an array with two values, each being a string, number, or Date
-                if (Array.isArray(conditionValue) && conditionValue.length === 2 && conditionValue.every(item => typeof item === 'string' || typeof item === 'number' || item instanceof Date)) {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} BETWEEN :${pp}_${a}_start AND :${pp}_${a}_end`, parameters: { [`${pp}_${a}_start`]: conditionValue[0], [`${pp}_${a}_end`]: conditionValue[1] } }
-                        : Between(conditionValue[0], conditionValue[1]);
-                } else {
-                    throw new Error("$BETWEEN_OPERATOR_MUST_HAVE_AN_ARRAY_WITH_TWO_VALUES");
-                }
-            case '$notBetween':
-                // Check if the condition value is an array with two values, each being a string, number, or Date
-                if (Array.isArray(conditionValue) && conditionValue.length === 2 && conditionValue.every(item => typeof item === 'string' || typeof item === 'number' || item instanceof Date)) {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} NOT BETWEEN :${pp}_${a}_start AND :${pp}_${a}_end`, parameters: { [`${pp}_${a}_start`]: conditionValue[0], [`${pp}_${a}_end`]: conditionValue[1] } }
-                        : Not(Between(conditionValue[0], conditionValue[1]));
-                } else {
-                    throw new Error("$NOT_BETWEEN_OPERATOR_MUST_HAVE_AN_ARRAY_WITH_TWO_VALUES");
-                }
-            case '$contains':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} LIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `%${conditionValue}%` } }
-                        : Like(`%${conditionValue}%`);
-                } else {
-                    throw new Error('$CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$notContains':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} NOT LIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `%${conditionValue}%` } }
-                        : Not(Like(`%${conditionValue}%`));
-                } else {
-                    throw new Error('$NOT_CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$iContains':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} ILIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `%${conditionValue}%` } }
-                        : ILike(`%${conditionValue}%`);
-                } else {
-                    throw new Error('$I_CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$notIContains':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} NOT ILIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `%${conditionValue}%` } }
-                        : Not(ILike(`%${conditionValue}%`));
-                } else {
-                    throw new Error('$NOT_I_CONTAINS_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$startsWith':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} LIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `${conditionValue}%` } }
-                        : Like(`${conditionValue}%`);
-                } else {
-                    throw new Error('$STARTS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$notStartsWith':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} NOT LIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `${conditionValue}%` } }
-                        : Not(Like(`${conditionValue}%`));
-                } else {
-                    throw new Error('$NOT_STARTS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$endsWith':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} LIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `%${conditionValue}` } }
-                        : Like(`%${conditionValue}`);
-                } else {
-                    throw new Error('$ENDS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$notEndsWith':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} NOT LIKE :${pp}_${a}`, parameters: { [`${pp}_${a}`]: `%${conditionValue}` } }
-                        : Not(Like(`%${conditionValue}`));
-                } else {
-                    throw new Error('$NOT_ENDS_WITH_OPERATOR_MUST_HAVE_A_STRING_VALUE');
-                }
-            case '$equalTo':
-                // Check if the condition value is a string, number, boolean, or Date
-                if ((typeof conditionValue === 'string' || typeof conditionValue === 'number' || typeof conditionValue === 'boolean' || conditionValue instanceof Date)) {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} = :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        : Equal(conditionValue);
-                } else {
-                    throw new Error("$EQUAL_TO_OPERATOR_MUST_HAVE_A_STRING_NUMBER_BOOLEAN_OR_DATE_VALUE");
-                }
-            case '$notEqualTo':
-                // Check if the condition value is a string, number, boolean, or Date
-                if ((typeof conditionValue === 'string' || typeof conditionValue === 'number' || typeof conditionValue === 'boolean' || conditionValue instanceof Date)) {
-                    return (conditionFor === "qb")
-                        ? { query: `${a} != :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } }
-                        : Not(Equal(conditionValue));
-                } else {
-                    throw new Error("$NOT_EQUAL_TO_OPERATOR_MUST_HAVE_A_STRING_NUMBER_BOOLEAN_OR_DATE_VALUE");
-                }
-            case '$regex':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    if (conditionFor === "qb") {
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        return { query: `${a} ~ :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } };
-                    } else {
-                        // Return a Raw object for the 'find' condition
-                        return Raw((alias: string) => `${alias} ~ :${pp}_${a}`, { [`${pp}_${a}`]: conditionValue });
-                    }
-                } else {
-                    throw new Error("$REGEX_OPERATOR_MUST_HAVE_A_STRING_VALUE");
-                }
-            case '$notRegex':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    if (conditionFor === "qb") {
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        return { query: `${a} !~ :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } };
-                    } else {
-                        // Return a Raw object for the 'find' condition
-                        return Raw((alias: string) => `${alias} !~ :${pp}_${a}`, { [`${pp}_${a}`]: conditionValue });
-                    }
-                } else {
-                    throw new Error("$NOT_REGEX_OPERATOR_MUST_HAVE_A_STRING_VALUE");
-                }
-            case '$regexi':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
-                    if (conditionFor === "qb") {
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        return { query: `${a} ~* :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } };
-                    } else {
-                        // Return a Raw object for the 'find' condition
-                        return Raw((alias: string) => `${alias} ~* :${pp}_${a}`, { [`${pp}_${a}`]: conditionValue });
-                    }
-                } else {
-                    throw new Error("$REGEXI_OPERATOR_MUST_HAVE_A_STRING_VALUE");
+            case '$not': {
+                // Negate a nested condition of the same field, e.g. { $not: { $startsWith: 'tmp' } }
+                const negated = compileContext.within(['$not'], () => parseNested(conditionValue));
+                if (conditionFor === "qb") {
+                    return { query: `NOT (${negated.query})`, parameters: negated.parameters };
                 }
-            case '$notRegexi':
-                // Check if the condition value is a string
-                if (typeof conditionValue === 'string') {
+                return Not(negated);
+            }
+            case '$and':
+            case '$or':
+            case '$nor':
+                // Combine nested conditions of the same field, e.g. { $or: [{ $lt: 18 }, { $gt: 65 }] }
+                if (Array.isArray(conditionValue) && conditionValue.length > 0) {
+                    const nested = conditionValue.map((nestedCondition, index) =>
+                        compileContext.within([conditionOperator, index], () => parseNested(nestedCondition)));
                     if (conditionFor === "qb") {
-                        // Return a FindOperatorQB object for the 'qb' condition
-                        return { query: `${a} !~* :${pp}_${a}`, parameters: { [`${pp}_${a}`]: conditionValue } };
-                    } else {
-                        // Return a Raw object for the 'find' condition
-                        return Raw((alias: string) => `${alias} !~* :${pp}_${a}`, { [`${pp}_${a}`]: conditionValue });
+                        const joined = nested.map(({ query }) => query).join(conditionOperator === '$and' ? ' AND ' : ' OR ');
+                        return {
+                            query: conditionOperator === '$nor' ? `NOT (${joined})` : `(${joined})`,
+                            parameters: Object.assign({}, ...nested.map(({ parameters }) => parameters)),
+                        };
                     }
+                    return conditionOperator === '$and' ? And(...nested) : conditionOperator === '$or' ? Or(...nested) : Not(Or(...nested));
                 } else {
-                    throw new Error("$NOT_REGEXI_OPERATOR_MUST_HAVE_A_STRING_VALUE");
-                }
-            case '$jsonContains':
-                if (conditionFor === "qb") {
-                    // Return a FindOperatorQB object for the 'qb' condition
-                    return { query: `${a} @> :${pp}_${a}`, parameters: { [`${pp}_${a}`]: JSON.stringify(conditionValue) } };
-                } else {
-                    // Return a Raw object for the 'find' condition
-                    return Raw((alias: string) => `${alias} @> :${pp}_${a}`, { [`${pp}_${a}`]: JSON.stringify(conditionValue) });
+                    throw invalidOperatorValue(`${conditionOperator.toUpperCase()}_OPERATOR_MUST_HAVE_A_NON_EMPTY_ARRAY_OF_CONDITIONS`, conditionOperator, conditionValue, 'non-empty array of conditions');
                 }
-            case '$jsonContained':
-                if (conditionFor === "qb") {
-                    // Return a FindOperatorQB object for the 'qb' condition
-                    return { query: `${a} <@ :${pp}_${a}`, parameters: { [`${pp}_${a}`]: JSON.stringify(conditionValue) } };
-                } else {
-                    // Return a Raw object for the 'find' condition
-                    return Raw((alias: string) => `${alias} <@ :${pp}_${a}`, { [`${pp}_${a}`]: JSON.stringify(conditionValue) });
-                }
-            case '$jsonEquals':
-                if (conditionFor === "qb") {
-                    // Return a FindOperatorQB object for the 'qb' condition
-                    return { query: `${a} = :${pp}_${a}`, parameters: { [`${pp}_${a}`]: JSON.stringify(conditionValue) } };
-                } else {
-                    // Return a Raw object for the 'find' condition
-                    return Raw((alias: string) => `${alias} = :${pp}_${a}`, { [`${pp}_${a}`]: JSON.stringify(conditionValue) });
+            default: {
+                const definition = operators.getOperator(conditionOperator);
+                if (!definition) {
+                    // If the condition operator is not a registered operator, then throw an error
+                    throw new UnknownOperatorError(conditionOperator);
                 }
-            case '$jsonHasKey':
-                if (conditionFor === "qb") {
-                    // Return a FindOperatorQB object for the 'qb' condition
-                    return { query: `${a} ? :${pp}_${a}_key`, parameters: { [`${pp}_${a}_key`]: conditionValue } };
-                } else {
-                    // Return a Raw object for the 'find' condition
-                    return Raw((alias: string) => `${alias} ? :${pp}_${a}_key`, { [`${pp}_${a}_key`]: conditionValue });
-                }
-            default:
-                // If the condition operator is not a valid operator, then throw an error
-                throw new Error(`INVALID_CONDITION_OPERATOR ${conditionOperator}`);
+                const operatorContext = { operator: conditionOperator, fieldAlias: a, param: compileContext.nextParam(), dialect, now, timezone };
+                return compileContext.within([conditionOperator], () => applyOperator(definition, conditionValue, operatorContext, conditionFor, compileContext));
+            }
         }
     }
-    // If the condition is an array, then return the parsed condition object
+    // If the condition is an array, then it is an implicit $in
     else if (Array.isArray(condition) && condition.every(item => typeof item === 'string' || typeof item === 'number' || item instanceof Date)) {
-        return (conditionFor === "qb")
-            ?
-            // Return a FindOperatorQB object for the 'qb' condition
-            { query: `${a} IN (:...${uniqueId}_in_${a})`, parameters: { [`${uniqueId}_in_${a}`]: condition } }
-            :
-            // Return a Raw object for the 'find' condition
-            In(condition);
+        return applyOperator(builtinOperator(operators, '$in'), condition, { operator: '$in', fieldAlias: a, param: compileContext.nextParam(), dialect, now, timezone }, conditionFor, compileContext);
     }
     else if (condition === "$isNull") {
         return (conditionFor === "qb")
@@ -415,20 +262,14 @@ function parseCondition({ fieldAlias: a, condition, conditionFor }: { fieldAlias
             // Return a Raw object for the 'find' condition
             Not(IsNull());
     }
-    // If the condition is null, undefined, string, number, boolean, or Date, then return the parsed condition object
+    // If the condition is a string, number, boolean, or Date, then it is an implicit $equalTo
     else if (typeof condition === 'string' || typeof condition === 'number' || typeof condition === 'boolean' || condition instanceof Date) {
-        return (conditionFor === "qb")
-            ?
-            // Return a FindOperatorQB object for the 'qb' condition
-            { query: `${a} = :${uniqueId}_eq_${a}`, parameters: { [`${uniqueId}_eq_${a}`]: condition } }
-            :
-            // Return a Raw object for the 'find' condition
-            Equal(condition);
+        return applyOperator(builtinOperator(operators, '$equalTo'), condition, { operator: '$equalTo', fieldAlias: a, param: compileContext.nextParam(), dialect, now, timezone }, conditionFor, compileContext);
     }
     // If the condition is not a valid condition, then throw an error
     else {
         // throw new Error(`Invalid condition, must be an object, array, string, number, boolean, or Date`);
-        throw new Error("INVALID_CONDITION");
+        throw new FilterValidationError('INVALID_CONDITION', { code: 'INVALID_CONDITION', value: condition, expected: 'object, array, string, number, boolean or Date' });
     }
 }
 export default parseCondition;
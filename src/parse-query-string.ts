@@ -0,0 +1,429 @@
+import { FilterError } from './filter-errors';
+
+// A node of the bracket-notation parameter tree, e.g. `filter[age][$gte]=30` => filter -> age -> $gte = ['30']
+interface ParamNode {
+    values?: string[];
+    children: Record<string, ParamNode>;
+}
+
+// Operators whose value is compared as a plain string and must not be coerced
+const stringOperators = [
+    '$contains', '$notContains', '$iContains', '$notIContains', '$startsWith', '$notStartsWith',
+    '$endsWith', '$notEndsWith', '$regex', '$notRegex', '$regexi', '$notRegexi', '$jsonHasKey', '$search',
+];
+
+// Operators whose value is a comma separated list
+const listOperators = ['$in', '$notIn', '$between', '$notBetween', '$arrayContains', '$arrayContainedBy', '$arrayOverlap', '$dateBetween'];
+
+// Operators whose dates are kept as given, calendar dates are read in the time zone of the condition
+const dateOperators = ['$dateEquals', '$dateBetween'];
+
+// Operators whose value is a JSON document
+const jsonOperators = ['$jsonContains', '$jsonContained', '$jsonEquals'];
+
+// Accepted values for `sort[field]=<order>`
+const sortOrders = ['ascend', 'descend', 'asc', 'desc', 'ascending', 'descending', '1', '-1'];
+
+// Field names and dotted relation paths, e.g. `name` or `author.company.name`
+const fieldPattern = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+// Segments that would reach the prototype of the objects built from the tree, e.g. `filter[__proto__]=1`
+const reservedSegments = ['__proto__', 'constructor', 'prototype'];
+
+// ISO 8601 dates, e.g. `2024-01-31` or `2024-01-31T10:00:00.000Z`
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Error thrown by `parseQueryString` when one or more parameters are malformed.
+ * Every issue carries the bracket-notation path of the offending parameter.
+ */
+export class QueryStringParseError extends FilterError {
+    readonly issues: QueryStringIssue[];
+
+    constructor(issues: QueryStringIssue[]) {
+        super(`INVALID_QUERY_STRING ${issues.map((issue) => `${issue.code} at ${issue.path}`).join(', ')}`, { code: 'INVALID_QUERY_STRING' });
+        this.name = 'QueryStringParseError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Checks a field name or dotted relation path, reserved segments are no field names.
+ */
+function isFieldName(field: string): boolean {
+    return fieldPattern.test(field) && !field.split('.').some((segment) => reservedSegments.includes(segment));
+}
+
+/**
+ * Formats path segments in bracket notation, e.g. ['filter', 'age', '$gte'] => `filter[age][$gte]`.
+ */
+function formatPath(path: string[]): string {
+    return path[0] + path.slice(1).map((segment) => `[${segment}]`).join('');
+}
+
+/**
+ * Splits a bracket-notation key into its segments, returns `undefined` for malformed keys.
+ */
+function splitKey(key: string): string[] | undefined {
+    const match = /^([^\[\]]+)((?:\[[^\[\]]*\])*)$/.exec(key);
+    if (!match) {
+        return undefined;
+    }
+    const segments = match[2].length > 0 ? match[2].slice(1, -1).split('][') : [];
+    return [match[1], ...segments];
+}
+
+/**
+ * Creates a tree node, its children have no prototype so parameter names never match inherited properties.
+ */
+function createNode(): ParamNode {
+    return { children: Object.create(null) };
+}
+
+/**
+ * Adds a parameter value to the tree, `[]` segments are turned into the next free array index.
+ */
+function addParam(root: ParamNode, path: string[], value: string) {
+    let node = root;
+    path.forEach((segment) => {
+        const key = segment === '' ? String(Object.keys(node.children).length) : segment;
+        node = node.children[key] = node.children[key] ?? createNode();
+    });
+    node.values = [...(node.values ?? []), value];
+}
+
+/**
+ * Builds the parameter tree from a raw query string or from an already parsed query object
+ * (flat bracket keys like `{ 'filter[age][$gte]': '30' }` as well as nested objects like `req.query`).
+ */
+function buildTree(input: string | Record<string, any>, issues: QueryStringIssue[]): ParamNode {
+    const root = createNode();
+
+    const add = (key: string, prefix: string[], value: any) => {
+        const segments = splitKey(key);
+        if (!segments) {
+            issues.push({ path: formatPath([...prefix, key]), code: 'MALFORMED_PARAMETER_NAME' });
+            return;
+        }
+        const path = [...prefix, ...segments];
+        if (segments.some((segment) => reservedSegments.includes(segment))) {
+            issues.push({ path: formatPath(path), code: 'INVALID_FIELD_NAME' });
+            return;
+        }
+
+        if (value === undefined || value === null) {
+            return;
+        } else if (Array.isArray(value)) {
+            value.forEach((item, index) => typeof item === 'object' && item !== null
+                ? add(String(index), path, item)
+                : addParam(root, path, String(item)));
+        } else if (typeof value === 'object') {
+            Object.entries(value).forEach(([childKey, childValue]) => add(childKey, path, childValue));
+        } else {
+            addParam(root, path, String(value));
+        }
+    };
+
+    if (typeof input === 'string') {
+        new URLSearchParams(input.replace(/^\?/, '')).forEach((value, key) => add(key, [], value));
+    } else {
+        Object.entries(input).forEach(([key, value]) => add(key, [], value));
+    }
+
+    return root;
+}
+
+/**
+ * Coerces a parameter value to a boolean, number or Date when it looks like one.
+ * Numbers with leading zeros (e.g. zip codes) are kept as strings.
+ */
+function coerceValue(value: string): string | number | boolean | Date {
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value) && Number.isFinite(Number(value))) {
+        return Number(value);
+    }
+    if (isoDatePattern.test(value) && !isNaN(Date.parse(value))) {
+        return new Date(value);
+    }
+    return value;
+}
+
+/**
+ * Reads the single value of a leaf parameter, reporting repeated or nested parameters.
+ */
+function singleValue(node: ParamNode, path: string[], issues: QueryStringIssue[]): string | undefined {
+    if (Object.keys(node.children).length > 0 || (node.values ?? []).length !== 1) {
+        issues.push({ path: formatPath(path), code: 'PARAMETER_MUST_HAVE_A_SINGLE_VALUE' });
+        return undefined;
+    }
+    return node.values![0];
+}
+
+/**
+ * Reads a list parameter given as comma separated values, repeated parameters or indexed parameters.
+ */
+function listValues(node: ParamNode, path: string[], issues: QueryStringIssue[]): string[] {
+    const values = [...(node.values ?? [])];
+    Object.entries(node.children).forEach(([key, child]) => {
+        if (!/^\d+$/.test(key) || Object.keys(child.children).length > 0) {
+            issues.push({ path: formatPath([...path, key]), code: 'LIST_PARAMETER_MUST_BE_INDEXED' });
+        } else {
+            values.push(...(child.values ?? []));
+        }
+    });
+    return values.flatMap((value) => value.split(',')).map((value) => value.trim()).filter((value) => value.length > 0);
+}
+
+/**
+ * Converts a parameter subtree into a plain object for the JSON operators.
+ */
+function jsonValue(node: ParamNode, path: string[], issues: QueryStringIssue[]): any {
+    if (Object.keys(node.children).length > 0) {
+        return Object.fromEntries(Object.entries(node.children).map(([key, child]) => [key, jsonValue(child, [...path, key], issues)]));
+    }
+    const value = singleValue(node, path, issues);
+    if (value === undefined) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        if (jsonOperators.includes(path[path.length - 1])) {
+            issues.push({ path: formatPath(path), code: 'INVALID_JSON_VALUE' });
+            return undefined;
+        }
+        // Bare strings are allowed for nested keys, e.g. filter[meta][$jsonContains][color]=red
+        return value;
+    }
+}
+
+/**
+ * Converts the operator object of a field, e.g. `{ $gte: '30' }` => `{ $gte: 30 }`.
+ */
+function parseOperators(node: ParamNode, path: string[], issues: QueryStringIssue[]): any {
+    const condition: Record<string, any> = {};
+
+    for (const [operator, child] of Object.entries(node.children)) {
+        const operatorPath = [...path, operator];
+
+        if (operator === '$isNull') {
+            const value = singleValue(child, operatorPath, issues);
+            if (value !== 'true' && value !== 'false') {
+                issues.push({ path: formatPath(operatorPath), code: 'IS_NULL_MUST_BE_TRUE_OR_FALSE' });
+                continue;
+            }
+            if (Object.keys(node.children).length > 1) {
+                issues.push({ path: formatPath(operatorPath), code: 'IS_NULL_CANNOT_BE_COMBINED_WITH_OTHER_OPERATORS' });
+                continue;
+            }
+            return value === 'true' ? '$isNull' : '$isNotNull';
+        } else if (dateOperators.includes(operator) && Object.keys(child.children).some((key) => !/^\d+$/.test(key))) {
+            // Named options, e.g. filter[createdAt][$dateEquals][date]=2024-03-10&filter[createdAt][$dateEquals][granularity]=week
+            condition[operator] = Object.fromEntries(Object.entries(child.children).map(([key, option]) => [key, singleValue(option, [...operatorPath, key], issues)]));
+        } else if (listOperators.includes(operator)) {
+            const values = listValues(child, operatorPath, issues).map((value) => dateOperators.includes(operator) ? value : coerceValue(value));
+            if ((operator === '$between' || operator === '$notBetween' || operator === '$dateBetween') && values.length !== 2) {
+                issues.push({ path: formatPath(operatorPath), code: 'BETWEEN_MUST_HAVE_TWO_VALUES' });
+                continue;
+            }
+            if (values.length === 0) {
+                issues.push({ path: formatPath(operatorPath), code: 'LIST_MUST_NOT_BE_EMPTY' });
+                continue;
+            }
+            condition[operator] = values;
+        } else if (jsonOperators.includes(operator)) {
+            condition[operator] = jsonValue(child, operatorPath, issues);
+        } else if (operator === '$arrayLength' && Object.keys(child.children).length > 0) {
+            // Length comparisons, e.g. filter[tags][$arrayLength][$gte]=2
+            condition[operator] = parseOperators(child, operatorPath, issues);
+        } else {
+            const value = singleValue(child, operatorPath, issues);
+            if (value !== undefined) {
+                condition[operator] = stringOperators.includes(operator) || dateOperators.includes(operator) ? value : coerceValue(value);
+            }
+        }
+    }
+
+    return condition;
+}
+
+/**
+ * Converts the condition of a field, nested non-operator keys extend the field into a dotted relation path.
+ */
+function parseField(filter: Record<string, any>, field: string, node: ParamNode, path: string[], issues: QueryStringIssue[]) {
+    const keys = Object.keys(node.children);
+
+    if (!isFieldName(field)) {
+        issues.push({ path: formatPath(path), code: 'INVALID_FIELD_NAME' });
+    } else if (keys.length === 0) {
+        const values = (node.values ?? []).map((value) => value === 'null' ? '$isNull' : value);
+        filter[field] = values.length === 1
+            ? (values[0] === '$isNull' || values[0] === '$isNotNull' ? values[0] : coerceValue(values[0]))
+            // Repeated parameters are matched with IN
+            : values.map(coerceValue);
+    } else if (node.values !== undefined) {
+        issues.push({ path: formatPath(path), code: 'PARAMETER_CANNOT_HAVE_A_VALUE_AND_NESTED_KEYS' });
+    } else if (keys.every((key) => key.startsWith('$'))) {
+        filter[field] = parseOperators(node, path, issues);
+    } else if (keys.some((key) => key.startsWith('$'))) {
+        issues.push({ path: formatPath(path), code: 'CANNOT_MIX_OPERATORS_AND_RELATION_FIELDS' });
+    } else {
+        Object.entries(node.children).forEach(([key, child]) => parseField(filter, `${field}.${key}`, child, [...path, key], issues));
+    }
+}
+
+/**
+ * Converts a filter subtree, `$and`/`$or`/`$nor` keys must contain indexed sub filters, `$not` a sub filter.
+ */
+function parseFilter(node: ParamNode, path: string[], issues: QueryStringIssue[]): Record<string, any> {
+    const filter: Record<string, any> = {};
+
+    if (node.values !== undefined) {
+        issues.push({ path: formatPath(path), code: 'FILTER_MUST_BE_AN_OBJECT' });
+        return filter;
+    }
+
+    Object.entries(node.children).forEach(([key, child]) => {
+        const childPath = [...path, key];
+        if (key === '$and' || key === '$or' || key === '$nor') {
+            const indexes = Object.keys(child.children);
+            if (child.values !== undefined || !indexes.every((index) => /^\d+$/.test(index))) {
+                issues.push({ path: formatPath(childPath), code: 'LOGICAL_OPERATOR_MUST_HAVE_INDEXED_FILTERS' });
+                return;
+            }
+            filter[key] = indexes
+                .sort((a, b) => Number(a) - Number(b))
+                .map((index) => parseFilter(child.children[index], [...childPath, index], issues));
+        } else if (key === '$not') {
+            filter[key] = parseFilter(child, childPath, issues);
+        } else {
+            parseField(filter, key, child, childPath, issues);
+        }
+    });
+
+    return filter;
+}
+
+/**
+ * Converts the sort parameter, either `sort=-createdAt,name` or `sort[createdAt]=desc`.
+ */
+function parseSort(node: ParamNode, issues: QueryStringIssue[]): Record<string, SortOrder> {
+    const sort: Record<string, SortOrder> = {};
+
+    (node.values ?? []).flatMap((value) => value.split(',')).map((value) => value.trim()).forEach((entry) => {
+        const field = entry.replace(/^[-+]/, '');
+        if (!isFieldName(field)) {
+            issues.push({ path: 'sort', code: 'INVALID_SORT_FIELD' });
+        } else {
+            sort[field] = entry.startsWith('-') ? 'desc' : 'asc';
+        }
+    });
+
+    Object.entries(node.children).forEach(([field, child]) => {
+        const value = singleValue(child, ['sort', field], issues);
+        if (!isFieldName(field)) {
+            issues.push({ path: formatPath(['sort', field]), code: 'INVALID_SORT_FIELD' });
+        } else if (value !== undefined && !sortOrders.includes(value.toLowerCase())) {
+            issues.push({ path: formatPath(['sort', field]), code: 'INVALID_SORT_ORDER' });
+        } else if (value !== undefined) {
+            sort[field] = (/^-?1$/.test(value) ? Number(value) : value.toLowerCase()) as SortOrder;
+        }
+    });
+
+    return sort;
+}
+
+/**
+ * Reads a positive integer paging parameter.
+ */
+function positiveInteger(node: ParamNode, path: string[], issues: QueryStringIssue[]): number | undefined {
+    const value = singleValue(node, path, issues);
+    if (value !== undefined && !/^[1-9]\d*$/.test(value)) {
+        issues.push({ path: formatPath(path), code: 'MUST_BE_A_POSITIVE_INTEGER' });
+        return undefined;
+    }
+    return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Converts the paging parameters, `page=2&pageSize=20&cursor=...` or `page[number]=2&page[size]=20&page[cursor]=...`.
+ */
+function parsePage(root: ParamNode, issues: QueryStringIssue[]): PageSpec {
+    const page: PageSpec = {};
+    const pageNode = root.children['page'];
+
+    if (pageNode && Object.keys(pageNode.children).length > 0) {
+        Object.entries(pageNode.children).forEach(([key, child]) => {
+            if (key === 'number') {
+                page.page = positiveInteger(child, ['page', key], issues);
+            } else if (key === 'size') {
+                page.pageSize = positiveInteger(child, ['page', key], issues);
+            } else if (key === 'cursor') {
+                page.cursor = singleValue(child, ['page', key], issues);
+            } else {
+                issues.push({ path: formatPath(['page', key]), code: 'UNKNOWN_PAGE_PARAMETER' });
+            }
+        });
+    } else if (pageNode) {
+        page.page = positiveInteger(pageNode, ['page'], issues);
+    }
+
+    if (root.children['pageSize']) {
+        page.pageSize = positiveInteger(root.children['pageSize'], ['pageSize'], issues);
+    }
+    if (root.children['cursor']) {
+        page.cursor = singleValue(root.children['cursor'], ['cursor'], issues);
+    }
+
+    return page;
+}
+
+/**
+ * Converts the select parameter, `select=id,name,author.name`.
+ */
+function parseSelect(node: ParamNode, issues: QueryStringIssue[]): string[] {
+    const fields = listValues(node, ['select'], issues);
+    fields.filter((field) => !isFieldName(field)).forEach(() => issues.push({ path: 'select', code: 'INVALID_SELECT_FIELD' }));
+    return [...new Set(fields.filter((field) => isFieldName(field)))];
+}
+
+/**
+ * Parses HTTP query parameters into the filter, sort, page and select specs used by the query builder helpers.
+ *
+ * Supports bracket notation (`filter[age][$gte]=30`, `filter[$or][0][status]=open`), comma separated lists
+ * for `$in`/`$notIn`/`$between`/`$notBetween`, sort shorthand (`sort=-createdAt,name`) and coerces values to
+ * numbers, booleans and dates (`null` and `[$isNull]=true` become `$isNull`). Parameters other than
+ * `filter`, `sort`, `page`, `pageSize`, `cursor` and `select` are ignored.
+ *
+ * @param input - A raw query string (with or without the leading `?`) or an already parsed query object such as `req.query`.
+ * @returns {QueryStringSpec} - The parsed `{ filter, sort, page, select }` spec.
+ * @throws {QueryStringParseError} - If any parameter is malformed, with every issue and its parameter path.
+ *
+ * Example usage:
+ * ```typescript
+ * const { filter, sort, page } = parseQueryString('filter[age][$gte]=30&filter[status][$in]=open,closed&sort=-createdAt&page=2');
+ * applyWhereConditionsQB(qb, 'andWhere', filter, 'entity');
+ * applySortOrderQB(qb, sort);
+ * ```
+ */
+function parseQueryString(input: string | Record<string, any>): QueryStringSpec {
+    const issues: QueryStringIssue[] = [];
+    const root = buildTree(input, issues);
+
+    const spec: QueryStringSpec = {
+        filter: root.children['filter'] ? parseFilter(root.children['filter'], ['filter'], issues) : {},
+        sort: root.children['sort'] ? parseSort(root.children['sort'], issues) : {},
+        page: parsePage(root, issues),
+        select: root.children['select'] ? parseSelect(root.children['select'], issues) : undefined,
+    };
+
+    if (issues.length > 0) {
+        throw new QueryStringParseError(issues);
+    }
+
+    return spec;
+}
+
+export default parseQueryString;
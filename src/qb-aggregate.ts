@@ -0,0 +1,206 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import resolveDialect from './resolve-dialect';
+import resolveFieldPath from './resolve-field-path';
+import applySortOrderQB from './qb-apply-sort-order';
+import { compileConditions } from './qb-apply-where-conditions';
+import { enforceSelectPolicy, resolveFilterPolicy } from './enforce-filter-policy';
+import { aliasMetadataLookup } from './entity-metadata';
+import compileContextFor from './compile-context';
+import { applyScopesQB } from './filter-scopes';
+import enforceFilterLimits, { resolveFilterLimits } from './filter-limits';
+import { FilterError, FilterValidationError, throwFilterErrors } from './filter-errors';
+
+// Aggregate functions and their SQL, results of the numeric ones are read as numbers
+const aggregateFunctions: Record<string, { sql: string; numeric: boolean }> = {
+    $count: { sql: 'COUNT', numeric: true },
+    $sum: { sql: 'SUM', numeric: true },
+    $avg: { sql: 'AVG', numeric: true },
+    $min: { sql: 'MIN', numeric: false },
+    $max: { sql: 'MAX', numeric: false },
+};
+
+// Aggregate aliases are column aliases of the result rows
+const aliasPattern = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Builds the error thrown for an invalid part of an aggregate spec.
+ */
+function invalidAggregate(message: string, path: string, value: any, expected: string): FilterValidationError {
+    return new FilterValidationError(message, { code: 'INVALID_AGGREGATE', path, value, expected });
+}
+
+/**
+ * Resolves a grouped or aggregated field to its expression, joining dotted relation paths.
+ * Fields of entities with metadata must be columns.
+ */
+function resolveColumn(qb: SelectQueryBuilder<any>, field: string): string {
+    const expression = resolveFieldPath(qb, qb.alias, field);
+    const metadata = aliasMetadataLookup(qb)(expression.slice(0, expression.indexOf('.')));
+    if (metadata && metadata.findColumnsWithPropertyPath(expression.slice(expression.indexOf('.') + 1)).length === 0) {
+        throw new FilterValidationError(`UNKNOWN_FIELD ${field}`, { code: 'UNKNOWN_FIELD', path: field, value: field });
+    }
+    return expression;
+}
+
+/**
+ * Checks that a selection is an object, its keys are read as sent by the client.
+ */
+function isSelectionObject(selection: unknown): selection is Record<string, unknown> {
+    return typeof selection === 'object' && selection !== null && !Array.isArray(selection);
+}
+
+/**
+ * Returns the function and field of an aggregate selection.
+ */
+function aggregateFunction(alias: string, selection: AggregateSelection): { name: string; field: string; distinct: boolean } {
+    const entries: Record<string, unknown> = isSelectionObject(selection) ? selection : {};
+    const names = Object.keys(entries).filter((key) => key !== 'distinct');
+    const name = names[0];
+    const field = entries[name];
+
+    if (names.length !== 1 || !Object.prototype.hasOwnProperty.call(aggregateFunctions, name) || typeof field !== 'string' || field.trim() === '') {
+        throw invalidAggregate(`INVALID_AGGREGATE_SELECTION ${alias}`, `aggregates.${alias}`, selection, 'one of $count, $sum, $avg, $min or $max with a field');
+    }
+    if (field === '*' && name !== '$count') {
+        throw invalidAggregate(`ONLY_$COUNT_CAN_AGGREGATE_ALL_ROWS ${alias}`, `aggregates.${alias}`, selection, 'a field');
+    }
+    return { name, field, distinct: entries.distinct === true };
+}
+
+/**
+ * Applies grouping, aggregate selections, a HAVING filter and a sort to a TypeORM Query Builder,
+ * replacing its current selection.
+ *
+ * Grouped fields are selected under their path, aggregates under their alias. The `having` filter uses the
+ * operators of `where` filters on aggregate aliases and grouped fields, compiled with `parseCondition` against
+ * the aggregate expressions. The sort orders by aggregate aliases and grouped fields with `applySortOrderQB`.
+ *
+ * @param {SelectQueryBuilder<T>} qb - The TypeORM Query Builder instance, its `where` conditions filter the rows before grouping.
+ * @param {AggregateSpec} spec - The grouped fields, the aggregate selections by alias, the `having` filter and the `sort`.
+ * @param {ApplyConditionsOptions} options - Optional settings, `dialect`, `operators`, `clock`, `timezone` and `collectErrors`
+ *   apply to the `having` filter, `policy` restricts the grouped and aggregated fields to the selectable ones and the sort,
+ *   `scopes`, `scopeContext` and `disableScopes` control the filter scopes applied to the rows, `limits` bounds the complexity
+ *   of the `having` filter and the sort.
+ * @returns {SelectQueryBuilder<T>} - The updated Query Builder.
+ * @throws {FilterValidationError} - If an aggregate selection, alias or field is invalid.
+ * @throws {FilterError} - If the `having` filter cannot be parsed, with the filter path of the condition.
+ *
+ * Example usage:
+ * ```typescript
+ * applyAggregateQB(orderRepository.createQueryBuilder('order').where('order.total > :total', { total: 100 }), {
+ *     groupBy: ['status'],
+ *     aggregates: { orders: { $count: '*' }, revenue: { $sum: 'total' } },
+ *     having: { orders: { $gt: 5 } },
+ *     sort: { revenue: 'desc' },
+ * });
+ * // SELECT order.status AS status, COUNT(*) AS orders, SUM(order.total) AS revenue ... WHERE order.total > :total
+ * // GROUP BY order.status HAVING COUNT(*) > :p0 ORDER BY SUM(order.total) DESC
+ * ```
+ */
+export function applyAggregateQB<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, spec: AggregateSpec, options: ApplyConditionsOptions = {}): SelectQueryBuilder<T> {
+    const { groupBy = [], aggregates, having, sort } = spec;
+    if (typeof aggregates !== 'object' || aggregates === null || Object.keys(aggregates).length === 0) {
+        throw invalidAggregate('AGGREGATES_MUST_HAVE_AT_LEAST_ONE_SELECTION', 'aggregates', aggregates, 'aggregate selections by alias');
+    }
+    if (!Array.isArray(groupBy) || !groupBy.every((field) => typeof field === 'string' && field.trim() !== '')) {
+        throw invalidAggregate('GROUP_BY_MUST_BE_AN_ARRAY_OF_FIELDS', 'groupBy', groupBy, 'array of fields');
+    }
+
+    // The having filter comes from clients like where filters
+    const limits = resolveFilterLimits(options.limits);
+    if (having !== undefined && limits) {
+        enforceFilterLimits(having, limits);
+    }
+
+    const selections = Object.entries(aggregates).map(([alias, selection]) => {
+        if (!aliasPattern.test(alias) || groupBy.includes(alias)) {
+            throw invalidAggregate(`INVALID_AGGREGATE_ALIAS ${alias}`, `aggregates.${alias}`, alias, 'identifier not used by a grouped field');
+        }
+        return { alias, ...aggregateFunction(alias, selection) };
+    });
+
+    // Grouped and aggregated fields end up in the result rows, so they must be selectable
+    const policy = resolveFilterPolicy(qb, undefined, options.policy);
+    if (policy) {
+        enforceSelectPolicy([...groupBy, ...selections.map(({ field }) => field).filter((field) => field !== '*')], policy);
+    }
+
+    const columns = new Map(groupBy.map((field) => [field, resolveColumn(qb, field)]));
+    const expressions = new Map(selections.map(({ alias, name, field, distinct }) => {
+        const argument = field === '*' ? '*' : resolveColumn(qb, field);
+        return [alias, `${aggregateFunctions[name].sql}(${distinct ? 'DISTINCT ' : ''}${argument})`];
+    }));
+
+    // Only rows of the scopes are grouped
+    applyScopesQB(qb, qb.alias, options);
+
+    qb.select([]);
+    columns.forEach((expression, field) => qb.addSelect(expression, field).addGroupBy(expression));
+    expressions.forEach((expression, alias) => qb.addSelect(expression, alias));
+
+    if (having !== undefined) {
+        // Aggregates are compared as their expression, not every dialect accepts select aliases in HAVING
+        const resolveField = (field: string) => {
+            const expression = expressions.get(field) ?? columns.get(field);
+            if (expression === undefined) {
+                throw new FilterValidationError(`UNKNOWN_HAVING_FIELD ${field}`, { code: 'UNKNOWN_FIELD', value: field, expected: 'aggregate alias or grouped field' });
+            }
+            return expression;
+        };
+
+        const now = options.clock ? options.clock() : new Date();
+        const conditionOptions = {
+            dialect: resolveDialect(qb, options.dialect), operators: options.operators, clock: () => now, timezone: options.timezone ?? 'UTC', context: compileContextFor(qb),
+        };
+        const errors: FilterError[] | undefined = options.collectErrors ? [] : undefined;
+        const compiled = { fields: [], constants: {}, parameters: {} };
+        const clauses = compileConditions(qb, having, resolveField, conditionOptions, '', compiled, errors);
+        clauses.forEach((clause, index) => qb.andHaving(clause, index === 0 ? compiled.parameters : undefined));
+        throwFilterErrors(errors);
+    }
+
+    if (sort !== undefined) {
+        const sortable = policy?.sortable && [...policy.sortable, ...expressions.keys()];
+        applySortOrderQB<any>(qb, sort, {
+            dialect: options.dialect,
+            limits: options.limits,
+            expressions: Object.fromEntries(expressions),
+            policy: policy && { ...policy, sortable },
+        });
+    }
+
+    return qb;
+}
+
+/**
+ * Runs a grouped aggregate query and returns its raw rows, see `applyAggregateQB`.
+ *
+ * `$count`, `$sum` and `$avg` are returned as numbers, drivers return some of them as strings (PostgreSQL `bigint`
+ * and `numeric`, MySQL `DECIMAL`). Grouped fields, `$min` and `$max` are returned as the driver reads them.
+ *
+ * @param {SelectQueryBuilder<any>} qb - The TypeORM Query Builder instance.
+ * @param {AggregateSpec} spec - The grouped fields, the aggregate selections by alias, the `having` filter and the `sort`.
+ * @param {ApplyConditionsOptions} options - Optional settings, see `applyAggregateQB`.
+ * @returns {Promise<R[]>} - A row per group with the grouped fields and the aggregates.
+ *
+ * Example usage:
+ * ```typescript
+ * const rows = await aggregateQB<{ status: string; orders: number }>(qb, { groupBy: ['status'], aggregates: { orders: { $count: '*' } } });
+ * ```
+ */
+async function aggregateQB<R extends ObjectLiteral = Record<string, any>>(qb: SelectQueryBuilder<any>, spec: AggregateSpec, options: ApplyConditionsOptions = {}): Promise<R[]> {
+    applyAggregateQB(qb, spec, options);
+
+    const numeric = Object.entries(spec.aggregates).filter(([, selection]) => aggregateFunctions[Object.keys(selection).find((key) => key !== 'distinct')!].numeric);
+    const rows = await qb.getRawMany();
+    return rows.map((row) => {
+        numeric.forEach(([alias]) => {
+            if (typeof row[alias] === 'string') {
+                row[alias] = Number(row[alias]);
+            }
+        });
+        return row as R;
+    });
+}
+
+export default aggregateQB;
@@ -1,20 +1,31 @@
 import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
-import applyWhereConditionQB from './qb-apply-where-condition';
+import applyWhereConditionsQB from './qb-apply-where-conditions';
+import { Filter } from './filter-types';
 
 /**
- * Applies filters to a TypeORM Query Builder.
+ * Applies filters to a TypeORM Query Builder, ANDed to its where clause like `applyWhereConditionsQB` with `andWhere`,
+ * including `$and`, `$or`, `$nor` and `$not` groups, JSON path fields and `$some`, `$none` and `$every` on relations.
  *
  * @param {SelectQueryBuilder<T>} queryBuilder - The TypeORM Query Builder instance.
  * @param {string} alias - The alias used in the query.
- * @param {any} filter - The filter object.
+ * @param {Filter<T, V>} filter - The filter object, its fields and operator values are checked against the entity type `T`
+ *   and the names of the `virtualFields` option.
+ * @param {ApplyConditionsOptions} options - Optional settings, `dialect` overrides the dialect taken from the query builder's connection,
+ *   `validate` checks every field against the entity metadata and coerces the values,
+ *   `policy` restricts the filterable fields and operators, `collectErrors` reports every error of the filter at once,
+ *   `clock` and `timezone` resolve relative dates and the date operators,
+ *   `scopes`, `scopeContext` and `disableScopes` control the filter scopes applied to the alias,
+ *   `virtualFields` adds virtual fields to the ones registered for the entity, `limits` bounds the complexity of the filter,
+ *   `cache` reuses the SQL compiled for filters of the same shape.
+ * @throws {FilterError} - If a condition cannot be parsed, or a `FilterAggregateError` with every error when `collectErrors` is set.
  */
-function applyFiltersQB<T extends ObjectLiteral>(queryBuilder: SelectQueryBuilder<T>, alias: string, filter: any): void {
-    Object.keys(filter).forEach((field) => {
-        const value = filter[field];
-
-        // Apply standard conditions
-        applyWhereConditionQB(queryBuilder, alias, field, value, 'andWhere');
-    });
+function applyFiltersQB<T extends ObjectLiteral, V extends string = never>(
+    queryBuilder: SelectQueryBuilder<T>,
+    alias: string,
+    filter: Filter<T, NoInfer<V>>,
+    options: ApplyConditionsOptions & { virtualFields?: Record<V, VirtualField> } = {}
+): void {
+    applyWhereConditionsQB(queryBuilder, 'andWhere', filter, alias, options);
 }
 
 export default applyFiltersQB;
@@ -0,0 +1,144 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { enforceSelectPolicy, resolveFilterPolicy } from './enforce-filter-policy';
+import resolveFieldPath, { ensureJoin } from './resolve-field-path';
+import { aliasMetadataLookup } from './entity-metadata';
+import { FilterValidationError, withFilterPath } from './filter-errors';
+
+/**
+ * Builds the error thrown for an invalid part of a select spec.
+ */
+function invalidSelect(message: string, path: string | undefined, value: any, expected: string): FilterValidationError {
+    return new FilterValidationError(message, { code: 'INVALID_SELECT', path, value, expected });
+}
+
+/**
+ * Flattens a select spec into dotted field paths, `{ author: { name: 1 } }` becomes `['author.name']`.
+ */
+function flattenSelect(select: SelectSpec, prefix: string, paths: string[]): string[] {
+    if (Array.isArray(select)) {
+        select.forEach((field, index) => {
+            if (typeof field !== 'string' || field.trim() === '') {
+                throw invalidSelect(`INVALID_SELECT_FIELD ${String(field)}`, `[${index}]`, field, 'field name');
+            }
+            paths.push(`${prefix}${field.trim()}`);
+        });
+        return paths;
+    }
+
+    if (typeof select !== 'object' || select === null) {
+        throw invalidSelect('SELECT_MUST_BE_AN_ARRAY_OR_AN_OBJECT', prefix ? prefix.slice(0, -1) : undefined, select, 'array of fields or projection object');
+    }
+
+    Object.entries(select).forEach(([field, value]) => {
+        if (value === 1 || value === true) {
+            paths.push(`${prefix}${field}`);
+        } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            flattenSelect(value, `${prefix}${field}.`, paths);
+        } else {
+            throw invalidSelect(`INVALID_SELECT_VALUE ${String(value)} FOR_FIELD ${prefix}${field}`, `${prefix}${field}`, value, '1, true or a nested projection');
+        }
+    });
+
+    return paths;
+}
+
+/**
+ * Returns the join attribute that introduced an alias, if any.
+ */
+function joinOf(qb: SelectQueryBuilder<any>, alias: string): any {
+    return qb.expressionMap.joinAttributes.find((join) => join.alias.name === alias);
+}
+
+/**
+ * Applies a field projection to a TypeORM Query Builder, replacing its current selection.
+ *
+ * Fields are resolved like filter fields: dotted relation paths of any depth are joined with `leftJoin`
+ * (reusing existing joins) and aliases joined by the caller can be used as first segment. Naming a relation
+ * selects the whole related entity. The primary key of every selected entity is always kept so entities
+ * still hydrate.
+ *
+ * @param {SelectQueryBuilder<T>} qb - The TypeORM Query Builder instance.
+ * @param {SelectSpec} select - A projection like `{ id: 1, author: { name: 1 } }` or a list like `['id', 'author.name']`.
+ * @param {ApplySelectOptions} options - Optional settings, `policy` restricts the selectable fields.
+ * @returns {SelectQueryBuilder<T>} - The updated Query Builder with the projection applied.
+ * @throws {FilterValidationError} - If the spec is malformed or a field is unknown, with the path of the field.
+ * @throws {FilterPolicyError} - If a field may not be selected.
+ *
+ * Example usage:
+ * ```typescript
+ * const qb = postRepository.createQueryBuilder('post');
+ * applySelectQB(qb, { title: 1, author: { name: 1 } });
+ * // SELECT post.id, post.title, post_author.id, post_author.name ... LEFT JOIN user post_author ...
+ * ```
+ */
+function applySelectQB<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    select: SelectSpec,
+    options: ApplySelectOptions = {}
+): SelectQueryBuilder<T> {
+    let fields = flattenSelect(select, '', []);
+    if (fields.length === 0) {
+        // Nothing to project, keep the current selection
+        return qb;
+    }
+
+    const policy = resolveFilterPolicy(qb, undefined, options.policy);
+    if (policy) {
+        fields = enforceSelectPolicy(fields, policy);
+    }
+
+    const aliasMetadata = aliasMetadataLookup(qb);
+    const selections = new Set<string>();
+    const wholeAliases = new Set<string>();
+    const aliases = new Set<string>([qb.alias]);
+
+    fields.forEach((field) => {
+        // Resolve dotted relation paths, sharing joins with the filters and sorting of the same query builder
+        let expression: string;
+        try {
+            expression = resolveFieldPath(qb, qb.alias, field);
+        } catch (error) {
+            throw withFilterPath(error, field);
+        }
+        const [alias, ...rest] = expression.split('.');
+        const propertyPath = rest.join('.');
+        const metadata = aliasMetadata(alias);
+
+        if (!metadata) {
+            // A sub query or raw alias, selected as given
+            selections.add(expression);
+            return;
+        }
+
+        if (metadata.findRelationWithPropertyPath(propertyPath)) {
+            // A relation selects the whole related entity, not just its join column
+            const joinedAlias = ensureJoin(qb, alias, propertyPath);
+            selections.add(joinedAlias);
+            wholeAliases.add(joinedAlias);
+            aliases.add(alias);
+        } else if (metadata.findColumnsWithPropertyPath(propertyPath).length > 0) {
+            selections.add(expression);
+            aliases.add(alias);
+        } else {
+            throw new FilterValidationError(`UNKNOWN_FIELD ${field}`, { code: 'UNKNOWN_FIELD', path: field, value: field });
+        }
+    });
+
+    // Intermediate relations of deep paths must be selected too, or their nested entities do not hydrate
+    aliases.forEach((alias) => {
+        for (let join = joinOf(qb, alias); join?.parentAlias; join = joinOf(qb, join.parentAlias)) {
+            aliases.add(join.parentAlias);
+        }
+    });
+
+    // Keep the primary keys so every selected entity hydrates
+    aliases.forEach((alias) => {
+        if (!wholeAliases.has(alias)) {
+            aliasMetadata(alias)?.primaryColumns.forEach((column) => selections.add(`${alias}.${column.propertyPath}`));
+        }
+    });
+
+    return qb.select([...selections]);
+}
+
+export default applySelectQB;
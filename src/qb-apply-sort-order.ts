@@ -1,33 +1,280 @@
-import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { EntityTarget, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { enforceSortPolicy, resolveFilterPolicy } from './enforce-filter-policy';
+import { FilterValidationError, withFilterPath } from './filter-errors';
+import { searchRank } from './builtin-operators';
+import resolveDialect from './resolve-dialect';
+import resolveFieldPath from './resolve-field-path';
+import compileContextFor from './compile-context';
+import parseJsonPath, { jsonPathExpression } from './json-path';
+import { Sort } from './filter-types';
+import { findVirtualField, resolveVirtualFields, virtualFieldExpression } from './virtual-fields';
+import { enforceSortLimits, resolveFilterLimits } from './filter-limits';
+import entityKey, { aliasMetadataLookup, findRegistered } from './entity-metadata';
+
+const registeredExpressions = new Map<EntityTarget<any>, Record<string, SortExpression>>();
+
+// Every accepted sort order value and its SQL direction
+const sortDirections = new Map<SortOrder, 'ASC' | 'DESC'>([
+    ['ascend', 'ASC'], ['asc', 'ASC'], ['ascending', 'ASC'], [1, 'ASC'],
+    ['descend', 'DESC'], ['desc', 'DESC'], ['descending', 'DESC'], [-1, 'DESC'],
+]);
+
+// Prefix of the aliases computed order expressions are selected under
+const ORDER_SELECT_PREFIX = '__order_';
+
+/**
+ * A sort key resolved against a query builder, ready to be ordered by.
+ */
+export interface OrderKey {
+    field: string;
+    /** The SQL expression, e.g. `post.title`, `LOWER(post.title)` or a `CASE` over a value list. */
+    expression: string;
+    direction: 'ASC' | 'DESC';
+    nulls?: 'first' | 'last';
+    /** The expression NULL checks are made on, the field without `LOWER`/`CASE`. */
+    nullsExpression: string;
+    /** Whether the key orders by the position in a value list, which is never NULL. */
+    ranked: boolean;
+    parameters: Record<string, any>;
+}
+
+/**
+ * Maps a sort order value to the SQL direction.
+ *
+ * @param {SortOrder} value - One of 'ascend', 'descend', 'asc', 'desc', 'ascending', 'descending', 1, or -1.
+ * @param {string} field - The sort key, reported as path when the value is invalid.
+ * @returns {'ASC' | 'DESC'} - The SQL sort direction.
+ * @throws {FilterValidationError} - If the value is not a sort order.
+ */
+export function sortDirection(value: SortOrder, field?: string): 'ASC' | 'DESC' {
+    const direction = sortDirections.get(value);
+    if (!direction) {
+        throw new FilterValidationError(`INVALID_SORT_ORDER ${String(value)}`, {
+            code: 'INVALID_SORT', path: field, value, expected: [...sortDirections.keys()].join(', '),
+        });
+    }
+    return direction;
+}
+
+/**
+ * Turns a sort object or list into an ordered list of sort keys, checking every key.
+ *
+ * @param {SortSpec} sort - An object of fields and sort orders (or key options), or a list of sort keys.
+ * @returns {SortKey[]} - The sort keys in the order they apply.
+ * @throws {FilterValidationError} - If a sort key is malformed.
+ */
+export function normalizeSort(sort: SortSpec): SortKey[] {
+    if (typeof sort !== 'object' || sort === null) {
+        throw new FilterValidationError('SORT_MUST_BE_AN_OBJECT_OR_AN_ARRAY', { code: 'INVALID_SORT', value: sort, expected: 'object or array' });
+    }
+
+    const keys: SortKey[] = Array.isArray(sort)
+        ? sort
+        : Object.entries(sort).map(([field, value]) => typeof value === 'object' && value !== null ? { ...value, field } : { field, order: value });
+
+    keys.forEach((key, index) => {
+        if (typeof key !== 'object' || key === null || typeof key.field !== 'string' || key.field.trim() === '') {
+            throw new FilterValidationError('SORT_KEY_MUST_HAVE_A_FIELD', { code: 'INVALID_SORT', path: `[${index}]`, value: key, expected: '{ field: string }' });
+        }
+        if (key.order !== undefined) {
+            sortDirection(key.order, key.field);
+        }
+        if (key.nulls !== undefined && key.nulls !== 'first' && key.nulls !== 'last') {
+            throw new FilterValidationError(`INVALID_SORT_NULLS ${String(key.nulls)}`, { code: 'INVALID_SORT', path: key.field, value: key.nulls, expected: 'first, last' });
+        }
+        if (key.values !== undefined && (!Array.isArray(key.values) || key.values.length === 0)) {
+            throw new FilterValidationError('SORT_VALUES_MUST_BE_A_NON_EMPTY_ARRAY', { code: 'INVALID_SORT', path: key.field, value: key.values, expected: 'non-empty array' });
+        }
+    });
+
+    return keys;
+}
+
+/**
+ * Registers computed sort expressions of an entity, sorted by name like fields.
+ *
+ * @param entity - The entity class, schema or name.
+ * @param name - The sort key clients use, e.g. `fullName`.
+ * @param expression - SQL such as `LENGTH(user.name)` or a function building it from the query builder alias,
+ *                     `undefined` removes the expression.
+ *
+ * Example usage:
+ * ```typescript
+ * registerSortExpression(User, 'fullName', (alias) => `${alias}.lastName || ' ' || ${alias}.firstName`);
+ * applySortOrderQB(userRepository.createQueryBuilder('user'), { fullName: 'asc' });
+ * ```
+ */
+export function registerSortExpression(entity: EntityTarget<any>, name: string, expression: SortExpression | undefined): void {
+    const key = entityKey(entity);
+    const expressions = { ...(registeredExpressions.get(key) ?? {}) };
+    if (expression === undefined) {
+        delete expressions[name];
+    } else {
+        expressions[name] = expression;
+    }
+    registeredExpressions.set(key, expressions);
+}
+
+/**
+ * Returns the computed sort expression of a sort key, if there is one.
+ */
+function findExpression(qb: SelectQueryBuilder<any>, field: string, expressions: Record<string, SortExpression> | undefined): SortExpression | undefined {
+    if (expressions && Object.prototype.hasOwnProperty.call(expressions, field)) {
+        return expressions[field];
+    }
+
+    const registered = findRegistered(registeredExpressions, aliasMetadataLookup(qb)());
+    return registered && Object.prototype.hasOwnProperty.call(registered, field) ? registered[field] : undefined;
+}
+
+/**
+ * Resolves sort keys to the expressions they order by, joining the relations of dotted paths.
+ *
+ * @param qb - The query builder the sort applies to.
+ * @param keys - The sort keys, see `normalizeSort`.
+ * @param options - Computed sort `expressions` and `virtualFields` passed explicitly and the `dialect` to generate SQL for.
+ * @returns {OrderKey[]} - The expressions, directions and parameters of the sort keys.
+ */
+export function resolveOrderKeys(qb: SelectQueryBuilder<any>, keys: SortKey[], options: ApplySortOptions = {}): OrderKey[] {
+    const dialect = resolveDialect(qb, options.dialect);
+    const context = compileContextFor(qb);
+
+    const virtualFields = resolveVirtualFields(qb, undefined, options.virtualFields);
+
+    return keys.map((key) => {
+        let computed = findExpression(qb, key.field, options.expressions);
+        const virtual = computed === undefined ? findVirtualField(virtualFields, key.field) : undefined;
+        if (virtual) {
+            // Expanded virtual fields are filters, there is no value to order by
+            if (virtual.expression === undefined) {
+                throw new FilterValidationError(`VIRTUAL_FIELD_IS_NOT_SORTABLE ${key.field}`, { code: 'INVALID_SORT', path: key.field, value: key.field, expected: 'field or virtual field with an expression' });
+            }
+            computed = virtualFieldExpression(key.field, virtual, qb.alias);
+        }
+        const jsonPath = computed === undefined ? parseJsonPath(key.field) : undefined;
+        let field: string;
+        try {
+            field = computed === undefined
+                // Resolve dotted relation paths, sharing joins with the filters of the same query builder
+                ? resolveFieldPath(qb, qb.alias, jsonPath ? jsonPath.column : key.field)
+                : typeof computed === 'function' ? computed(qb.alias) : computed;
+        } catch (error) {
+            throw withFilterPath(error, key.field);
+        }
+        const parameters: Record<string, any> = {};
+
+        if (jsonPath) {
+            // Order by a value extracted from a JSON column, compared as text unless cast
+            const extracted = jsonPathExpression(field, jsonPath.segments, jsonPath.cast ?? 'text', context.nextParam(), dialect);
+            field = extracted.query;
+            Object.assign(parameters, extracted.parameters);
+        }
+
+        if (key.search !== undefined) {
+            // Order by the full-text rank of the field, see the $search operator
+            const rank = searchRank(field, key.search, context.nextParam(), dialect);
+            field = rank.query;
+            Object.assign(parameters, rank.parameters);
+        }
+
+        let expression = key.caseInsensitive ? `LOWER(${field})` : field;
+
+        if (key.values) {
+            // Order by the position of the value in the list, unlisted values come last
+            const branches = key.values.map((value, index) => {
+                if (value === null) {
+                    return `WHEN ${field} IS NULL THEN ${index}`;
+                }
+                const param = context.nextParam();
+                parameters[param] = key.caseInsensitive && typeof value === 'string' ? value.toLowerCase() : value;
+                return `WHEN ${expression} = :${param} THEN ${index}`;
+            });
+            expression = `CASE ${branches.join(' ')} ELSE ${key.values.length} END`;
+        }
+
+        return { field: key.field, expression, direction: sortDirection(key.order ?? 'asc', key.field), nulls: key.nulls, nullsExpression: field, ranked: key.values !== undefined, parameters };
+    });
+}
+
+/**
+ * Returns what to order by for an expression. TypeORM maps `alias.property` paths and select aliases to the columns of
+ * the distinct entity query `skip`/`take` run over joins, other expressions are selected under an alias and ordered by it.
+ * Grouped queries return their raw rows, which the extra column would show up in, and need no distinct query.
+ */
+function orderCriteria(qb: SelectQueryBuilder<any>, expression: string): string {
+    const { selects, groupBys } = qb.expressionMap;
+    if (/^\w+(\.\w+)+$/.test(expression) || groupBys.length > 0 || selects.some((select) => select.selection === expression)) {
+        return expression;
+    }
+    const alias = `${ORDER_SELECT_PREFIX}${selects.filter((select) => select.aliasName?.startsWith(ORDER_SELECT_PREFIX)).length}`;
+    qb.addSelect(expression, alias);
+    return alias;
+}
 
 /**
  * Applies sorting to a TypeORM Query Builder.
  *
+ * Sort keys apply in the order given. A key can place NULLs first or last (emulated with a `CASE` on MySQL
+ * and SQL Server, which have no `NULLS FIRST/LAST`), compare case-insensitively, follow the order of a
+ * value list, sort by the full-text rank of a search or sort by a computed expression registered with `registerSortExpression`
+ * or the expression of a virtual field registered with `registerVirtualField`.
+ * JSON path fields (`metadata->price::numeric`) sort by the value extracted from the JSON column, as text unless cast.
+ * Order expressions other than plain fields are selected under `__order_<n>` aliases and ordered by the alias.
+ *
  * @param {SelectQueryBuilder<T>} queryBuilder - The TypeORM Query Builder instance.
- * @param {Record<string, SortOrder>} sort - An object where keys are field names and values are sort orders.
- *   - Values can be: 'ascend', 'descend', 'asc', 'desc', 'ascending', 'descending', 1, or -1.
+ * @param {Sort<T, E>} sort - An object where keys are field names and values are sort orders or key options, or an ordered list of sort keys.
+ *   Fields are checked against the entity type `T`, `E` names the computed expressions that can be sorted by as well.
+ *   - Sort orders can be: 'ascend', 'descend', 'asc', 'desc', 'ascending', 'descending', 1, or -1.
+ * @param {ApplySortOptions} options - Optional settings, `policy` restricts the sortable fields and number of sort keys,
+ *   `dialect` overrides the dialect taken from the query builder's connection, `expressions` adds computed sort expressions,
+ *   `virtualFields` adds virtual fields, `limits` bounds the number of sort keys and the size of their value lists.
  * @returns {SelectQueryBuilder<T>} - The updated Query Builder with applied sorting.
+ * @throws {FilterValidationError} - If a sort order or sort key is invalid.
+ * @throws {FilterLimitError} - If the sort exceeds a complexity limit.
+ *
+ * Example usage:
+ * ```typescript
+ * applySortOrderQB(qb, [
+ *     { field: 'status', values: ['open', 'pending', 'closed'] },
+ *     { field: 'name', order: 'asc', nulls: 'last', caseInsensitive: true },
+ * ]);
+ * // SELECT ..., CASE WHEN post.status = :p THEN 0 ... ELSE 3 END AS __order_0, LOWER(post.name) AS __order_1
+ * // ORDER BY __order_0 ASC, __order_1 ASC NULLS LAST
+ * ```
  */
-function applySortOrderQB<T extends ObjectLiteral>(
-    queryBuilder: SelectQueryBuilder<T>, 
-    sort: Record<string, SortOrder>
+function applySortOrderQB<T extends ObjectLiteral, E extends string = never>(
+    queryBuilder: SelectQueryBuilder<T>,
+    sort: Sort<T, NoInfer<E>>,
+    options: ApplySortOptions & { expressions?: Record<E, SortExpression>; virtualFields?: Record<E, VirtualField> } = {}
 ): SelectQueryBuilder<T> {
-    Object.entries(sort).forEach(([key, value]) => {
-        // Determine the sort order
-        const order = value === 'ascend' || value === 'asc' || value === 'ascending' || value === 1 ? 'ASC' : 'DESC';
+    let spec = sort as SortSpec;
+    const limits = resolveFilterLimits(options.limits);
+    if (limits) {
+        enforceSortLimits(spec, limits);
+    }
 
-        // Dynamically handle nested fields
-        let fieldAlias = `${queryBuilder.alias}.${key}`;
-        if (key.includes('.')) {
-            const [relation, relatedField] = key.split('.');
-            fieldAlias = `${relation}.${relatedField}`;
-        }
+    const policy = resolveFilterPolicy(queryBuilder, undefined, options.policy);
+    if (policy) {
+        spec = enforceSortPolicy(spec, policy);
+    }
+
+    const dialect = resolveDialect(queryBuilder, options.dialect);
 
-        // Apply the sort order to the query builder
-        queryBuilder.addOrderBy(fieldAlias, order);
+    resolveOrderKeys(queryBuilder, normalizeSort(spec), options).forEach((key) => {
+        queryBuilder.setParameters(key.parameters);
+
+        if (!key.nulls) {
+            queryBuilder.addOrderBy(orderCriteria(queryBuilder, key.expression), key.direction);
+        } else if ((dialect === 'postgres' || dialect === 'sqlite') && !key.ranked) {
+            queryBuilder.addOrderBy(orderCriteria(queryBuilder, key.expression), key.direction, key.nulls === 'first' ? 'NULLS FIRST' : 'NULLS LAST');
+        } else {
+            // Emulate NULLS FIRST/LAST by ordering on the NULL check first
+            queryBuilder.addOrderBy(orderCriteria(queryBuilder, `CASE WHEN ${key.nullsExpression} IS NULL THEN 1 ELSE 0 END`), key.nulls === 'first' ? 'DESC' : 'ASC');
+            queryBuilder.addOrderBy(orderCriteria(queryBuilder, key.expression), key.direction);
+        }
     });
 
     return queryBuilder;
 }
 
-export default applySortOrderQB;
\ No newline at end of file
+export default applySortOrderQB;
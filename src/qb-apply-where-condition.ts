@@ -1,5 +1,17 @@
 import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
 import parseCondition from './parse-condition';
+import resolveDialect from './resolve-dialect';
+import resolveFieldPath from './resolve-field-path';
+import { resolveAliasMetadata, validateCondition } from './validate-filter';
+import { aliasMetadataLookup } from './entity-metadata';
+import enforceFilterPolicy, { resolveFilterPolicy } from './enforce-filter-policy';
+import { withFilterPath } from './filter-errors';
+import compileContextFor from './compile-context';
+import { applyScopesQB } from './filter-scopes';
+import enforceFilterLimits, { resolveFilterLimits } from './filter-limits';
+import { findVirtualField, resolveVirtualFields, virtualFieldExpression } from './virtual-fields';
+import applyWhereConditionsQB from './qb-apply-where-conditions';
+import { Filter } from './filter-types';
 
 /**1
  * Applies a condition to a TypeORM Query Builder.
@@ -9,9 +21,49 @@ import parseCondition from './parse-condition';
  * @param {string} field - The field name.
  * @param {any} condition - The condition value.
  * @param {'andWhere' | 'orWhere'} whereMethod - The method to use for applying the condition.
+ * @param {ApplyConditionsOptions} options - Optional settings, `dialect` overrides the dialect taken from the query builder's connection,
+ *   `validate` checks the field against the entity metadata and coerces the values,
+ *   `policy` restricts the filterable fields and operators, `operators` resolves the condition operators with its own registry,
+ *   `clock` and `timezone` resolve relative dates and the date operators, `scopes`, `scopeContext` and `disableScopes`
+ *   control the filter scopes applied to the alias, `virtualFields` adds virtual fields to the ones registered for the entity,
+ *   `limits` bounds the complexity of the condition.
+ * @throws {FilterError} - If the condition cannot be parsed, with the field as filter path.
  */
-function applyWhereConditionQB<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, alias: string, field: string, condition: any, whereMethod: 'andWhere' | 'orWhere' = 'andWhere'): void {
-  const { query, parameters } = parseCondition({ conditionFor: "qb", fieldAlias: `${alias}.${field}`, condition });
-  qb[whereMethod](query, parameters);
+function applyWhereConditionQB<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, alias: string, field: string, condition: any, whereMethod: 'andWhere' | 'orWhere' = 'andWhere', options: ApplyConditionsOptions = {}): void {
+  const dialect = resolveDialect(qb, options.dialect);
+  const limits = resolveFilterLimits(options.limits);
+  if (limits) {
+    enforceFilterLimits({ [field]: condition }, limits);
+  }
+  const policy = resolveFilterPolicy(qb, alias, options.policy);
+  if (policy) {
+    const allowed = enforceFilterPolicy({ [field]: condition }, policy);
+    // The whole condition was stripped by the policy
+    if (!(field in allowed)) {
+      applyScopesQB(qb, alias, options);
+      return;
+    }
+    condition = allowed[field];
+  }
+  const virtual = findVirtualField(resolveVirtualFields(qb, alias, options.virtualFields), field);
+  if (virtual?.expand) {
+    // The expanded filter may combine several fields and groups
+    applyWhereConditionsQB<T>(qb, whereMethod, { [field]: condition } as Filter<T>, alias, options);
+    return;
+  }
+  try {
+    if (options.validate && !virtual) {
+      const metadata = options.validate === true ? resolveAliasMetadata(qb, alias) : options.validate;
+      condition = validateCondition(metadata, field, condition, aliasMetadataLookup(qb));
+    }
+    const fieldAlias = virtual ? virtualFieldExpression(field, virtual, alias) : resolveFieldPath(qb, alias, field);
+    const { query, parameters } = parseCondition({ conditionFor: "qb", fieldAlias, condition, dialect, operators: options.operators, clock: options.clock, timezone: options.timezone,
+      context: options.context ?? compileContextFor(qb),
+    });
+    qb[whereMethod](query, parameters);
+  } catch (error) {
+    throw withFilterPath(error, field);
+  }
+  applyScopesQB(qb, alias, options);
 }
 export default applyWhereConditionQB;
\ No newline at end of file
@@ -1,75 +1,318 @@
-import { Brackets, WhereExpressionBuilder } from "typeorm";
+import { ObjectLiteral, QueryBuilder, SelectQueryBuilder, WhereExpressionBuilder } from "typeorm";
 import parseCondition from "./parse-condition";
+import resolveDialect from "./resolve-dialect";
+import resolveFieldPath from "./resolve-field-path";
+import validateFilter, { resolveAliasMetadata } from "./validate-filter";
+import { aliasMetadataLookup } from "./entity-metadata";
+import enforceFilterPolicy, { resolveFilterPolicy } from "./enforce-filter-policy";
+import compileContextFor, { CompileContext, ParameterBinding } from "./compile-context";
+import { CompiledFilter } from "./filter-cache";
+import { Filter } from "./filter-types";
+import { defaultOperatorRegistry } from "./operator-registry";
+import { isRelationFilter, relationSubQuery } from "./relation-filter";
+import parseJsonPath, { jsonPathCast, jsonPathExpression } from "./json-path";
+import { applyScopesQB } from "./filter-scopes";
+import enforceFilterLimits, { resolveFilterLimits } from "./filter-limits";
+import { expandVirtualFields, findVirtualField, resolveVirtualFields, virtualFieldExpression } from "./virtual-fields";
+import { collectFilterError, FilterError, FilterValidationError, throwFilterErrors, withFilterPath } from "./filter-errors";
+
+/**
+ * Joins the clauses of a group the way TypeORM renders `Brackets` (`(a OR b)`) and `NotBrackets` (`NOT((a OR b))`).
+ */
+export const groupClauses = (qb: WhereExpressionBuilder, clauses: string[], joiner: 'AND' | 'OR', negate: boolean): string => {
+    if (clauses.length === 0) {
+        return negate ? 'NOT(1=1)' : '1=1';
+    }
+
+    const isolate = qb instanceof QueryBuilder && qb.connection.options.isolateWhereStatements;
+    const joined = clauses.map((clause) => isolate ? `(${clause})` : clause).join(` ${joiner} `);
+    if (!negate) {
+        return `(${joined})`;
+    }
+    return clauses.length === 1 ? `NOT(${joined})` : `NOT((${joined}))`;
+};
+
+/**
+ * Resolves the expression a field is compared as, extracting and casting the value of JSON path fields (`metadata->price`).
+ * The path is bound as a parameter that is part of the shape of the filter.
+ */
+const compileFieldAlias = (
+    field: string,
+    condition: any,
+    resolveField: (field: string) => string,
+    options: ConditionOptions & { context: CompileContext },
+    compiled: Pick<CompiledFilter, 'fields' | 'constants'> & { parameters: Record<string, any> }
+): string => {
+    const jsonPath = parseJsonPath(field);
+    if (!jsonPath) {
+        const fieldAlias = resolveField(field);
+        compiled.fields.push({ field, fieldAlias });
+        return fieldAlias;
+    }
+
+    const column = resolveField(jsonPath.column);
+    const { query, parameters } = jsonPathExpression(
+        column, jsonPath.segments, jsonPath.cast ?? jsonPathCast(condition), options.context.nextParam(), resolveDialect(undefined, options.dialect));
+    compiled.fields.push({ field: jsonPath.column, fieldAlias: column });
+    Object.assign(compiled.constants, parameters);
+    Object.assign(compiled.parameters, parameters);
+    return query;
+};
+
+/**
+ * Compiles already prepared conditions into where clauses, recursing into `$and`/`$or`/`$nor`/`$not` groups.
+ * `resolveField` returns the SQL expression a field is compared as, e.g. a column or an aggregate.
+ * Errors are tagged with the filter path of the failing condition and collected into `errors` when given.
+ */
+export const compileConditions = (
+    qb: WhereExpressionBuilder,
+    conditions: any,
+    resolveField: (field: string) => string,
+    options: ConditionOptions & { context: CompileContext },
+    path: string,
+    compiled: Pick<CompiledFilter, 'fields' | 'constants'> & { parameters: Record<string, any> },
+    errors: FilterError[] | undefined
+): string[] => {
+    const clauses: string[] = [];
+
+    for (const field in conditions) {
+        if (Object.prototype.hasOwnProperty.call(conditions, field)) {
+            const condition = conditions[field];
+            const fieldPath = path ? `${path}.${field}` : field;
+
+            try {
+                if (field === '$and' || field === '$or' || field === '$nor') {
+                    if (!Array.isArray(condition)) {
+                        throw new FilterValidationError(`${field.toUpperCase()}_OPERATOR_MUST_HAVE_AN_ARRAY_OF_OBJECTS`, {
+                            code: 'INVALID_LOGICAL_OPERATOR', operator: field, value: condition, expected: 'array of filters',
+                        });
+                    }
+
+                    // $nor is NOT (a OR b), so its filters are OR-ed inside negated brackets
+                    const nested = condition.flatMap((nestedCondition: any, index: number) => options.context.within([field, index], () =>
+                        compileConditions(qb, nestedCondition, resolveField, options, `${fieldPath}[${index}]`, compiled, errors)));
+                    clauses.push(groupClauses(qb, nested, field === '$and' ? 'AND' : 'OR', field === '$nor'));
+                } else if (field === '$not') {
+                    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+                        throw new FilterValidationError('$NOT_OPERATOR_MUST_HAVE_AN_OBJECT', {
+                            code: 'INVALID_LOGICAL_OPERATOR', operator: field, value: condition, expected: 'filter object',
+                        });
+                    }
+
+                    const nested = options.context.within([field], () => compileConditions(qb, condition, resolveField, options, fieldPath, compiled, errors));
+                    clauses.push(groupClauses(qb, nested, 'AND', true));
+                } else if (isRelationFilter(condition)) {
+                    clauses.push(compileRelationFilter(qb, field, condition, resolveField, options, fieldPath, compiled, errors));
+                } else {
+                    const fieldAlias = compileFieldAlias(field, condition, resolveField, options, compiled);
+
+                    const { query, parameters } = options.context.within([field], () => parseCondition({
+                        conditionFor: 'qb',
+                        fieldAlias,
+                        condition,
+                        ...options,
+                    }));
+
+                    Object.assign(compiled.parameters, parameters);
+                    clauses.push(query);
+                }
+            } catch (error) {
+                // Keep the original error and its stack, only record where in the filter it was raised
+                collectFilterError(withFilterPath(error, fieldPath), errors);
+            }
+        }
+    }
+
+    return clauses;
+};
+
+/**
+ * Compiles the `$some`/`$none`/`$every` quantifiers of a relation into correlated `EXISTS`/`NOT EXISTS` sub queries,
+ * their filters are compiled against the related entities like any other filter.
+ */
+const compileRelationFilter = (
+    qb: WhereExpressionBuilder,
+    field: string,
+    condition: Record<string, any>,
+    resolveField: (field: string) => string,
+    options: ConditionOptions & { context: CompileContext },
+    path: string,
+    compiled: Pick<CompiledFilter, 'fields' | 'constants'> & { parameters: Record<string, any> },
+    errors: FilterError[] | undefined
+): string => {
+    const expression = resolveField(field);
+
+    const clauses = Object.entries(condition).map(([quantifier, filter]) => {
+        if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+            throw new FilterValidationError(`${quantifier.toUpperCase()}_OPERATOR_MUST_HAVE_A_FILTER_OBJECT`, {
+                code: 'INVALID_OPERATOR_VALUE', operator: quantifier, value: filter, expected: 'filter object',
+            });
+        }
+
+        // Relation paths of the nested filter are joined inside the sub query, its fields are not compared on the outer query
+        const { subQuery, alias } = relationSubQuery(qb, expression, field);
+        const nested = options.context.within([field, quantifier], () => compileConditions(
+            subQuery, filter, (nestedField) => resolveFieldPath(subQuery, alias, nestedField), options, `${path}.${quantifier}`, { fields: [], constants: compiled.constants, parameters: compiled.parameters }, errors));
+
+        if (quantifier === '$every') {
+            // A related entity the filter is not true for, UNKNOWN included, breaks $every
+            subQuery.andWhere(`CASE WHEN ${groupClauses(subQuery, nested, 'AND', false)} THEN 0 ELSE 1 END = 1`);
+        } else {
+            nested.forEach((clause) => subQuery.andWhere(clause));
+        }
+        return `${quantifier === '$some' ? 'EXISTS' : 'NOT EXISTS'} ${subQuery.getQuery()}`;
+    });
+
+    compiled.fields.push({ field, fieldAlias: expression });
+    return clauses.length === 1 ? clauses[0] : groupClauses(qb, clauses, 'AND', false);
+};
+
+/**
+ * Binds the values of a filter to the parameters of a cached filter of the same shape.
+ * Returns `undefined` when the filter cannot reuse it, e.g. a value is invalid or a relation is joined under another alias.
+ */
+const rebindFilter = (
+    conditions: any,
+    resolveField: (field: string) => string,
+    cached: CompiledFilter,
+    { now, timezone }: { now: Date; timezone: string }
+): Record<string, any> | undefined => {
+    if (cached.fields.some(({ field, fieldAlias }) => resolveField(field) !== fieldAlias)) {
+        return undefined;
+    }
+
+    const parameters: Record<string, any> = { ...cached.constants };
+    for (const { path, definition, context } of cached.bindings) {
+        const value = path.reduce((node: any, key) => node?.[key], conditions);
+        const operatorContext = { ...context, now, timezone };
+        if (value === undefined || value === null || (definition.validate && !definition.validate(value, operatorContext))) {
+            return undefined;
+        }
+        Object.assign(parameters, definition.toQB(value, operatorContext).parameters);
+    }
+    return parameters;
+};
 
 /**
  * Recursively applies filter conditions to a QueryBuilder's `where` clause.
  *
  * This utility function dynamically processes a given set of filter conditions and applies them
- * to the QueryBuilder instance. It supports `$and` and `$or` logical operators for nested conditions
- * and utilizes `parseCondition` for processing atomic conditions.
+ * to the QueryBuilder instance. It supports `$and`, `$or`, `$nor` and `$not` logical operators for nested
+ * conditions and utilizes `parseCondition` for processing atomic conditions. Relations are filtered by their
+ * related entities with `$some`, `$none` and `$every`, compiled to correlated `EXISTS` sub queries. JSON path fields
+ * (`metadata->price`) compare the value extracted from a JSON column, cast by the type of their values. Virtual fields
+ * compare their SQL expression or expand into a filter of stored fields, see `registerVirtualField`.
+ *
+ * Parameters are named `p0`, `p1`, ... in the order they are compiled, continuing across every helper applied
+ * to the same query builder, so the same filter shape always produces the same SQL text.
  *
  * @param qb - The TypeORM QueryBuilder's `WhereExpressionBuilder` instance to which conditions will be applied.
  * @param whereMethod - The method to use for combining conditions (`andWhere` or `orWhere`).
- * @param conditions - The filter conditions to apply. Supports logical operators (`$and`, `$or`) and field conditions.
+ * @param conditions - The filter conditions to apply. Supports logical operators (`$and`, `$or`, `$nor`, `$not`) and field conditions.
+ *   Typed as `Filter<T, V>` for a `SelectQueryBuilder<T>` and the `virtualFields` option, any object is accepted for untyped builders such as `Brackets`.
  * @param alias - The table alias to be prefixed to the field names in the query.
+ * @param options - Optional settings, `dialect` overrides the dialect taken from the QueryBuilder's connection,
+ *   `validate` checks fields against the entity metadata and coerces values before any SQL is built,
+ *   `policy` restricts the filterable fields and operators, `collectErrors` reports every error of the filter at once,
+ *   `operators` resolves the condition operators with its own registry, `clock` and `timezone` resolve relative dates
+ *   (`{ createdAt: { $gte: 'now-7d' } }`) and the date operators, every condition sees the same time,
+ *   `cache` reuses the SQL compiled for filters of the same shape and only binds the values,
+ *   `scopes`, `scopeContext` and `disableScopes` control the filter scopes applied to the alias, see `applyScopesQB`,
+ *   `virtualFields` adds virtual fields to the ones registered for the entity, `limits` bounds the complexity of the filter.
  *
- * @throws FlierlyException - Throws an exception if there's an error parsing a condition.
+ * @throws {FilterError} - If a condition cannot be parsed, with the filter path of the condition (e.g. `$or[1].author.name`).
+ * @throws {FilterAggregateError} - With every error of the filter when `collectErrors` is set.
+ * @throws {FilterLimitError} - If the filter exceeds a complexity limit.
  *
  * Example usage:
  * ```typescript
  * const qb = repository.createQueryBuilder('entity');
  * applyWhereConditionsQb(qb, 'andWhere', { name: 'John', $or: [{ age: 30 }, { age: 40 }] }, 'entity');
+ * // WHERE entity.name = :p0 AND (entity.age = :p1 OR entity.age = :p2)
  * ```
  */
-const applyWhereConditionsQB = (
-    qb: WhereExpressionBuilder,
+const applyWhereConditionsQB = <T extends ObjectLiteral = any, V extends string = never>(
+    qb: SelectQueryBuilder<T> | WhereExpressionBuilder,
     whereMethod: 'andWhere' | 'orWhere',
-    conditions: any,
-    alias: string
+    conditions: Filter<T, NoInfer<V>>,
+    alias: string,
+    options: ApplyConditionsOptions & { virtualFields?: Record<V, VirtualField> } = {}
 ) => {
-    for (const field in conditions) {
-        if (Object.prototype.hasOwnProperty.call(conditions, field)) {
-            const condition = conditions[field];
+    const dialect = resolveDialect(qb, options.dialect);
 
-            try {
-                if (field === '$and' || field === '$or') {
-                    qb[whereMethod](
-                        new Brackets((nestedQb) => {
-                            condition.forEach((nestedCondition: any) => {
-                                applyWhereConditionsQB(
-                                    nestedQb,
-                                    field === '$and' ? 'andWhere' : 'orWhere',
-                                    nestedCondition,
-                                    alias
-                                );
-                            });
-                        })
-                    );
-                } else {
-                    // Handle related entity fields dynamically
-                    let fieldAlias = `${alias}.${field}`;
-                    if (field.includes('.')) {
-                        const [relation, relatedField] = field.split('.');
-                        fieldAlias = `${relation}.${relatedField}`;
-                    }
+    // Check the complexity limits before anything else walks the filter
+    const limits = resolveFilterLimits(options.limits);
+    if (limits) {
+        enforceFilterLimits(conditions, limits);
+    }
 
-                    const { query, parameters } = parseCondition({
-                        conditionFor: 'qb',
-                        fieldAlias, // Dynamically handle nested aliases
-                        condition,
-                    });
+    // Enforce the filter policy before anything else, violations never reach validation or SQL
+    const policy = resolveFilterPolicy(qb, alias, options.policy);
+    if (policy) {
+        conditions = enforceFilterPolicy(conditions, policy);
+    }
 
-                    qb[whereMethod](query, parameters);
-                }
-            } catch (error) {
-                const errorInc = new Error();
-                errorInc.message = `Error parsing condition for field "${field}": ${(error as Error).message}`;
-                errorInc.name = "TypeORM_QUERY_CONDITION_PARSING_ERROR"
-                errorInc.stack = JSON.stringify(error)
-                throw errorInc;
-            }
+    // Every condition of the filter resolves relative dates against the same time
+    const now = options.clock ? options.clock() : new Date();
+    const timezone = options.timezone ?? 'UTC';
+
+    // Virtual fields expand into filters of stored fields before validation, the others are compared with their expression
+    const virtualFields = resolveVirtualFields(qb, alias, options.virtualFields);
+    if (virtualFields) {
+        conditions = expandVirtualFields(conditions, virtualFields, { now, timezone });
+    }
+    const resolveField = (field: string) => {
+        const virtual = findVirtualField(virtualFields, field);
+        // Resolve dotted relation paths, joining the relations that are not joined yet
+        return virtual ? virtualFieldExpression(field, virtual, alias) : resolveFieldPath(qb, alias, field);
+    };
+
+    if (options.validate) {
+        const metadata = options.validate === true ? resolveAliasMetadata(qb, alias) : options.validate;
+        conditions = validateFilter(conditions, metadata, aliasMetadataLookup(qb), { collectErrors: options.collectErrors, virtualFields });
+    }
+
+    const context = options.context ?? compileContextFor(qb);
+    const conditionOptions = { dialect, operators: options.operators, clock: () => now, timezone, context };
+
+    const { cache } = options;
+    const key = cache?.key(conditions, { alias, whereMethod, dialect, position: context.position, operators: options.operators ?? defaultOperatorRegistry });
+    const cached = key === undefined ? undefined : cache!.get(key);
+    const rebound = cached && !cached.bindings.some(({ context: { param } }) => context.isTaken(param)) && !Object.keys(cached.constants).some((param) => context.isTaken(param))
+        ? rebindFilter(conditions, resolveField, cached, { now, timezone })
+        : undefined;
+
+    if (cached && rebound) {
+        context.seek(cached.position);
+        cached.clauses.forEach((clause, index) => qb[whereMethod](clause, index === 0 ? rebound : undefined));
+        applyScopesQB(qb, alias, options);
+        return;
+    }
+
+    const errors: FilterError[] | undefined = options.collectErrors ? [] : undefined;
+    const compiled = { fields: [], constants: {}, parameters: {} };
+
+    // Record where every value is bound, so filters of the same shape can rebind them
+    if (cache) {
+        context.recordBindings();
+    }
+    let clauses: string[];
+    let bindings: ParameterBinding[] = [];
+    try {
+        clauses = compileConditions(qb, conditions, resolveField, conditionOptions, '', compiled, errors);
+    } finally {
+        if (cache) {
+            bindings = context.stopRecording();
         }
     }
+    if (key !== undefined && (!errors || errors.length === 0)) {
+        cache!.set(key, { clauses, fields: compiled.fields, bindings, constants: compiled.constants, position: context.position });
+    }
+
+    // A filter with errors leaves the query builder unfiltered, not partially filtered
+    throwFilterErrors(errors);
+    clauses.forEach((clause, index) => qb[whereMethod](clause, index === 0 ? compiled.parameters : undefined));
+    applyScopesQB(qb, alias, options);
 };
 
-export default applyWhereConditionsQB;
\ No newline at end of file
+export default applyWhereConditionsQB;
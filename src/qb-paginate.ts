@@ -0,0 +1,315 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import applySortOrderQB, { normalizeSort, resolveOrderKeys } from './qb-apply-sort-order';
+import { enforceSortPolicy, resolveFilterPolicy } from './enforce-filter-policy';
+import compileContextFor, { CompileContext } from './compile-context';
+import { applyScopesQB } from './filter-scopes';
+import resolveDialect from './resolve-dialect';
+
+// Defaults shared by both pagination modes
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_MAX_PAGE_SIZE = 100;
+
+// Prefix of the selections carrying the cursor values of a row
+const CURSOR_SELECT_PREFIX = '__cursor_';
+
+// A sort key of the keyset, in the order it is applied
+interface KeysetKey {
+    field: string;
+    expression: string;
+    direction: 'ASC' | 'DESC';
+    nullsLast: boolean;
+}
+
+/**
+ * Whether a dialect sorts NULLs last without `NULLS FIRST/LAST`: PostgreSQL sorts them as the largest values,
+ * MySQL, SQLite and SQL Server as the smallest.
+ */
+function nullsSortLast(dialect: SqlDialect, direction: 'ASC' | 'DESC'): boolean {
+    return (dialect === 'postgres') === (direction === 'ASC');
+}
+
+/**
+ * Validates the requested page size against the maximum page size.
+ */
+function resolvePageSize(pageSize: number | undefined, maxPageSize: number | undefined): number {
+    const size = pageSize ?? DEFAULT_PAGE_SIZE;
+    const max = maxPageSize ?? DEFAULT_MAX_PAGE_SIZE;
+
+    if (!Number.isInteger(size) || size < 1) {
+        throw new Error('PAGE_SIZE_MUST_BE_A_POSITIVE_INTEGER');
+    }
+    if (size > max) {
+        throw new Error(`PAGE_SIZE_EXCEEDS_MAX_PAGE_SIZE ${max}`);
+    }
+
+    return size;
+}
+
+/**
+ * Signs a cursor payload with HMAC-SHA256.
+ */
+function signPayload(payload: string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Encodes the sort key values of a row into an opaque `payload.signature` token.
+ */
+function encodeCursor(fields: string[], values: any[], secret: string): string {
+    const payload = Buffer.from(JSON.stringify({
+        k: fields,
+        v: values.map((value) => value instanceof Date ? { d: value.toISOString() } : value),
+    })).toString('base64url');
+
+    return `${payload}.${signPayload(payload, secret)}`;
+}
+
+/**
+ * Decodes a cursor token, rejecting malformed and tampered tokens and tokens issued for a different sort.
+ */
+function decodeCursor(cursor: unknown, fields: string[], secret: string): any[] {
+    if (typeof cursor !== 'string') {
+        // Cursors are read from the query string, arrays and objects included
+        throw new Error('INVALID_CURSOR');
+    }
+
+    const [payload, signature, ...rest] = cursor.split('.');
+    const expected = signPayload(payload ?? '', secret);
+
+    if (!payload || !signature || rest.length > 0 || signature.length !== expected.length
+        || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        throw new Error('INVALID_CURSOR');
+    }
+
+    let decoded: { k: string[]; v: any[] };
+    try {
+        decoded = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch {
+        throw new Error('INVALID_CURSOR');
+    }
+
+    if (!Array.isArray(decoded.k) || !Array.isArray(decoded.v) || decoded.k.join(',') !== fields.join(',') || decoded.v.length !== fields.length) {
+        throw new Error('CURSOR_DOES_NOT_MATCH_SORT');
+    }
+
+    return decoded.v.map((value) => value !== null && typeof value === 'object' && typeof value.d === 'string' ? new Date(value.d) : value);
+}
+
+/**
+ * Builds the keyset predicate selecting the rows after the cursor values:
+ * `(k1 > :v1) OR (k1 = :v1 AND k2 > :v2) OR ...`, with `<` for descending keys.
+ * NULLs equal each other and sort before or after every value as the key places them.
+ */
+function keysetCondition(keys: KeysetKey[], values: any[], context: CompileContext): FindOperatorQB {
+    const parameters: Record<string, any> = {};
+    const params = values.map((value) => {
+        if (value === null) {
+            return undefined;
+        }
+        const param = context.nextParam();
+        parameters[param] = value;
+        return param;
+    });
+
+    const equal = (key: KeysetKey, index: number) => params[index] === undefined ? `${key.expression} IS NULL` : `${key.expression} = :${params[index]}`;
+
+    // The rows sorted after the cursor value of a key, none when NULLs come last and the cursor value is NULL
+    const after = (key: KeysetKey, index: number): string | undefined => {
+        if (params[index] === undefined) {
+            return key.nullsLast ? undefined : `${key.expression} IS NOT NULL`;
+        }
+        const comparison = `${key.expression} ${key.direction === 'ASC' ? '>' : '<'} :${params[index]}`;
+        return key.nullsLast ? `(${comparison} OR ${key.expression} IS NULL)` : comparison;
+    };
+
+    const branches = keys.flatMap((key, index) => {
+        const comparison = after(key, index);
+        return comparison === undefined ? [] : [`(${[...keys.slice(0, index).map(equal), comparison].join(' AND ')})`];
+    });
+
+    return { query: branches.length > 0 ? `(${branches.join(' OR ')})` : '1 = 0', parameters };
+}
+
+/**
+ * Orders a query builder by the keyset, selecting every key under a cursor alias the cursor values are read from.
+ * Ordering by the aliases lets TypeORM order the distinct entity query `take` runs over joins.
+ */
+function orderByKeyset(qb: SelectQueryBuilder<any>, keys: KeysetKey[], dialect: SqlDialect): void {
+    qb.orderBy();
+    keys.forEach((key, index) => {
+        const alias = `${CURSOR_SELECT_PREFIX}${index}`;
+        // Selecting a bare `alias.property` would rename the entity column, the brackets keep it apart
+        qb.addSelect(`(${key.expression})`, alias);
+
+        if (dialect === 'postgres' || dialect === 'sqlite') {
+            qb.addOrderBy(alias, key.direction, key.nullsLast ? 'NULLS LAST' : 'NULLS FIRST');
+            return;
+        }
+        if (key.nullsLast !== nullsSortLast(dialect, key.direction)) {
+            // Emulate NULLS FIRST/LAST by ordering on the NULL check first
+            qb.addSelect(`CASE WHEN ${key.expression} IS NULL THEN 1 ELSE 0 END`, `${alias}_null`);
+            qb.addOrderBy(`${alias}_null`, key.nullsLast ? 'ASC' : 'DESC');
+        }
+        qb.addOrderBy(alias, key.direction);
+    });
+}
+
+/**
+ * Offset pagination: `skip`/`take` with a total count.
+ */
+async function paginateOffset<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, options: OffsetPaginateOptions): Promise<Paginated<T>> {
+    const page = options.page ?? 1;
+    const pageSize = resolvePageSize(options.pageSize, options.maxPageSize);
+
+    if (!Number.isInteger(page) || page < 1) {
+        throw new Error('PAGE_MUST_BE_A_POSITIVE_INTEGER');
+    }
+
+    if (options.sort) {
+        applySortOrderQB<any>(qb, options.sort, { policy: options.policy });
+    }
+
+    // skip/take (unlike offset/limit) page over distinct entities, so joined one-to-many rows do not skew the page
+    const [items, totalItems] = await qb.skip((page - 1) * pageSize).take(pageSize).getManyAndCount();
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+        items,
+        pageInfo: {
+            mode: 'offset',
+            page,
+            pageSize,
+            totalItems,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPreviousPage: page > 1,
+        },
+    };
+}
+
+/**
+ * Keyset pagination over the sort keys, with the primary key as tiebreaker.
+ */
+async function paginateCursor<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, options: CursorPaginateOptions): Promise<Paginated<T>> {
+    const pageSize = resolvePageSize(options.pageSize, options.maxPageSize);
+    const metadata = qb.expressionMap.mainAlias?.hasMetadata ? qb.expressionMap.mainAlias.metadata : undefined;
+
+    if (!metadata) {
+        throw new Error('CURSOR_PAGINATION_REQUIRES_AN_ENTITY_QUERY_BUILDER');
+    }
+    // Cursors come back from clients, only a keyed signature stops them from forging one
+    if (typeof options.secret !== 'string' || options.secret === '') {
+        throw new Error('CURSOR_PAGINATION_REQUIRES_A_SECRET');
+    }
+    if (options.after && options.before) {
+        throw new Error('CURSOR_PAGINATION_ACCEPTS_EITHER_AFTER_OR_BEFORE');
+    }
+
+    const policy = resolveFilterPolicy(qb, undefined, options.policy);
+    const sort = policy ? enforceSortPolicy(options.sort ?? {}, policy) : options.sort ?? {};
+    const backward = options.before !== undefined;
+    const dialect = resolveDialect(qb);
+
+    const keys: KeysetKey[] = resolveOrderKeys(qb, normalizeSort(sort)).map((key) => {
+        // A value list ranks NULLs by listing them, its position is never NULL
+        if (key.nulls && key.ranked) {
+            throw new Error(`CURSOR_PAGINATION_DOES_NOT_SUPPORT_NULLS_ORDERING ${key.field}`);
+        }
+        qb.setParameters(key.parameters);
+        const nullsLast = key.nulls ? key.nulls === 'last' : nullsSortLast(dialect, key.direction);
+        return { field: key.field, expression: key.expression, direction: key.direction, nullsLast };
+    });
+
+    // The primary key makes the order total, so no row is skipped or repeated between pages
+    metadata.primaryColumns
+        .filter((column) => !keys.some((key) => key.field === column.propertyPath))
+        .forEach((column) => keys.push({
+            field: column.propertyPath, expression: `${qb.alias}.${column.propertyPath}`, direction: 'ASC', nullsLast: nullsSortLast(dialect, 'ASC'),
+        }));
+
+    const fields = keys.map((key) => key.field);
+    const cursor = options.after ?? options.before;
+
+    // Count before the keyset condition narrows the rows down
+    const totalItems = options.includeTotalCount ? await qb.clone().getCount() : undefined;
+
+    // Walking backwards reads the page in reverse order and flips it afterwards
+    const directed = backward ? keys.map((key): KeysetKey => ({ ...key, direction: key.direction === 'ASC' ? 'DESC' : 'ASC', nullsLast: !key.nullsLast })) : keys;
+
+    if (cursor !== undefined) {
+        const { query, parameters } = keysetCondition(directed, decodeCursor(cursor, fields, options.secret), compileContextFor(qb));
+        qb.andWhere(query, parameters);
+    }
+
+    // The keyset defines the whole order, earlier orderings would break it
+    orderByKeyset(qb, directed, dialect);
+
+    // One extra row tells whether there is a further page
+    const { entities, raw } = await qb.take(pageSize + 1).getRawAndEntities();
+
+    const primaryIndexes = metadata.primaryColumns.map((column) => fields.indexOf(column.propertyPath));
+    const cursorValues = (entity: T): any[] => {
+        const row = raw.find((candidate) => metadata.primaryColumns.every((column, i) =>
+            String(candidate[`${CURSOR_SELECT_PREFIX}${primaryIndexes[i]}`]) === String(column.getEntityValue(entity))));
+        return keys.map((_, index) => row?.[`${CURSOR_SELECT_PREFIX}${index}`] ?? null);
+    };
+
+    const hasMore = entities.length > pageSize;
+    const items = entities.slice(0, pageSize);
+    if (backward) {
+        items.reverse();
+    }
+
+    const hasNextPage = backward ? true : hasMore;
+    const hasPreviousPage = backward ? hasMore : options.after !== undefined;
+
+    return {
+        items,
+        pageInfo: {
+            mode: 'cursor',
+            pageSize,
+            hasNextPage,
+            hasPreviousPage,
+            nextCursor: hasNextPage && items.length > 0 ? encodeCursor(fields, cursorValues(items[items.length - 1]), options.secret) : undefined,
+            prevCursor: hasPreviousPage && items.length > 0 ? encodeCursor(fields, cursorValues(items[0]), options.secret) : undefined,
+            totalItems,
+        },
+    };
+}
+
+/**
+ * Paginates a TypeORM Query Builder in offset or cursor (keyset) mode.
+ *
+ * Offset mode pages with `skip`/`take` and returns total counts. Cursor mode pages over the sort keys with
+ * the primary key as tiebreaker and returns opaque `nextCursor`/`prevCursor` tokens, signed with HMAC-SHA256 using the
+ * required `secret`. Rows with NULL sort key values are paged like the others, placed as the `nulls` key option says.
+ * Both modes page over distinct entities, so joined one-to-many rows do not skew page sizes.
+ *
+ * @param {SelectQueryBuilder<T>} qb - The TypeORM Query Builder instance, with filters already applied.
+ * @param {PaginateOptions} options - `mode` plus the options of the mode, see `OffsetPaginateOptions` and `CursorPaginateOptions`,
+ *   `scopes`, `scopeContext` and `disableScopes` control the filter scopes applied to the main alias.
+ * @returns {Promise<Paginated<T>>} - The page items and page info.
+ * @throws Error if the page size exceeds the maximum page size, cursor mode has no `secret` or a cursor is invalid or issued for a different sort.
+ *
+ * Example usage:
+ * ```typescript
+ * const first = await paginateQB(qb, { mode: 'cursor', sort: { createdAt: 'desc' }, pageSize: 20, secret });
+ * const second = await paginateQB(otherQb, { mode: 'cursor', sort: { createdAt: 'desc' }, pageSize: 20, secret, after: first.pageInfo.nextCursor });
+ * ```
+ */
+async function paginateQB<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, options: PaginateOptions): Promise<Paginated<T>> {
+    // Queries paged without any filter helper are scoped too
+    applyScopesQB(qb, qb.alias, options);
+
+    switch (options.mode) {
+        case 'offset':
+            return paginateOffset(qb, options);
+        case 'cursor':
+            return paginateCursor(qb, options);
+        default:
+            throw new Error('UNSUPPORTED_PAGINATION_MODE');
+    }
+}
+
+export default paginateQB;
@@ -0,0 +1,92 @@
+import { SelectQueryBuilder, WhereExpressionBuilder } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
+import { rootQueryBuilder } from './resolve-field-path';
+import { FilterValidationError } from './filter-errors';
+
+// Quantifiers filtering an entity by its related entities, e.g. `{ posts: { $some: { status: 'published' } } }`
+export const relationQuantifiers = ['$some', '$none', '$every'] as const;
+
+export type RelationQuantifier = typeof relationQuantifiers[number];
+
+/**
+ * Returns whether a condition filters the related entities of a relation, every key of it is a quantifier.
+ */
+export function isRelationFilter(condition: any): condition is Partial<Record<RelationQuantifier, any>> {
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition) || condition instanceof Date) {
+        return false;
+    }
+    const keys = Object.keys(condition);
+    return keys.length > 0 && keys.every((key) => (relationQuantifiers as readonly string[]).includes(key));
+}
+
+/**
+ * Returns whether an alias is used by the query builder or any query it is nested in, correlated sub queries see them all.
+ */
+function aliasTaken(qb: any, name: string): boolean {
+    for (let current = qb; current; current = current.parentQueryBuilder) {
+        if (current.expressionMap?.aliases?.some((a: any) => a.name === name)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Builds the correlated sub query selecting the entities related to a row, the body of `EXISTS (...)`.
+ *
+ * The related entities are correlated with the row through the join columns of the relation in the entity metadata:
+ * the foreign key of the row (many-to-one, owning one-to-one), the foreign key of the related entities
+ * (one-to-many, inverse one-to-one) or the junction table (many-to-many, either side).
+ *
+ * @param qb - The query builder (or a nested `WhereExpressionBuilder`) the sub query is correlated with.
+ * @param expression - The `alias.relation` expression of the relation, as resolved by `resolveFieldPath`.
+ * @param field - The filter field naming the relation, reported when it is not a relation.
+ * @returns The sub query and the alias of the related entities in it.
+ * @throws {FilterValidationError} - If the expression does not lead to a relation of an entity with metadata.
+ */
+export function relationSubQuery(qb: WhereExpressionBuilder, expression: string, field: string): { subQuery: SelectQueryBuilder<any>; alias: string } {
+    const root = rootQueryBuilder(qb);
+    const separator = expression.indexOf('.');
+    const parentAlias = expression.slice(0, separator);
+    const found = separator > 0 ? root.expressionMap?.aliases?.find((a: any) => a.name === parentAlias) : undefined;
+    const relation: RelationMetadata | undefined = found?.hasMetadata ? found.metadata.findRelationWithPropertyPath(expression.slice(separator + 1)) : undefined;
+
+    if (!relation) {
+        throw new FilterValidationError(`RELATION_FILTER_MUST_BE_APPLIED_TO_A_RELATION ${field}`, {
+            code: 'INVALID_CONDITION', value: field, expected: 'a relation of the entity',
+        });
+    }
+
+    const driver = root.connection.driver;
+    const column = (alias: string, metadata: ColumnMetadata) => `${driver.escape(alias)}.${driver.escape(metadata.databaseName)}`;
+
+    let alias = `${parentAlias}_${relation.propertyName}`;
+    for (let suffix = 1; aliasTaken(root, alias); suffix++) {
+        alias = `${parentAlias}_${relation.propertyName}_${suffix}`;
+    }
+
+    const subQuery: SelectQueryBuilder<any> = root.subQuery().select('1');
+    if (relation.isManyToMany) {
+        // The junction table references the row with the join columns of the owning side, the related entities with its inverse join columns
+        const owner = relation.isOwning ? relation : relation.inverseRelation!;
+        const [rowColumns, relatedColumns] = relation.isOwning ? [owner.joinColumns, owner.inverseJoinColumns] : [owner.inverseJoinColumns, owner.joinColumns];
+        const junctionAlias = `${alias}_junction`;
+
+        subQuery
+            .from(relation.junctionEntityMetadata!.tablePath, junctionAlias)
+            .innerJoin(relation.inverseEntityMetadata.target, alias, relatedColumns
+                .map((joinColumn) => `${column(alias, joinColumn.referencedColumn!)} = ${column(junctionAlias, joinColumn)}`).join(' AND '))
+            .where(rowColumns.map((joinColumn) => `${column(junctionAlias, joinColumn)} = ${column(parentAlias, joinColumn.referencedColumn!)}`).join(' AND '));
+    } else if (relation.isOwning) {
+        subQuery
+            .from(relation.inverseEntityMetadata.target, alias)
+            .where(relation.joinColumns.map((joinColumn) => `${column(alias, joinColumn.referencedColumn!)} = ${column(parentAlias, joinColumn)}`).join(' AND '));
+    } else {
+        subQuery
+            .from(relation.inverseEntityMetadata.target, alias)
+            .where(relation.inverseRelation!.joinColumns.map((joinColumn) => `${column(alias, joinColumn)} = ${column(parentAlias, joinColumn.referencedColumn!)}`).join(' AND '));
+    }
+
+    return { subQuery, alias };
+}
@@ -0,0 +1,182 @@
+// Relative date values: an anchor followed by offsets, e.g. `now-7d`, `startOf:month` or `endOf:day+1d`
+const relativeDatePattern = /^(now|startOf:(?:hour|day|week|month|year)|endOf:(?:hour|day|week|month|year))((?:[+-]\d+[smhdwMy])*)$/;
+
+// Calendar dates without a time, read as midnight in the time zone of the condition
+const calendarDatePattern = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Offset units that shift the instant, the calendar units shift the wall clock of the time zone
+const durationUnits: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+/**
+ * Returns the wall clock time of an instant in a time zone, as a `Date` whose UTC fields hold the local time.
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+        }).formatToParts(date).map(({ type, value }) => [type, Number(value)])
+    );
+    return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getUTCMilliseconds()));
+}
+
+/**
+ * Returns the instant of a wall clock time in a time zone, the inverse of `toWallClock`.
+ */
+function fromWallClock(wall: Date, timeZone: string): Date {
+    const offsetAt = (instant: number) => toWallClock(new Date(instant), timeZone).getTime() - instant;
+
+    // The offset at the wall time, corrected once when the first guess crosses a DST transition
+    const offset = offsetAt(wall.getTime());
+    const corrected = offsetAt(wall.getTime() - offset);
+    return new Date(wall.getTime() - corrected);
+}
+
+/**
+ * Moves a wall clock time by whole calendar units, the day of month is clamped (Mar 31 - 1 month is Feb 29).
+ */
+function addCalendarUnits(wall: Date, amount: number, unit: CalendarUnit | 'M' | 'y' | 'd' | 'w'): Date {
+    const result = new Date(wall.getTime());
+    switch (unit) {
+        case 'd':
+        case 'day':
+            result.setUTCDate(result.getUTCDate() + amount);
+            return result;
+        case 'w':
+        case 'week':
+            result.setUTCDate(result.getUTCDate() + amount * 7);
+            return result;
+        case 'hour':
+            result.setUTCHours(result.getUTCHours() + amount);
+            return result;
+        default: {
+            const months = unit === 'y' || unit === 'year' ? amount * 12 : amount;
+            const target = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + months, 1));
+            const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+            target.setUTCDate(Math.min(result.getUTCDate(), lastDay));
+            target.setUTCHours(result.getUTCHours(), result.getUTCMinutes(), result.getUTCSeconds(), result.getUTCMilliseconds());
+            return target;
+        }
+    }
+}
+
+/**
+ * Truncates a wall clock time to the start of its hour, day, week (starting Monday), month or year.
+ */
+function startOfWallClock(wall: Date, unit: CalendarUnit): Date {
+    const result = new Date(wall.getTime());
+    result.setUTCMinutes(0, 0, 0);
+    if (unit === 'hour') {
+        return result;
+    }
+    result.setUTCHours(0);
+    if (unit === 'week') {
+        result.setUTCDate(result.getUTCDate() - (result.getUTCDay() + 6) % 7);
+    } else if (unit === 'month') {
+        result.setUTCDate(1);
+    } else if (unit === 'year') {
+        result.setUTCMonth(0, 1);
+    }
+    return result;
+}
+
+/**
+ * Returns whether a value is a relative date such as `now-7d` or `startOf:month`.
+ */
+export function isRelativeDate(value: any): value is string {
+    return typeof value === 'string' && relativeDatePattern.test(value);
+}
+
+/**
+ * Checks that a time zone is known to the runtime.
+ *
+ * @throws Error if the time zone is not a valid IANA time zone.
+ */
+export function assertTimeZone(timeZone: string): void {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+        throw new Error(`INVALID_TIMEZONE ${timeZone}`);
+    }
+}
+
+/**
+ * Resolves a date value of a date operator: a `Date`, a relative date, a calendar date (`2024-03-10`, midnight in the
+ * time zone) or any other string `Date` can parse.
+ *
+ * @returns {Date | undefined} - The instant, `undefined` if the value is not a valid date.
+ */
+export function resolveDateValue(value: any, now: Date, timeZone: string): Date | undefined {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? undefined : value;
+    }
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    if (isRelativeDate(value)) {
+        return resolveRelativeDate(value, now, timeZone);
+    }
+
+    const calendarDate = calendarDatePattern.exec(value);
+    if (calendarDate) {
+        const [, year, month, day] = calendarDate.map(Number);
+        return fromWallClock(new Date(Date.UTC(year, month - 1, day)), timeZone);
+    }
+    return isNaN(Date.parse(value)) ? undefined : new Date(value);
+}
+
+/**
+ * Returns the range of the calendar unit containing a date, e.g. the day from midnight to the next midnight.
+ *
+ * @param date - Any instant in the unit.
+ * @param unit - The calendar unit: 'hour', 'day', 'week' (starting Monday), 'month' or 'year'.
+ * @param timeZone - The IANA time zone the calendar is in.
+ * @returns {[Date, Date]} - The start of the unit and the start of the next unit.
+ */
+export function calendarRange(date: Date, unit: CalendarUnit, timeZone: string): [Date, Date] {
+    const start = startOfWallClock(toWallClock(date, timeZone), unit);
+    return [fromWallClock(start, timeZone), fromWallClock(addCalendarUnits(start, 1, unit), timeZone)];
+}
+
+/**
+ * Resolves a relative date to a concrete instant.
+ *
+ * The anchor is `now`, `startOf:<unit>` or `endOf:<unit>` with unit 'hour', 'day', 'week', 'month' or 'year'.
+ * Offsets (`s`, `m`, `h`, `d`, `w`, `M`, `y`) move the reference time before it is truncated to the unit,
+ * so `startOf:month-1M` is the start of last month. Days, weeks, months and years follow the calendar of
+ * the time zone, across DST changes.
+ *
+ * @param value - The relative date, e.g. `now-7d`, `startOf:day` or `endOf:week+1w`.
+ * @param now - The current time, taken from the clock of the caller.
+ * @param timeZone - The IANA time zone calendar units are resolved in, defaults to 'UTC'.
+ * @returns {Date} - The resolved instant.
+ * @throws Error if the value is not a relative date.
+ *
+ * Example usage:
+ * ```typescript
+ * resolveRelativeDate('startOf:day', new Date('2024-03-10T15:00:00Z'), 'Europe/Berlin'); // 2024-03-09T23:00:00.000Z
+ * ```
+ */
+function resolveRelativeDate(value: string, now: Date, timeZone: string = 'UTC'): Date {
+    const match = relativeDatePattern.exec(value);
+    if (!match) {
+        throw new Error(`INVALID_RELATIVE_DATE ${value}`);
+    }
+
+    let instant = now;
+    for (const [, sign, amount, unit] of match[2].matchAll(/([+-])(\d+)([smhdwMy])/g)) {
+        const signed = Number(amount) * (sign === '-' ? -1 : 1);
+        instant = unit in durationUnits
+            ? new Date(instant.getTime() + signed * durationUnits[unit])
+            : fromWallClock(addCalendarUnits(toWallClock(instant, timeZone), signed, unit as 'd' | 'w' | 'M' | 'y'), timeZone);
+    }
+
+    if (match[1] === 'now') {
+        return instant;
+    }
+
+    const [anchor, unit] = match[1].split(':') as ['startOf' | 'endOf', CalendarUnit];
+    const [start, end] = calendarRange(instant, unit, timeZone);
+    return anchor === 'startOf' ? start : new Date(end.getTime() - 1);
+}
+
+export default resolveRelativeDate;
@@ -0,0 +1,57 @@
+import { DatabaseType } from 'typeorm';
+import { UnsupportedDialectError } from './filter-errors';
+
+// Maps every TypeORM database type to the SQL dialect family whose syntax it speaks
+const dialectFamilies: Partial<Record<DatabaseType, SqlDialect>> = {
+    'postgres': 'postgres',
+    'cockroachdb': 'postgres',
+    'aurora-postgres': 'postgres',
+    'mysql': 'mysql',
+    'mariadb': 'mysql',
+    'aurora-mysql': 'mysql',
+    'sqlite': 'sqlite',
+    'better-sqlite3': 'sqlite',
+    'sqljs': 'sqlite',
+    'cordova': 'sqlite',
+    'react-native': 'sqlite',
+    'nativescript': 'sqlite',
+    'expo': 'sqlite',
+    'capacitor': 'sqlite',
+    'mssql': 'mssql',
+};
+
+/**
+ * Resolves the SQL dialect used to generate conditions.
+ *
+ * The dialect is taken from the explicit value when one is given, otherwise from
+ * the query builder's `connection.options.type`. When neither is available the
+ * dialect defaults to `postgres`, which keeps the historic behaviour of the library.
+ *
+ * @param source - A TypeORM query builder (or anything exposing `connection.options.type`).
+ * @param explicit - An explicit TypeORM database type or dialect family, takes precedence over `source`.
+ * @returns {SqlDialect} - The dialect family to generate SQL for.
+ * @throws {UnsupportedDialectError} - If the database type has no supported dialect family.
+ *
+ * Example usage:
+ * ```typescript
+ * resolveDialect(repository.createQueryBuilder('entity')); // 'mysql' for a MariaDB connection
+ * resolveDialect(undefined, 'better-sqlite3'); // 'sqlite'
+ * ```
+ */
+function resolveDialect(source?: any, explicit?: DatabaseType | SqlDialect): SqlDialect {
+    const type: string | undefined = explicit ?? source?.connection?.options?.type;
+
+    if (type === undefined) {
+        return 'postgres';
+    }
+
+    const dialect = dialectFamilies[type as DatabaseType];
+
+    if (!dialect) {
+        throw new UnsupportedDialectError(`UNSUPPORTED_DIALECT ${type}`, { code: 'UNSUPPORTED_DIALECT', value: type });
+    }
+
+    return dialect;
+}
+
+export default resolveDialect;
@@ -0,0 +1,114 @@
+import { EntityMetadata, WhereExpressionBuilder } from 'typeorm';
+import { FilterValidationError } from './filter-errors';
+
+/**
+ * Returns the query builder that owns the joins, nested `Brackets` builders forward to their parent.
+ * Sub queries own their joins, so the walk stops at them.
+ */
+export function rootQueryBuilder(qb: WhereExpressionBuilder): any {
+    let root: any = qb;
+    while (root.parentQueryBuilder && !root.expressionMap?.subQuery) {
+        root = root.parentQueryBuilder;
+    }
+    return root;
+}
+
+/**
+ * Returns the entity metadata bound to an alias, if any.
+ */
+function aliasMetadata(root: any, alias: string): EntityMetadata | undefined {
+    const found = root.expressionMap?.aliases?.find((a: any) => a.name === alias);
+    return found?.hasMetadata ? found.metadata : undefined;
+}
+
+/**
+ * Returns the alias joining `parentAlias.relation`, reusing an existing join or adding a `leftJoin`
+ * under a generated alias that does not collide with any alias of the query builder.
+ *
+ * @param qb - The query builder (or a nested `WhereExpressionBuilder`) to join on.
+ * @param parentAlias - The alias owning the relation.
+ * @param relation - The relation property name.
+ * @returns {string} - The alias of the joined relation.
+ */
+export function ensureJoin(qb: WhereExpressionBuilder, parentAlias: string, relation: string): string {
+    const root = rootQueryBuilder(qb);
+    const joinAttributes: any[] = root.expressionMap.joinAttributes;
+
+    const existing = joinAttributes.find((join) => join.entityOrProperty === `${parentAlias}.${relation}`);
+    if (existing) {
+        return existing.alias.name;
+    }
+
+    const taken = (name: string) => root.expressionMap.aliases.some((a: any) => a.name === name);
+    let alias = `${parentAlias}_${relation}`;
+    for (let suffix = 1; taken(alias); suffix++) {
+        alias = `${parentAlias}_${relation}_${suffix}`;
+    }
+
+    root.leftJoin(`${parentAlias}.${relation}`, alias);
+    return alias;
+}
+
+/**
+ * Resolves a field or dotted path to the `alias.property` expression used in conditions and sorting.
+ *
+ * Paths are resolved through the entity metadata of the alias: columns and embedded columns are used as is,
+ * relations of any depth (`author.company.name`) are joined with `leftJoin`, reusing joins that are already
+ * present. A first segment naming an alias the caller joined themselves (`c.name`) is used as that alias.
+ * Without metadata the first segment of a dotted path is taken as the alias.
+ * Paths are only used as given when there is no metadata to check them against, so client-supplied field names
+ * never reach the SQL unchecked.
+ *
+ * @param qb - The query builder (or a nested `WhereExpressionBuilder`) the path is resolved on.
+ * @param alias - The alias the path starts from.
+ * @param path - The field name, embedded path or dotted relation path.
+ * @returns {string} - The `alias.property` expression of the field.
+ * @throws {FilterValidationError} - If the path is neither a column nor a relation of the entity it resolves to.
+ *
+ * Example usage:
+ * ```typescript
+ * const qb = repository.createQueryBuilder('post');
+ * resolveFieldPath(qb, 'post', 'author.company.name'); // 'post_author_company.name', both relations joined
+ * ```
+ */
+function resolveFieldPath(qb: WhereExpressionBuilder, alias: string, path: string): string {
+    const root = rootQueryBuilder(qb);
+    const segments = path.split('.');
+
+    let currentAlias = alias;
+    let metadata = aliasMetadata(root, alias);
+    let index = 0;
+
+    if (!metadata && segments.length > 1) {
+        // No metadata to resolve relations with, the first segment is an alias
+        return `${segments[0]}.${segments.slice(1).join('.')}`;
+    }
+
+    while (metadata && index < segments.length - 1 && !metadata.findColumnWithPropertyPathStrict(segments.slice(index).join('.'))) {
+        const relation = metadata.findRelationWithPropertyPath(segments[index]);
+
+        if (relation) {
+            currentAlias = ensureJoin(root, currentAlias, segments[index]);
+            metadata = relation.inverseEntityMetadata;
+        } else if (index === 0 && aliasMetadata(root, segments[0]) !== undefined) {
+            // An alias joined by the caller, e.g. `c.name` for `leftJoin('user.company', 'c')`
+            currentAlias = segments[0];
+            metadata = aliasMetadata(root, segments[0]);
+        } else if (index === 0 && root.expressionMap.aliases.some((a: any) => a.name === segments[0])) {
+            // An alias without metadata, e.g. a joined sub query
+            currentAlias = segments[0];
+            metadata = undefined;
+        } else {
+            break;
+        }
+        index++;
+    }
+
+    const propertyPath = segments.slice(index).join('.');
+    if (metadata && metadata.findColumnsWithPropertyPath(propertyPath).length === 0 && !metadata.findRelationWithPropertyPath(propertyPath)) {
+        throw new FilterValidationError(`UNKNOWN_FIELD ${path}`, { code: 'UNKNOWN_FIELD', value: path });
+    }
+    return `${currentAlias}.${propertyPath}`;
+}
+
+export default resolveFieldPath;
@@ -0,0 +1,331 @@
+import { EntityMetadata, WhereExpressionBuilder } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { collectFilterError, FilterError, FilterValidationError, throwFilterErrors, withFilterPath } from './filter-errors';
+import { isRelativeDate } from './relative-date';
+import { isRelationFilter } from './relation-filter';
+import parseJsonPath from './json-path';
+import { findVirtualField } from './virtual-fields';
+import { aliasMetadataLookup } from './entity-metadata';
+
+// Value kind of a column, drives value coercion and operator compatibility
+type ColumnKind = 'string' | 'number' | 'boolean' | 'date' | 'json' | 'enum' | 'other';
+
+// Operators that compare column values as text
+const stringOperators = [
+    '$contains', '$notContains', '$iContains', '$notIContains', '$startsWith', '$notStartsWith',
+    '$endsWith', '$notEndsWith', '$regex', '$notRegex', '$regexi', '$notRegexi', '$search',
+];
+
+// Operators that only work on JSON documents
+const jsonOperators = ['$jsonContains', '$jsonContained', '$jsonEquals', '$jsonHasKey'];
+
+// Operators that only work on array columns, their elements are coerced to the element type
+const arrayOperators = ['$arrayContains', '$arrayContainedBy', '$arrayOverlap', '$arrayLength', '$anyEquals'];
+
+// Operators that order values, meaningless on booleans and JSON documents
+const rangeOperators = ['$gt', '$gte', '$lt', '$lte', '$between', '$notBetween'];
+
+// Operators that match whole calendar units, their dates are resolved in the time zone of the condition
+const dateOperators = ['$dateEquals', '$dateBetween'];
+
+// Column kinds each operator group is allowed on
+const allowedKinds: { operators: string[]; kinds: ColumnKind[] }[] = [
+    { operators: stringOperators, kinds: ['string', 'enum', 'other'] },
+    { operators: jsonOperators, kinds: ['json'] },
+    { operators: rangeOperators, kinds: ['string', 'number', 'date', 'enum', 'other'] },
+    { operators: dateOperators, kinds: ['date', 'other'] },
+];
+
+/**
+ * Classifies a column by the kind of values it stores, or the kind of its elements for array columns when `element` is set.
+ */
+function columnKind(column: ColumnMetadata, element: boolean = false): ColumnKind {
+    if (column.enum) {
+        return 'enum';
+    }
+
+    const type = column.type;
+    if (type === String) return 'string';
+    if (type === Number) return 'number';
+    if (type === Boolean) return 'boolean';
+    if (type === Date) return 'date';
+    if (typeof type !== 'string' || (column.isArray && !element)) return 'other';
+
+    const name = type.toLowerCase();
+    if (name === 'simple-array') return 'other';
+    if (name.includes('json')) return 'json';
+    if (name.includes('bool') || name === 'bit') return 'boolean';
+    if (/int|numeric|decimal|float|double|real|number|money|dec$/.test(name)) return 'number';
+    if (/date|timestamp/.test(name)) return 'date';
+    if (/char|text|uuid|string|clob|citext/.test(name)) return 'string';
+    return 'other';
+}
+
+/**
+ * Coerces a single value to the type stored by the column, throws if the value does not fit.
+ */
+function coerceValue(column: ColumnMetadata, kind: ColumnKind, value: any, operator?: string): any {
+    switch (kind) {
+        case 'number':
+            if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+                // Keep integers beyond the safe range as strings so no precision is lost
+                return /^-?\d+$/.test(value.trim()) && !Number.isSafeInteger(Number(value)) ? value.trim() : Number(value);
+            }
+            if (typeof value === 'number' && Number.isFinite(value)) {
+                return value;
+            }
+            break;
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            if (value === 'true' || value === 1 || value === '1') return true;
+            if (value === 'false' || value === 0 || value === '0') return false;
+            break;
+        case 'date':
+            if (value instanceof Date && !isNaN(value.getTime())) return value;
+            // Relative dates are resolved by parseCondition against its clock
+            if (isRelativeDate(value)) return value;
+            if (typeof value === 'string' && !isNaN(Date.parse(value))) return new Date(value);
+            if (typeof value === 'number') return new Date(value);
+            break;
+        case 'enum':
+            if (column.enum!.some((member) => member === value || String(member) === String(value))) {
+                return column.enum!.find((member) => member === value || String(member) === String(value));
+            }
+            throw new FilterValidationError(`INVALID_ENUM_VALUE ${String(value)} FOR_FIELD ${column.propertyPath}`, {
+                code: 'INVALID_ENUM_VALUE', operator, value, expected: column.enum!.map(String).join(', '),
+            });
+        default:
+            return value;
+    }
+    throw new FilterValidationError(`INVALID_VALUE_FOR_COLUMN_TYPE ${String(value)} FOR_FIELD ${column.propertyPath}`, {
+        code: 'INVALID_VALUE_FOR_COLUMN_TYPE', operator, value, expected: kind,
+    });
+}
+
+/**
+ * Resolves a field, embedded or dotted relation path to its column.
+ *
+ * The first segment of a dotted path is looked up as a relation of the entity and then as
+ * an alias joined on the query builder, which is how `applyWhereConditionsQB` interprets it.
+ */
+function resolveColumn(metadata: EntityMetadata, path: string, aliasMetadata?: (alias: string) => EntityMetadata | undefined, fullPath: string = path): ColumnMetadata {
+    const column = metadata.findColumnWithPropertyPathStrict(path);
+    if (column) {
+        return column;
+    }
+
+    // A many-to-one/one-to-one relation can be compared by its single join column, e.g. { company: 5 }
+    const relation = metadata.findRelationWithPropertyPath(path);
+    if (relation && relation.joinColumns.length === 1 && relation.joinColumns[0].referencedColumn) {
+        return relation.joinColumns[0].referencedColumn;
+    }
+
+    const [head, ...rest] = path.split('.');
+    if (rest.length > 0) {
+        const next = metadata.findRelationWithPropertyPath(head)?.inverseEntityMetadata ?? aliasMetadata?.(head);
+        if (next) {
+            return resolveColumn(next, rest.join('.'), undefined, fullPath);
+        }
+    }
+
+    throw new FilterValidationError(`UNKNOWN_FIELD ${fullPath}`, { code: 'UNKNOWN_FIELD' });
+}
+
+/**
+ * Resolves a relation or dotted relation path to the metadata of the related entity.
+ */
+function resolveRelatedMetadata(metadata: EntityMetadata, path: string, aliasMetadata?: (alias: string) => EntityMetadata | undefined, fullPath: string = path): EntityMetadata {
+    const relation = metadata.findRelationWithPropertyPath(path);
+    if (relation) {
+        return relation.inverseEntityMetadata;
+    }
+
+    const [head, ...rest] = path.split('.');
+    if (rest.length > 0) {
+        const next = metadata.findRelationWithPropertyPath(head)?.inverseEntityMetadata ?? aliasMetadata?.(head);
+        if (next) {
+            return resolveRelatedMetadata(next, rest.join('.'), undefined, fullPath);
+        }
+    }
+
+    throw new FilterValidationError(`UNKNOWN_RELATION ${fullPath}`, { code: 'UNKNOWN_FIELD' });
+}
+
+/**
+ * Validates a single field condition against entity metadata and coerces its values to the column type.
+ *
+ * @param metadata - The entity metadata the field belongs to.
+ * @param field - The field name, embedded path or dotted relation path.
+ * @param condition - The condition value, e.g. `'42'`, `['a', 'b']` or `{ $gte: '2024-01-01' }`.
+ * @param aliasMetadata - Optional lookup for aliases joined on the query builder.
+ * @returns {any} - The condition with coerced values.
+ * @throws {FilterValidationError} - If the field is unknown, a value does not fit the column or an operator does not fit the column type.
+ */
+export function validateCondition(metadata: EntityMetadata, field: string, condition: any, aliasMetadata?: (alias: string) => EntityMetadata | undefined): any {
+    const jsonPath = parseJsonPath(field);
+    if (jsonPath) {
+        // Values of JSON path fields are compared with the cast of the path, they are kept as given
+        const jsonColumn = resolveColumn(metadata, jsonPath.column, aliasMetadata);
+        if (columnKind(jsonColumn) !== 'json') {
+            throw new FilterValidationError(`JSON_PATH_REQUIRES_A_JSON_COLUMN ${jsonPath.column}`, { code: 'INVALID_JSON_PATH', value: field, expected: 'a JSON column' });
+        }
+        return condition;
+    }
+
+    const column = resolveColumn(metadata, field, aliasMetadata);
+    const kind = columnKind(column);
+
+    if (condition === '$isNull' || condition === '$isNotNull' || condition === null || condition === undefined) {
+        return condition;
+    }
+
+    if (Array.isArray(condition)) {
+        return condition.map((value) => coerceValue(column, kind, value));
+    }
+
+    if (typeof condition !== 'object' || condition instanceof Date) {
+        return coerceValue(column, kind, condition);
+    }
+
+    return Object.fromEntries(Object.entries(condition).map(([operator, value]) => {
+        // Field-level logic nests conditions of the same field
+        if (operator === '$not') {
+            return [operator, validateCondition(metadata, field, value, aliasMetadata)];
+        }
+        if ((operator === '$and' || operator === '$or' || operator === '$nor') && Array.isArray(value)) {
+            return [operator, value.map((nested) => validateCondition(metadata, field, nested, aliasMetadata))];
+        }
+
+        if (arrayOperators.includes(operator)) {
+            if (!column.isArray) {
+                const type = String(column.type instanceof Function ? column.type.name : column.type);
+                throw new FilterValidationError(`OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE ${operator} ${type}`, {
+                    code: 'OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE', operator, value, expected: 'an array column',
+                });
+            }
+            // Lengths are validated by parseCondition, elements are coerced to the element type
+            if (operator === '$arrayLength' || value === null || value === undefined) {
+                return [operator, value];
+            }
+            const elementKind = columnKind(column, true);
+            return [operator, Array.isArray(value) ? value.map((item) => coerceValue(column, elementKind, item, operator)) : coerceValue(column, elementKind, value, operator)];
+        }
+
+        const group = allowedKinds.find(({ operators }) => operators.includes(operator));
+        if (group && !group.kinds.includes(kind)) {
+            const type = String(column.type instanceof Function ? column.type.name : column.type);
+            throw new FilterValidationError(`OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE ${operator} ${type}`, {
+                code: 'OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE', operator, value, expected: `an operator for ${type} columns`,
+            });
+        }
+
+        // Text, JSON and calendar date operators keep their values as given, parseCondition validates them
+        if (stringOperators.includes(operator) || jsonOperators.includes(operator) || dateOperators.includes(operator) || value === null || value === undefined) {
+            return [operator, value];
+        }
+
+        return [operator, Array.isArray(value) ? value.map((item) => coerceValue(column, kind, item, operator)) : coerceValue(column, kind, value, operator)];
+    }));
+}
+
+/**
+ * Resolves the entity metadata of an alias on a query builder.
+ *
+ * @param qb - The query builder (or a nested `WhereExpressionBuilder`) holding the alias.
+ * @param alias - The alias name, defaults to the main alias.
+ * @returns {EntityMetadata} - The metadata of the aliased entity.
+ * @throws Error if the alias is not bound to an entity.
+ */
+export function resolveAliasMetadata(qb: WhereExpressionBuilder, alias?: string): EntityMetadata {
+    const metadata = aliasMetadataLookup(qb)(alias);
+
+    if (!metadata) {
+        throw new Error(`ENTITY_METADATA_NOT_FOUND_FOR_ALIAS ${alias ?? ''}`.trim());
+    }
+
+    return metadata;
+}
+
+/**
+ * Validates the filter found at `path`, collecting errors into `errors` when given.
+ */
+function validateFilterAt(
+    filter: any,
+    metadata: EntityMetadata,
+    aliasMetadata: ((alias: string) => EntityMetadata | undefined) | undefined,
+    path: string,
+    errors: FilterError[] | undefined,
+    virtualFields?: Record<string, VirtualField>
+): any {
+    const validated: Record<string, any> = {};
+
+    for (const field in filter) {
+        if (Object.prototype.hasOwnProperty.call(filter, field)) {
+            const condition = filter[field];
+            const fieldPath = path ? `${path}.${field}` : field;
+
+            if ((field === '$and' || field === '$or' || field === '$nor') && Array.isArray(condition)) {
+                validated[field] = condition.map((nestedFilter: any, index: number) =>
+                    validateFilterAt(nestedFilter, metadata, aliasMetadata, `${fieldPath}[${index}]`, errors, virtualFields));
+            } else if (field === '$not') {
+                validated[field] = validateFilterAt(condition, metadata, aliasMetadata, fieldPath, errors, virtualFields);
+            } else if (findVirtualField(virtualFields, field)) {
+                // Virtual fields are no columns, their values are compared with the expression as given
+                validated[field] = condition;
+            } else if (isRelationFilter(condition)) {
+                // Filters of $some/$none/$every are validated against the related entity
+                try {
+                    const related = resolveRelatedMetadata(metadata, field, aliasMetadata);
+                    validated[field] = Object.fromEntries(Object.entries(condition).map(([quantifier, nestedFilter]) => [quantifier,
+                        typeof nestedFilter === 'object' && nestedFilter !== null ? validateFilterAt(nestedFilter, related, undefined, `${fieldPath}.${quantifier}`, errors) : nestedFilter]));
+                } catch (error) {
+                    collectFilterError(withFilterPath(error, fieldPath), errors);
+                }
+            } else {
+                try {
+                    validated[field] = validateCondition(metadata, field, condition, aliasMetadata);
+                } catch (error) {
+                    collectFilterError(withFilterPath(error, fieldPath), errors);
+                }
+            }
+        }
+    }
+
+    return validated;
+}
+
+/**
+ * Validates every field of a filter against TypeORM entity metadata and coerces values to the column types.
+ *
+ * Unknown fields and relation paths are rejected, values are coerced to the column type (ISO strings to `Date`,
+ * numeric strings to numbers, `'true'`/`'false'` to booleans, enum values are checked against the column's enum)
+ * and operators must fit the column type (no `$regex` on numbers, no `$jsonContains` outside JSON columns).
+ *
+ * @param filter - The filter object. Supports logical operators (`$and`, `$or`, `$nor`, `$not`) and field conditions.
+ * @param metadata - The entity metadata, e.g. `dataSource.getMetadata(User)` or `qb.expressionMap.mainAlias.metadata`.
+ * @param aliasMetadata - Optional lookup for aliases joined on the query builder.
+ * @param options - Optional settings, `collectErrors` reports every error of the filter at once,
+ *   conditions on `virtualFields` are kept as given.
+ * @returns {any} - A new filter with coerced values.
+ * @throws {FilterValidationError} - If the filter does not fit the entity, with the filter path of the failing condition.
+ * @throws {FilterAggregateError} - With every error of the filter when `collectErrors` is set.
+ *
+ * Example usage:
+ * ```typescript
+ * validateFilter({ age: { $gte: '18' }, createdAt: { $lt: '2024-01-01' } }, dataSource.getMetadata(User));
+ * // { age: { $gte: 18 }, createdAt: { $lt: new Date('2024-01-01') } }
+ * ```
+ */
+function validateFilter(
+    filter: any,
+    metadata: EntityMetadata,
+    aliasMetadata?: (alias: string) => EntityMetadata | undefined,
+    options: { collectErrors?: boolean; virtualFields?: Record<string, VirtualField> } = {}
+): any {
+    const errors: FilterError[] | undefined = options.collectErrors ? [] : undefined;
+    const validated = validateFilterAt(filter, metadata, aliasMetadata, '', errors, options.virtualFields);
+    throwFilterErrors(errors);
+    return validated;
+}
+
+export default validateFilter;
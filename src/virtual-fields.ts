@@ -0,0 +1,148 @@
+import { EntityTarget, WhereExpressionBuilder } from 'typeorm';
+import { withFilterPath } from './filter-errors';
+import entityKey, { aliasMetadataLookup, findRegistered } from './entity-metadata';
+
+const registeredFields = new Map<EntityTarget<any>, Record<string, VirtualField>>();
+
+// Named parameters outside of string literals, `::` casts are not parameters
+const parameterPattern = /(?<![:\w]):[A-Za-z_]\w*/;
+
+/**
+ * Registers a virtual field of an entity, filtered and sorted by name like a stored field.
+ *
+ * @param entity - The entity class, schema or name.
+ * @param name - The field name clients use, e.g. `fullName` or `isOverdue`.
+ * @param field - The SQL `expression` the field is compared and sorted as, or the `expand` function turning a condition
+ *   on the field into a filter of stored fields, `undefined` removes the field.
+ * @throws Error if the field has neither or both of `expression` and `expand`.
+ *
+ * Example usage:
+ * ```typescript
+ * registerVirtualField(User, 'fullName', { expression: (alias) => `CONCAT(${alias}.firstName, ' ', ${alias}.lastName)` });
+ * registerVirtualField(Task, 'isOverdue', {
+ *     expand: (condition, { now }) => condition === true
+ *         ? { dueAt: { $lt: now }, status: { $notEqualTo: 'done' } }
+ *         : { $or: [{ dueAt: { $gte: now } }, { dueAt: '$isNull' }, { status: 'done' }] },
+ * });
+ * applyWhereConditionsQB(qb, 'andWhere', { fullName: { $iContains: 'smith' }, isOverdue: true }, 'user');
+ * ```
+ */
+function registerVirtualField(entity: EntityTarget<any>, name: string, field: VirtualField | undefined): void {
+    if (field !== undefined && (field.expression === undefined) === (field.expand === undefined)) {
+        throw new Error(`VIRTUAL_FIELD_MUST_HAVE_AN_EXPRESSION_OR_AN_EXPAND_FUNCTION ${name}`);
+    }
+
+    const key = entityKey(entity);
+    const fields = { ...(registeredFields.get(key) ?? {}) };
+    if (field === undefined) {
+        delete fields[name];
+    } else {
+        fields[name] = field;
+    }
+    registeredFields.set(key, fields);
+}
+
+/**
+ * Resolves the virtual fields of an alias, the fields passed explicitly take precedence over the registered ones.
+ *
+ * @param qb - The query builder holding the alias.
+ * @param alias - The alias name, defaults to the main alias.
+ * @param explicit - Virtual fields passed with the `virtualFields` option.
+ * @returns {Record<string, VirtualField> | undefined} - The virtual fields by name, `undefined` when there are none.
+ */
+export function resolveVirtualFields(qb: WhereExpressionBuilder, alias?: string, explicit?: Record<string, VirtualField>): Record<string, VirtualField> | undefined {
+    const registered = findRegistered(registeredFields, aliasMetadataLookup(qb)(alias));
+
+    return registered || explicit ? { ...registered, ...explicit } : undefined;
+}
+
+/**
+ * Returns the virtual field of a name, if there is one.
+ */
+export function findVirtualField(fields: Record<string, VirtualField> | undefined, name: string): VirtualField | undefined {
+    return fields && Object.prototype.hasOwnProperty.call(fields, name) ? fields[name] : undefined;
+}
+
+/**
+ * Builds the SQL expression of a virtual field for an alias.
+ *
+ * @throws Error if the field is expanded into a filter, or its expression has parameters: values are always bound
+ *   by the conditions compared with it.
+ */
+export function virtualFieldExpression(name: string, field: VirtualField, alias: string): string {
+    if (field.expression === undefined) {
+        throw new Error(`VIRTUAL_FIELD_HAS_NO_EXPRESSION ${name}`);
+    }
+
+    const expression = typeof field.expression === 'function' ? field.expression(alias) : field.expression;
+    if (parameterPattern.test(expression.replace(/'(?:[^']|'')*'/g, "''"))) {
+        throw new Error(`VIRTUAL_FIELD_EXPRESSION_MUST_NOT_HAVE_PARAMETERS ${name}`);
+    }
+    return expression;
+}
+
+/**
+ * Replaces the conditions on virtual fields with an `expand` function by the filters they expand to,
+ * recursing into `$and`/`$or`/`$nor`/`$not` groups and into the expanded filters.
+ *
+ * The expanded filters are merged into the filter they replace a condition of, or `AND`-ed in its `$and` group
+ * when they have conditions on the same fields.
+ * Conditions on virtual fields with an `expression` are kept, they are compared with the expression.
+ *
+ * @param filter - The filter object.
+ * @param fields - The virtual fields by name, see `resolveVirtualFields`.
+ * @param context - The time relative conditions are resolved against and the time zone of calendar units.
+ * @param path - The filter path of `filter`, errors of `expand` are tagged with the path of their condition.
+ * @returns {any} - A new filter without conditions on expanded virtual fields.
+ * @throws Error if an `expand` function does not return a filter object.
+ */
+export function expandVirtualFields(filter: any, fields: Record<string, VirtualField>, context: { now: Date; timezone: string }, path: string = ''): any {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+        return filter;
+    }
+
+    const expanded: Record<string, any> = {};
+    const groups: Record<string, any>[] = [];
+
+    for (const field in filter) {
+        if (Object.prototype.hasOwnProperty.call(filter, field)) {
+            const condition = filter[field];
+            const fieldPath = path ? `${path}.${field}` : field;
+            const virtual = findVirtualField(fields, field);
+
+            if ((field === '$and' || field === '$or' || field === '$nor') && Array.isArray(condition)) {
+                expanded[field] = condition.map((nestedFilter: any, index: number) => expandVirtualFields(nestedFilter, fields, context, `${fieldPath}[${index}]`));
+            } else if (field === '$not') {
+                expanded[field] = expandVirtualFields(condition, fields, context, fieldPath);
+            } else if (virtual?.expand) {
+                let nested: any;
+                try {
+                    nested = virtual.expand(condition, context);
+                } catch (error) {
+                    throw withFilterPath(error, fieldPath);
+                }
+                if (typeof nested !== 'object' || nested === null || Array.isArray(nested)) {
+                    throw new Error(`VIRTUAL_FIELD_MUST_EXPAND_TO_A_FILTER ${field}`);
+                }
+                nested = expandVirtualFields(nested, fields, context, fieldPath);
+                // Conditions of fields the filter has no condition on yet are merged into it
+                const collides = Object.keys(nested).some((key) => key in expanded || (key !== field && Object.prototype.hasOwnProperty.call(filter, key)));
+                if (collides) {
+                    groups.push(nested);
+                } else {
+                    Object.assign(expanded, nested);
+                }
+            } else {
+                expanded[field] = condition;
+            }
+        }
+    }
+
+    if (groups.length > 0) {
+        // A malformed `$and` is kept so compiling it reports the error
+        expanded.$and = Array.isArray(expanded.$and) ? [...expanded.$and, ...groups] : expanded.$and ?? groups;
+    }
+    return expanded;
+}
+
+export default registerVirtualField;
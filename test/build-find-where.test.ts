@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import buildFindWhere from '../src/build-find-where';
+import { FilterLimitError } from '../src/filter-limits';
+import { And, Equal, In, LessThan, Like, MoreThanOrEqual, Not } from 'typeorm';
+
+describe('buildFindWhere', () => {
+    it('should build a single where object for field conditions', () => {
+        const { where, relations } = buildFindWhere({ name: 'John', age: { $gte: 18 } });
+        expect(where).to.deep.equal({ name: Equal('John'), age: MoreThanOrEqual(18) });
+        expect(relations).to.deep.equal({});
+    });
+
+    it('should turn $or into an array of where objects', () => {
+        const { where } = buildFindWhere({ name: 'John', $or: [{ age: 30 }, { status: ['a', 'b'] }] });
+        expect(where).to.deep.equal([
+            { name: Equal('John'), age: Equal(30) },
+            { name: Equal('John'), status: In(['a', 'b']) },
+        ]);
+    });
+
+    it('should merge $and and combine operators on the same field with And', () => {
+        const { where } = buildFindWhere({ $and: [{ age: { $gte: 18 } }, { age: { $lt: 65 } }] });
+        expect(where).to.deep.equal({ age: And(MoreThanOrEqual(18), LessThan(65)) });
+    });
+
+    it('should nest dotted keys and return the relations', () => {
+        const { where, relations } = buildFindWhere({ 'author.name': 'Ann', 'author.company.name': 'Acme' });
+        expect(where).to.deep.equal({ author: { name: Equal('Ann'), company: { name: Equal('Acme') } } });
+        expect(relations).to.deep.equal({ author: { company: true } });
+    });
+
+    it('should expand nested $or inside $and into every combination', () => {
+        const { where } = buildFindWhere({ $and: [{ $or: [{ a: 1 }, { a: 2 }] }, { $or: [{ b: 1 }, { b: 2 }] }] });
+        expect(where).to.have.lengthOf(4);
+    });
+
+    it('should push $not and $nor down to the fields', () => {
+        expect(buildFindWhere({ $not: { status: 'closed', archived: true } }).where).to.deep.equal([
+            { status: Not(Equal('closed')) },
+            { archived: Not(Equal(true)) },
+        ]);
+        expect(buildFindWhere({ $nor: [{ status: 'closed' }, { 'author.name': { $startsWith: 'tmp' } }] }).where).to.deep.equal(
+            { status: Not(Equal('closed')), author: { name: Not(Like('tmp%')) } }
+        );
+        expect(buildFindWhere({ $not: { $or: [{ a: 1 }, { $not: { b: 2 } }] } }).where).to.deep.equal({ a: Not(Equal(1)), b: Equal(2) });
+    });
+
+    it('should throw an error when $or is not an array', () => {
+        expect(() => buildFindWhere({ $or: { a: 1 } })).to.throw('$OR_OPERATOR_MUST_HAVE_AN_ARRAY_OF_OBJECTS');
+    });
+
+    it('should refuse to expand AND-ed $or groups into too many where objects', () => {
+        const filter = { $and: Array.from({ length: 16 }, (_, index) => ({ $or: [{ [`a${index}`]: 1 }, { [`b${index}`]: 1 }] })) };
+        const error = (() => {
+            try {
+                buildFindWhere(filter);
+            } catch (caught) {
+                return caught as FilterLimitError;
+            }
+            return expect.fail('should have thrown');
+        })();
+        expect(error).to.be.instanceOf(FilterLimitError);
+        expect(error.message).to.equal('TOO_MANY_BRANCHES at $and');
+        expect([error.limit, error.max, error.actual]).to.deep.equal(['maxBranches', 1000, 1024]);
+
+        expect(buildFindWhere({ $and: filter.$and.slice(0, 3) }, { limits: { maxBranches: 8 } }).where).to.have.length(8);
+        expect(() => buildFindWhere({ $and: filter.$and.slice(0, 3) }, { limits: { maxBranches: 7 } })).to.throw('TOO_MANY_BRANCHES');
+    });
+});
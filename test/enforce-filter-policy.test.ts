@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import enforceFilterPolicy, { enforceSortPolicy, FilterPolicyError, registerFilterPolicy } from '../src/enforce-filter-policy';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import applySortOrderQB from '../src/qb-apply-sort-order';
+import { createDataSource, User } from './entities';
+
+describe('enforceFilterPolicy', () => {
+    const policy: FilterPolicy = {
+        filterable: { email: ['$equalTo', '$iContains'], age: true, status: ['$in'] },
+        sortable: ['name', 'createdAt'],
+        defaultSort: { createdAt: 'desc' },
+        maxSortKeys: 1,
+    };
+
+    it('should allow filters within the policy', () => {
+        const filter = { email: { $iContains: 'acme' }, age: { $gte: 18 }, $or: [{ status: ['a'] }, { email: 'x@y.z' }] };
+        expect(enforceFilterPolicy(filter, policy)).to.deep.equal(filter);
+    });
+
+    it('should reject every violation with its path', () => {
+        try {
+            enforceFilterPolicy({ passwordHash: 'x', $or: [{ age: 1 }, { email: { $regex: '.' } }] }, policy);
+            expect.fail('should have thrown');
+        } catch (error) {
+            expect(error).to.be.instanceOf(FilterPolicyError);
+            expect((error as FilterPolicyError).violations).to.deep.equal([
+                { path: 'passwordHash', field: 'passwordHash', code: 'FIELD_NOT_FILTERABLE' },
+                { path: '$or[1].email', field: 'email', operator: '$regex', code: 'OPERATOR_NOT_ALLOWED' },
+            ]);
+        }
+    });
+
+    it('should strip violations in strip mode', () => {
+        const filter = enforceFilterPolicy(
+            { passwordHash: 'x', status: 'open', $or: [{ internal: true }, { age: 1 }] },
+            { ...policy, mode: 'strip' }
+        );
+        expect(filter).to.deep.equal({ $or: [{ age: 1 }] });
+    });
+
+    it('should not take properties the policy inherits for filterable fields', () => {
+        const filter = JSON.parse('{ "constructor": 1, "toString": 1, "__proto__": 1, "age": 1 }');
+        try {
+            enforceFilterPolicy(filter, policy);
+            expect.fail('should have thrown');
+        } catch (error) {
+            expect(error).to.be.instanceOf(FilterPolicyError);
+            expect((error as FilterPolicyError).violations.map(({ path }) => path)).to.deep.equal(['constructor', 'toString', '__proto__']);
+        }
+        const stripped = enforceFilterPolicy(filter, { ...policy, mode: 'strip' });
+        expect(stripped).to.deep.equal({ age: 1 });
+        expect(Object.getPrototypeOf(stripped)).to.equal(Object.prototype);
+    });
+
+    it('should check $not, $nor and operators nested in field-level logic', () => {
+        expect(() => enforceFilterPolicy({ $not: { passwordHash: 'x' } }, policy)).to.throw('FIELD_NOT_FILTERABLE at $not.passwordHash');
+        expect(() => enforceFilterPolicy({ $nor: [{ email: { $not: { $regex: '.' } } }] }, policy)).to.throw('OPERATOR_NOT_ALLOWED at $nor[0].email');
+        expect(enforceFilterPolicy(
+            { email: { $or: [{ $iContains: 'a' }, { $regex: '.' }] }, $not: { age: 1 } },
+            { ...policy, mode: 'strip' }
+        )).to.deep.equal({ $not: { age: 1 } });
+    });
+
+    it('should check the fields of relation quantifiers as relation paths', () => {
+        const relationPolicy: FilterPolicy = { filterable: { 'posts.status': ['$equalTo'], 'posts.author.age': true } };
+        const filter = { posts: { $some: { status: 'open', 'author.age': { $gte: 18 } }, $none: {} } };
+        expect(enforceFilterPolicy(filter, relationPolicy)).to.deep.equal(filter);
+        expect(() => enforceFilterPolicy({ posts: { $every: { title: 'a' } } }, relationPolicy)).to.throw('FIELD_NOT_FILTERABLE at posts.$every.title');
+        expect(enforceFilterPolicy(
+            { posts: { $some: { title: 'a' }, $none: { status: { $in: ['closed'] } } } },
+            { ...relationPolicy, mode: 'strip' }
+        )).to.deep.equal({});
+    });
+
+    it('should enforce sortable fields, max sort keys and the default sort', () => {
+        expect(() => enforceSortPolicy({ passwordHash: 'asc' }, policy)).to.throw('FIELD_NOT_SORTABLE at passwordHash');
+        expect(() => enforceSortPolicy({ name: 'asc', createdAt: 'asc' }, policy)).to.throw('TOO_MANY_SORT_KEYS at createdAt');
+        expect(enforceSortPolicy({ passwordHash: 'asc' }, { ...policy, mode: 'strip' })).to.deep.equal({ createdAt: 'desc' });
+        expect(enforceSortPolicy({}, policy)).to.deep.equal({ createdAt: 'desc' });
+    });
+
+    describe('with the query builder helpers', () => {
+        let dataSource: DataSource;
+
+        before(async () => {
+            dataSource = await createDataSource();
+            registerFilterPolicy(User, { ...policy, mode: 'strip' });
+        });
+
+        after(() => {
+            registerFilterPolicy(User, undefined);
+        });
+
+        it('should apply the policy registered for the entity', () => {
+            const qb = dataSource.getRepository('User').createQueryBuilder('user');
+            applyWhereConditionsQB(qb, 'andWhere', { passwordHash: 'x', age: 3 }, 'user');
+            applySortOrderQB(qb, { passwordHash: 'asc' });
+            expect(qb.getQuery()).to.match(/WHERE "user"."age" = :p0 ORDER BY "user"."createdAt" DESC$/);
+        });
+
+        it('should prefer an explicit policy', () => {
+            const qb = dataSource.getRepository('User').createQueryBuilder('user');
+            expect(() => applyWhereConditionsQB(qb, 'andWhere', { age: 3 }, 'user', { policy: { filterable: {} } })).to.throw(FilterPolicyError);
+        });
+    });
+});
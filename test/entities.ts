@@ -0,0 +1,71 @@
+import { DataSource, EntitySchema } from 'typeorm';
+
+/**
+ * Entities shared by the query builder tests, defined as schemas so no decorators are needed.
+ */
+export const Company = new EntitySchema<any>({
+    name: 'Company',
+    columns: {
+        id: { type: Number, primary: true, generated: true },
+        name: { type: String },
+    },
+});
+
+export const User = new EntitySchema<any>({
+    name: 'User',
+    columns: {
+        id: { type: Number, primary: true, generated: true },
+        name: { type: String },
+        email: { type: 'varchar' },
+        age: { type: 'int', nullable: true },
+        active: { type: Boolean },
+        role: { type: 'simple-enum', enum: ['admin', 'member'] },
+        meta: { type: 'simple-json', nullable: true },
+        createdAt: { type: Date },
+    },
+    relations: {
+        company: { type: 'many-to-one', target: 'Company' },
+        posts: { type: 'one-to-many', target: 'Post', inverseSide: 'author' },
+    },
+});
+
+export const Post = new EntitySchema<any>({
+    name: 'Post',
+    columns: {
+        id: { type: Number, primary: true, generated: true },
+        title: { type: String },
+        status: { type: String },
+        tags: { type: 'varchar', array: true, nullable: true },
+    },
+    relations: {
+        author: { type: 'many-to-one', target: 'User' },
+        categories: { type: 'many-to-many', target: 'Category', inverseSide: 'posts', joinTable: true },
+    },
+});
+
+export const Category = new EntitySchema<any>({
+    name: 'Category',
+    columns: {
+        id: { type: Number, primary: true, generated: true },
+        name: { type: String },
+    },
+    relations: {
+        posts: { type: 'many-to-many', target: 'Post', inverseSide: 'categories' },
+    },
+});
+
+/**
+ * Builds a SQLite flavoured data source with entity metadata, without connecting to a database.
+ */
+export async function createDataSource(): Promise<DataSource> {
+    const dataSource = new DataSource({ type: 'capacitor', driver: {}, database: 'test', entities: [User, Company, Post, Category] } as any);
+    await (dataSource as any).buildMetadatas();
+    return dataSource;
+}
+
+/**
+ * Builds an in-memory sql.js database with the schema of the entities, for tests that run their queries.
+ */
+export async function createDatabase(): Promise<DataSource> {
+    return new DataSource({ type: 'sqljs', synchronize: true, entities: [User, Company, Post, Category] }).initialize();
+}
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import { FilterAggregateError, FilterError, FilterValidationError, UnknownOperatorError, UnsupportedDialectError } from '../src/filter-errors';
+import { FilterPolicyError } from '../src/enforce-filter-policy';
+import parseCondition from '../src/parse-condition';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import applyFiltersQB from '../src/qb-apply-filters';
+import buildFindWhere from '../src/build-find-where';
+import validateFilter from '../src/validate-filter';
+import { createDataSource } from './entities';
+
+describe('filter errors', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const caught = (fn: () => any): any => {
+        try {
+            fn();
+        } catch (error) {
+            return error;
+        }
+        expect.fail('should have thrown');
+    };
+
+    it('should carry the code, operator, value and expected type of invalid operator values', () => {
+        const error = caught(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'age', condition: { $gte: [1] } }));
+        expect(error).to.be.instanceOf(FilterValidationError).and.instanceOf(FilterError);
+        expect(error.toJSON()).to.deep.equal({
+            code: 'INVALID_OPERATOR_VALUE',
+            message: '$GTE_OPERATOR_MUST_HAVE_A_NUMBER_STRING_OR_DATE',
+            path: undefined,
+            operator: '$gte',
+            value: [1],
+            expected: 'number, string or Date',
+        });
+    });
+
+    it('should report the full filter path and keep the original stack', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        const error = caught(() => applyWhereConditionsQB(qb, 'andWhere', { $or: [{ title: 'a' }, { 'author.name': { $like: 'b' } }] }, 'post'));
+        expect(error).to.be.instanceOf(UnknownOperatorError);
+        expect(error.code).to.equal('UNKNOWN_OPERATOR');
+        expect(error.path).to.equal('$or[1].author.name');
+        expect(error.message).to.equal('INVALID_CONDITION_OPERATOR $like at $or[1].author.name');
+        expect(error.stack).to.include('parse-condition');
+    });
+
+    it('should report paths inside $not groups and field conditions of applyFiltersQB', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        expect(caught(() => applyWhereConditionsQB(qb, 'andWhere', { $not: { $and: [{ title: { $in: 'x' } }] } }, 'post')).path).to.equal('$not.$and[0].title');
+        expect(caught(() => applyFiltersQB(qb, 'post', { status: { $gt: true } })).path).to.equal('status');
+        expect(caught(() => buildFindWhere({ $or: [{ a: 1 }, 'b'] })).path).to.equal('$or[1]');
+    });
+
+    it('should throw typed errors for unsupported dialects and validation', () => {
+        expect(caught(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'a', condition: { $regex: 'x' }, dialect: 'sqlite' })))
+            .to.be.instanceOf(UnsupportedDialectError).and.include({ code: 'UNSUPPORTED_OPERATOR_ON_DIALECT', operator: '$regex' });
+        expect(caught(() => validateFilter({ $or: [{ role: 'root' }] }, dataSource.getMetadata('User'))))
+            .to.be.instanceOf(FilterValidationError).and.include({ code: 'INVALID_ENUM_VALUE', path: '$or[0].role', value: 'root', expected: 'admin, member' });
+        expect(caught(() => validateFilter({ nope: 1 }, dataSource.getMetadata('User')))).to.include({ code: 'UNKNOWN_FIELD', path: 'nope' });
+        expect(caught(() => applyWhereConditionsQB(
+            dataSource.getRepository('User').createQueryBuilder('user'), 'andWhere', { email: 'x' }, 'user', { policy: { filterable: {} } }
+        ))).to.be.instanceOf(FilterPolicyError).and.instanceOf(FilterError);
+    });
+
+    it('should collect every error of a filter when asked to', () => {
+        const filter = { age: { $gte: [] }, $or: [{ name: { $like: 'a' } }, { email: { $in: 'x' } }], active: true };
+
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        const qbError = caught(() => applyWhereConditionsQB(qb, 'andWhere', filter, 'user', { collectErrors: true }));
+        expect(qbError).to.be.instanceOf(FilterAggregateError);
+        expect(qb.getQuery()).not.to.contain('WHERE');
+        expect(qb.getParameters()).to.deep.equal({});
+        expect(qbError.errors.map((error: FilterError) => `${error.code} ${error.path}`)).to.deep.equal([
+            'INVALID_OPERATOR_VALUE age', 'UNKNOWN_OPERATOR $or[0].name', 'INVALID_OPERATOR_VALUE $or[1].email',
+        ]);
+
+        const findError = caught(() => buildFindWhere(filter, { collectErrors: true }));
+        expect(findError.errors.map((error: FilterError) => error.path)).to.deep.equal(['age', '$or[0].name', '$or[1].email']);
+
+        const validationError = caught(() => validateFilter({ age: 'x', active: 'maybe', nope: 1 }, dataSource.getMetadata('User'), undefined, { collectErrors: true }));
+        expect(validationError.toJSON().errors.map((error: any) => error.code)).to.deep.equal(['INVALID_VALUE_FOR_COLUMN_TYPE', 'INVALID_VALUE_FOR_COLUMN_TYPE', 'UNKNOWN_FIELD']);
+    });
+});
@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import enforceFilterLimits, { FilterLimitError, filterComplexity, setDefaultFilterLimits } from '../src/filter-limits';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import applyFiltersQB from '../src/qb-apply-filters';
+import applySortOrderQB from '../src/qb-apply-sort-order';
+import { FilterError } from '../src/filter-errors';
+import { createDataSource } from './entities';
+
+describe('filter limits', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const posts = () => dataSource.getRepository('Post').createQueryBuilder('post');
+    const caught = (fn: () => unknown): any => {
+        try {
+            fn();
+        } catch (error) {
+            return error;
+        }
+        expect.fail('should have thrown');
+    };
+
+    it('should reject filters nested too deep or with too many predicates', () => {
+        const deep = { $or: [{ title: 'a' }, { $and: [{ status: { $not: { $in: ['x'] } } }] }] };
+        const error = caught(() => enforceFilterLimits(deep, { maxDepth: 3 }));
+        expect(error).to.be.instanceOf(FilterLimitError).and.instanceOf(FilterError);
+        expect(error.toJSON()).to.deep.equal({
+            code: 'FILTER_LIMIT_EXCEEDED',
+            message: 'FILTER_TOO_DEEP at $or[1].$and[0].status.$not',
+            path: '$or[1].$and[0].status.$not',
+            operator: undefined,
+            value: undefined,
+            expected: 'at most 3',
+            limit: 'maxDepth',
+            max: 3,
+            actual: 4,
+        });
+        expect(() => enforceFilterLimits(deep, { maxDepth: 4 })).not.to.throw();
+
+        expect(() => enforceFilterLimits({ title: 'a', status: ['x', 'y'], id: { $gt: 1, $lt: 9 } }, { maxPredicates: 3 }))
+            .to.throw(FilterLimitError, 'TOO_MANY_PREDICATES at id.$lt');
+    });
+
+    it('should reject long lists, strings and patterns without echoing them', () => {
+        const ids = Array.from({ length: 501 }, (_, index) => index);
+        const error = caught(() => enforceFilterLimits({ id: { $in: ids } }, { maxListLength: 500 }));
+        expect(error.message).to.equal('LIST_TOO_LONG at id.$in');
+        expect([error.limit, error.max, error.actual, error.value]).to.deep.equal(['maxListLength', 500, 501, undefined]);
+
+        expect(() => enforceFilterLimits({ tags: ['a', 'x'.repeat(11)] }, { maxStringLength: 10 })).to.throw('STRING_TOO_LONG at tags');
+        expect(() => enforceFilterLimits({ meta: { $contains: { note: 'x'.repeat(10) } } }, { maxStringLength: 10 })).to.throw('STRING_TOO_LONG at meta.$contains');
+        expect(() => enforceFilterLimits({ title: { $regex: '(a+)+'.repeat(4) } }, { maxRegexLength: 16, maxStringLength: 100 }))
+            .to.throw('PATTERN_TOO_LONG at title.$regex');
+        expect(() => enforceFilterLimits({ title: { $iContains: '(a+)+'.repeat(4) } }, { maxRegexLength: 16 })).not.to.throw();
+    });
+
+    it('should reject denied operators, including logical operators and quantifiers', () => {
+        const limits: FilterLimits = { deniedOperators: ['$regex', '$nor', '$every'] };
+        const error = caught(() => enforceFilterLimits({ $or: [{ title: { $regex: '^a' } }] }, limits));
+        expect(error.message).to.equal('OPERATOR_DENIED $regex at $or[0].title.$regex');
+        expect([error.limit, error.operator, error.max]).to.deep.equal(['deniedOperators', '$regex', undefined]);
+
+        expect(() => enforceFilterLimits({ $nor: [{ title: 'a' }] }, limits)).to.throw('OPERATOR_DENIED $nor at $nor');
+        expect(() => enforceFilterLimits({ posts: { $every: { status: 'open' } } }, limits)).to.throw('OPERATOR_DENIED $every at posts.$every');
+    });
+
+    it('should measure the complexity of filters', () => {
+        expect(filterComplexity({ status: ['open', 'pending'], $or: [{ title: { $regex: '^a' } }, { 'author.name': 'John' }] })).to.deep.equal({
+            depth: 2, predicates: 3, longestList: 2, longestString: 7, operators: ['$in', '$or', '$regex', '$equalTo'], score: 7,
+        });
+        expect(filterComplexity({ posts: { $some: { id: Array.from({ length: 25 }, (_, index) => index) } }, deletedAt: '$isNull' }))
+            .to.deep.include({ depth: 2, predicates: 2, longestList: 25, score: 14 });
+    });
+
+    it('should enforce the limits in the apply helpers before compiling', () => {
+        const limits: FilterLimits = { maxDepth: 2, maxListLength: 2, maxSortKeys: 1, deniedOperators: ['$regex'] };
+        expect(() => applyWhereConditionsQB(posts(), 'andWhere', { title: { $regex: 'a' } }, 'post', { limits })).to.throw('OPERATOR_DENIED $regex at title.$regex');
+        expect(() => applyFiltersQB(posts(), 'post', { id: [1, 2, 3] }, { limits })).to.throw('LIST_TOO_LONG at id');
+        expect(() => applyWhereConditionsQB(posts(), 'andWhere', { unknown: { $or: [{ $and: [1] }] } }, 'post', { limits })).to.throw('FILTER_TOO_DEEP');
+
+        expect(() => applySortOrderQB(posts(), { title: 'asc', id: 'desc' }, { limits })).to.throw(FilterLimitError, 'TOO_MANY_SORT_KEYS');
+        expect(() => applySortOrderQB(posts(), [{ field: 'status', values: ['a', 'b', 'c'] }], { limits })).to.throw('LIST_TOO_LONG at status');
+        expect(applySortOrderQB(posts(), { title: 'asc' }, { limits }).getQuery()).to.contain('ORDER BY "post"."title" ASC');
+    });
+
+    it('should enforce the default limits when no limits are given', () => {
+        setDefaultFilterLimits({ maxPredicates: 1 });
+        try {
+            expect(() => applyWhereConditionsQB(posts(), 'andWhere', { title: 'a', status: 'b' }, 'post')).to.throw('TOO_MANY_PREDICATES at status');
+            const qb = posts();
+            applyWhereConditionsQB(qb, 'andWhere', { title: 'a', status: 'b' }, 'post', { limits: {} });
+            expect(qb.getQuery()).to.contain('WHERE "post"."title" = :p0 AND "post"."status" = :p1');
+        } finally {
+            setDefaultFilterLimits(undefined);
+        }
+    });
+});
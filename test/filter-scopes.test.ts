@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { Brackets, DataSource } from 'typeorm';
+import registerFilterScope, { applyScopesQB, createScopeRegistry, defaultScopeRegistry } from '../src/filter-scopes';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import applyFiltersQB from '../src/qb-apply-filters';
+import { applyAggregateQB } from '../src/qb-aggregate';
+import { createDataSource, Post } from './entities';
+
+describe('filter scopes', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const where = (qb: any) => qb.getQuery().replace(/^.*? WHERE /, '').replace(/:[a-zA-Z0-9_.]+/g, ':p');
+    const posts = () => dataSource.getRepository('Post').createQueryBuilder('post');
+
+    it('should AND the scopes after a user filter so $or and orWhere cannot bypass them', () => {
+        const scopes = createScopeRegistry()
+            .registerScope('tenant', { entity: Post, filter: (context) => ({ 'author.company.id': context.tenantId }) })
+            .registerScope('published', { alias: 'post', filter: { status: { $notEqualTo: 'deleted' } } });
+
+        const qb = posts();
+        applyWhereConditionsQB(qb, 'andWhere', { $or: [{ title: 'a' }, { title: 'b' }] }, 'post', { scopes, scopeContext: { tenantId: 7 } });
+        applyWhereConditionsQB(qb, 'orWhere', { status: 'draft' }, 'post', { scopes, scopeContext: { tenantId: 7 } });
+
+        expect(where(qb)).to.equal('(("post"."title" = :p OR "post"."title" = :p) OR "post"."status" = :p) '
+            + 'AND ("post_author"."companyId" = :p AND "post"."status" != :p)');
+        expect(qb.getParameters()).to.deep.equal({ p0: 'a', p1: 'b', p2: 7, p3: 'deleted', p4: 'draft' });
+    });
+
+    it('should scope queries once, including filters stripped to nothing and sub queries but not brackets', () => {
+        const scopes = createScopeRegistry().setContextProvider(() => ({ status: 'open' }))
+            .registerScope('open', { entity: 'Post', filter: (context) => ({ status: context.status }) });
+
+        const qb = posts();
+        applyFiltersQB(qb, 'post', {}, { scopes });
+        qb.andWhere(new Brackets((brackets) => applyWhereConditionsQB(brackets, 'orWhere', { title: 'a' }, 'post', { scopes })));
+        applyScopesQB(qb, 'post', { scopes });
+        expect(where(qb)).to.equal('("post"."title" = :p) AND ("post"."status" = :p)');
+
+        const subQuery = qb.subQuery().from('Post', 'sub').select('sub.id');
+        applyWhereConditionsQB(subQuery, 'andWhere', { title: 'b' }, 'sub', { scopes });
+        expect(where(subQuery)).to.equal('"sub"."title" = :p AND ("sub"."status" = :p))');
+    });
+
+    it('should apply a scope that threw on the next apply instead of skipping it', () => {
+        const scopes = createScopeRegistry().registerScope('tenant', { entity: Post, filter: (context) => ({ id: { $gt: context.tenantId } }) });
+
+        const qb = posts();
+        expect(() => applyScopesQB(qb, 'post', { scopes })).to.throw('CONDITION_VALUE_CANNOT_BE_UNDEFINED_OR_NULL at $scopes.tenant.id');
+        applyWhereConditionsQB(qb, 'andWhere', { title: 'a' }, 'post', { scopes, scopeContext: { tenantId: 7 } });
+        expect(where(qb)).to.equal('"post"."title" = :p AND ("post"."id" > :p)');
+    });
+
+    it('should scope the rows of aggregates', () => {
+        const scopes = createScopeRegistry().registerScope('open', { alias: 'post', filter: { status: 'open' } });
+        const qb = applyAggregateQB(posts(), { groupBy: ['title'], aggregates: { posts: { $count: '*' } } }, { scopes });
+        expect(qb.getQuery()).to.contain('WHERE ("post"."status" = :p0) GROUP BY "post"."title"');
+    });
+
+    it('should disable scopes explicitly and report them to the audit listener', () => {
+        const events: ScopeAuditEvent[] = [];
+        const scopes = createScopeRegistry()
+            .registerScope('tenant', { entity: Post, filter: { 'author.company.id': 1 } })
+            .registerScope('notDeleted', { entity: Post, filter: { status: { $notEqualTo: 'deleted' } } })
+            .setAuditListener((event) => events.push(event));
+
+        const qb = posts();
+        applyWhereConditionsQB(qb, 'andWhere', { title: 'a' }, 'post', { scopes, disableScopes: { names: ['notDeleted'], reason: 'restore post' }, scopeContext: { userId: 3 } });
+        expect(where(qb)).to.equal('"post"."title" = :p AND ("post_author"."companyId" = :p)');
+        expect(events).to.deep.equal([{ scope: 'notDeleted', alias: 'post', entity: 'Post', reason: 'restore post', context: { userId: 3 } }]);
+
+        const all = posts();
+        applyWhereConditionsQB(all, 'andWhere', { title: 'a' }, 'post', { scopes, disableScopes: { names: 'all', reason: 'support export' } });
+        expect(where(all)).to.equal('"post"."title" = :p');
+        expect(events.map(({ scope }) => scope)).to.deep.equal(['notDeleted', 'tenant', 'notDeleted']);
+
+        expect(() => applyScopesQB(posts(), 'post', { scopes, disableScopes: { names: ['tenant'], reason: ' ' } })).to.throw('DISABLE_SCOPES_MUST_HAVE_A_REASON');
+        expect(() => applyScopesQB(posts(), 'post', { scopes, disableScopes: { names: ['tennant'], reason: 'typo' } })).to.throw('UNKNOWN_FILTER_SCOPE tennant');
+    });
+
+    it('should validate registered scopes and use the default registry', () => {
+        expect(() => registerFilterScope('a b', { alias: 'post', filter: {} })).to.throw('INVALID_SCOPE_NAME a b');
+        expect(() => registerFilterScope('open', { entity: Post, alias: 'post', filter: {} })).to.throw('SCOPE_MUST_HAVE_AN_ENTITY_OR_AN_ALIAS open');
+        expect(() => registerFilterScope('open', { alias: 'post', filter: 'open' as any })).to.throw('SCOPE_MUST_HAVE_A_FILTER open');
+
+        registerFilterScope('open', { entity: Post, filter: { status: 'open' } });
+        try {
+            const qb = posts();
+            applyWhereConditionsQB(qb, 'andWhere', { title: 'a' }, 'post');
+            expect(where(qb)).to.equal('"post"."title" = :p AND ("post"."status" = :p)');
+        } finally {
+            defaultScopeRegistry.unregisterScope('open');
+        }
+    });
+});
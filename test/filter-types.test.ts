@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { DataSource, SelectQueryBuilder } from 'typeorm';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import applySortOrderQB from '../src/qb-apply-sort-order';
+import buildFindWhere from '../src/build-find-where';
+import parseCondition from '../src/parse-condition';
+import { Filter, Sort } from '../src/filter-types';
+import { createDataSource } from './entities';
+
+// Entity types of the test schemas, the compile-time checks below are verified by `tsc`
+interface CompanyEntity {
+    id: number;
+    name: string;
+}
+
+interface UserEntity {
+    id: number;
+    name: string;
+    email: string;
+    age: number | null;
+    active: boolean;
+    role: 'admin' | 'member';
+    meta: { plan: string; seats: number } | null;
+    createdAt: Date;
+    company: CompanyEntity;
+    posts: PostEntity[];
+}
+
+interface PostEntity {
+    id: number;
+    title: string;
+    status: string;
+    tags: string[] | null;
+    author: UserEntity;
+}
+
+describe('Filter and Sort types', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const users = () => dataSource.getRepository('User').createQueryBuilder('user') as SelectQueryBuilder<UserEntity>;
+
+    it('should accept conditions matching the property types', () => {
+        const filter: Filter<UserEntity> = {
+            name: { $startsWith: 'Jo' },
+            age: { $between: [18, 65] },
+            createdAt: { $gte: 'now-7d' },
+            'company.name': ['Acme', 'Globex'],
+            meta: { $jsonHasKey: 'plan' },
+            posts: { $some: { status: 'published' }, $none: { 'author.age': { $lt: 18 } } },
+            'meta->seats': { $gte: 5 },
+            $or: [{ role: 'admin' }, { active: true, 'posts.title': { $iContains: 'news' } }],
+        };
+        expect(() => applyWhereConditionsQB(users(), 'andWhere', filter, 'user', { dialect: 'postgres' })).not.to.throw();
+
+        const { where } = buildFindWhere<PostEntity>({ tags: { $arrayOverlap: ['a', 'b'] }, 'author.age': '$isNull' });
+        expect(where).to.have.keys('tags', 'author');
+    });
+
+    it('should reject unknown fields and operators the property type does not support', () => {
+        const rejected = (): Filter<UserEntity>[] => [
+            // @ts-expect-error `nmae` is not a property
+            { nmae: 'John' },
+            // @ts-expect-error string operators need a string property
+            { age: { $contains: '1' } },
+            // @ts-expect-error `$between` needs a number or date property
+            { active: { $between: [0, 1] } },
+            // @ts-expect-error JSON operators need an object property
+            { name: { $jsonContains: { a: 1 } } },
+            // @ts-expect-error the value must be one of the enum values
+            { role: 'owner' },
+            // @ts-expect-error relation paths are checked as well
+            { 'company.title': 'Acme' },
+            // @ts-expect-error filters of relation quantifiers are checked against the related entity
+            { posts: { $every: { titel: 'a' } } },
+            // @ts-expect-error quantifiers need a relation
+            { name: { $some: {} } },
+            // @ts-expect-error JSON paths need an object property
+            { 'name->first': 'John' },
+        ];
+        expect(rejected).to.be.a('function');
+
+        // @ts-expect-error the value must be a number
+        const condition = () => parseCondition<number>({ conditionFor: 'qb', fieldAlias: 'user.age', condition: { $gt: 'old' } });
+        expect(condition).to.be.a('function');
+    });
+
+    it('should keep accepting dynamic filters', () => {
+        const dynamic: Record<string, any> = JSON.parse('{"age":{"$gte":18}}');
+        applyWhereConditionsQB(users(), 'andWhere', dynamic, 'user');
+        expect(parseCondition({ conditionFor: 'qb', fieldAlias: 'user.age', condition: JSON.parse('{"$gte":18}') }).query).to.equal('user.age >= :p0');
+    });
+
+    it('should check sort fields and computed expression names', () => {
+        const sort: Sort<UserEntity> = [{ field: 'company.name', nulls: 'last' }, { field: 'createdAt', order: 'desc' }];
+        expect(applySortOrderQB(users(), sort).getQuery()).to.contain('ORDER BY');
+        expect(applySortOrderQB(users(), { score: 'desc' }, { expressions: { score: (alias) => `${alias}.age * 2` } }).getQuery()).to.contain('"user"."age" * 2 AS "__order_0"');
+
+        // @ts-expect-error relations cannot be sorted by
+        const invalid = () => applySortOrderQB(users(), { company: 'asc' });
+        expect(invalid).to.be.a('function');
+    });
+
+    it('should accept the names of virtual fields', () => {
+        const virtualFields = { nameLength: { expression: (alias: string) => `LENGTH(${alias}.name)` } };
+        applyWhereConditionsQB(users(), 'andWhere', { nameLength: { $gt: 3 }, $or: [{ nameLength: 1 }, { age: 18 }] }, 'user', { virtualFields });
+        expect(applySortOrderQB(users(), { nameLength: 'desc' }, { virtualFields }).getQuery()).to.contain('LENGTH("user"."name") AS "__order_0"');
+
+        // @ts-expect-error only the names of the virtual fields passed are accepted
+        const invalid = () => applyWhereConditionsQB(users(), 'andWhere', { nameSize: 3 }, 'user', { virtualFields });
+        expect(invalid).to.be.a('function');
+    });
+});
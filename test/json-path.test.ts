@@ -0,0 +1,29 @@
+import { expect } from 'chai';
+import parseJsonPath, { jsonPathCast, jsonPathExpression } from '../src/json-path';
+
+describe('parseJsonPath', () => {
+    it('should parse the column, keys, array indexes and cast of a JSON path field', () => {
+        expect(parseJsonPath('author.meta->limits->seats::numeric')).to.deep.equal({ column: 'author.meta', segments: ['limits', 'seats'], cast: 'numeric' });
+        expect(parseJsonPath('meta->features->0')).to.deep.equal({ column: 'meta', segments: ['features', 0], cast: undefined });
+        expect(parseJsonPath('meta')).to.equal(undefined);
+    });
+
+    it('should throw an error for empty segments and unknown casts', () => {
+        expect(() => parseJsonPath('meta->->plan')).to.throw('INVALID_JSON_PATH meta->->plan').with.property('code', 'INVALID_JSON_PATH');
+        expect(() => parseJsonPath('meta->plan::int')).to.throw('INVALID_JSON_PATH_CAST int');
+    });
+
+    it('should infer the cast from the condition', () => {
+        expect([{ $gt: 100 }, [1, 2], true, 'now-7d', { $dateEquals: '2024-03-10' }, { $jsonHasKey: 'a' }, { $or: [{ $lt: 5 }] }, 'pro', '$isNull'].map(jsonPathCast))
+            .to.deep.equal(['numeric', 'numeric', 'boolean', 'timestamp', 'timestamp', 'json', 'numeric', 'text', 'text']);
+    });
+
+    it('should bind the path as a parameter on every dialect', () => {
+        expect(jsonPathExpression('product.meta', ['price'], 'numeric', 'p0', 'postgres')).to.deep.equal({ query: 'CAST(product.meta #>> :p0 AS numeric)', parameters: { p0: ['price'] } });
+        expect(jsonPathExpression('product.meta', ['sizes', 0], 'text', 'p0', 'mysql'))
+            .to.deep.equal({ query: 'JSON_UNQUOTE(JSON_EXTRACT(product.meta, :p0))', parameters: { p0: '$."sizes"[0]' } });
+        expect(jsonPathExpression('product.meta', ['a"b\'); DROP TABLE x; --'], 'boolean', 'p0', 'sqlite'))
+            .to.deep.equal({ query: 'json_extract(product.meta, :p0)', parameters: { p0: '$."a\\"b\'); DROP TABLE x; --"' } });
+        expect(jsonPathExpression('product.meta', ['released'], 'timestamp', 'p0', 'mssql').query).to.equal('CAST(JSON_VALUE(product.meta, :p0) AS DATETIMEOFFSET)');
+    });
+});
@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import compileFilterToPredicate, { matchesFilter } from '../src/match-filter';
+import { createOperatorRegistry } from '../src/operator-registry';
+
+describe('matchesFilter', () => {
+    const user: Record<string, any> = {
+        name: 'John Smith',
+        email: 'john@example.com',
+        age: 34,
+        active: true,
+        nickname: null,
+        createdAt: new Date('2024-03-10T12:00:00Z'),
+        tags: ['admin', 'beta'],
+        meta: { plan: 'pro', limits: { seats: 5 }, features: ['sso', 'audit'] },
+        company: { name: 'Acme' },
+        posts: [
+            { title: 'Hello world', status: 'published' },
+            { title: 'Draft notes', status: 'draft' },
+        ],
+    };
+
+    it('should evaluate bare values, lists and comparison operators', () => {
+        expect(matchesFilter(user, { name: 'John Smith', age: [30, 34] })).to.equal(true);
+        expect(matchesFilter(user, { age: { $gte: 18, $lt: 30 } })).to.equal(false);
+        expect(matchesFilter(user, { age: { $between: [30, 40] }, active: true })).to.equal(true);
+        expect(matchesFilter(user, { age: { $notIn: [34] } })).to.equal(false);
+        expect(matchesFilter(user, { age: '34' })).to.equal(true);
+    });
+
+    it('should never match comparisons with null, not even negated', () => {
+        expect(matchesFilter(user, { nickname: '$isNull', email: '$isNotNull' })).to.equal(true);
+        expect(matchesFilter(user, { nickname: { $notEqualTo: 'Jo' } })).to.equal(false);
+        expect(matchesFilter(user, { $not: { nickname: 'Jo' } })).to.equal(false);
+        expect(matchesFilter(user, { missing: { $not: { $startsWith: 'a' } } })).to.equal(false);
+        expect(matchesFilter(user, { $or: [{ nickname: 'Jo' }, { age: 34 }] })).to.equal(true);
+        expect(matchesFilter(user, { $nor: [{ nickname: 'Jo' }, { age: 40 }] })).to.equal(false);
+    });
+
+    it('should follow the LIKE case rules of the dialect', () => {
+        expect(matchesFilter(user, { name: { $startsWith: 'john' } })).to.equal(false);
+        expect(matchesFilter(user, { name: { $startsWith: 'john' } }, { dialect: 'mysql' })).to.equal(true);
+        expect(matchesFilter(user, { name: { $iContains: 'SMITH' } })).to.equal(true);
+        expect(matchesFilter(user, { email: { $endsWith: '@example.com' } })).to.equal(true);
+        expect(matchesFilter(user, { name: { $contains: 'n_S' } })).to.equal(true);
+        expect(matchesFilter(user, { email: { $regexi: '^JOHN@' }, name: { $notRegex: '\\d' } })).to.equal(true);
+    });
+
+    it('should match every search term like the SQLite fallback', () => {
+        expect(matchesFilter(user, { name: { $search: 'smith  JOHN' } })).to.equal(true);
+        expect(matchesFilter(user, { name: { $search: { query: 'john doe' } } })).to.equal(false);
+        expect(matchesFilter(user, { name: { $search: 'n_s' } })).to.equal(false);
+    });
+
+    it('should compare dates, relative dates and calendar dates', () => {
+        const clock = () => new Date('2024-03-15T00:00:00Z');
+        expect(matchesFilter(user, { createdAt: { $gte: 'now-7d' } }, { clock })).to.equal(true);
+        expect(matchesFilter(user, { createdAt: { $gte: 'now-1d' } }, { clock })).to.equal(false);
+        expect(matchesFilter(user, { createdAt: { $dateEquals: '2024-03-10' } })).to.equal(true);
+        expect(matchesFilter(user, { createdAt: { $dateEquals: '2024-03-10' } }, { timezone: 'Pacific/Kiritimati' })).to.equal(false);
+        expect(matchesFilter<any>({ createdAt: '2024-03-10T12:00:00.000Z' }, { createdAt: { $lt: new Date('2024-03-11') } })).to.equal(true);
+    });
+
+    it('should match JSON and array operators', () => {
+        expect(matchesFilter(user, { meta: { $jsonContains: { limits: { seats: 5 }, features: ['audit'] } } })).to.equal(true);
+        expect(matchesFilter(user, { meta: { $jsonContains: { plan: 'free' } } })).to.equal(false);
+        expect(matchesFilter<any>({ meta: '{"plan":"pro"}' }, { meta: { $jsonEquals: { plan: 'pro' }, $jsonHasKey: 'plan' } })).to.equal(true);
+        expect(matchesFilter(user, { tags: { $arrayContains: ['beta'], $arrayLength: { $gte: 2 } } })).to.equal(true);
+        expect(matchesFilter(user, { tags: { $arrayContainedBy: ['admin'] } })).to.equal(false);
+        expect(matchesFilter(user, { tags: { $anyEquals: 'admin' } })).to.equal(true);
+    });
+
+    it('should compare values extracted with JSON paths', () => {
+        expect(matchesFilter(user, { 'meta->limits->seats': { $gt: 4 }, 'meta->features->1': 'audit' })).to.equal(true);
+        expect(matchesFilter(user, { 'meta->limits->seats::text': { $startsWith: '5' }, 'meta->limits': { $jsonContains: { seats: 5 } } })).to.equal(true);
+        expect(matchesFilter<any>({ meta: '{"trial":{"ends":"2024-03-20T00:00:00Z"}}' }, { 'meta->trial->ends': { $gte: new Date('2024-03-15') } })).to.equal(true);
+        expect(matchesFilter(user, { 'meta->missing': { $not: { $equalTo: 'x' } } })).to.equal(false);
+    });
+
+    it('should match dotted paths like joined relations', () => {
+        expect(matchesFilter(user, { 'company.name': 'Acme' })).to.equal(true);
+        expect(matchesFilter(user, { 'posts.status': 'draft' })).to.equal(true);
+        // Both conditions must hold for the same post
+        expect(matchesFilter(user, { 'posts.status': 'draft', 'posts.title': { $startsWith: 'Hello' } })).to.equal(false);
+        expect(matchesFilter<any>({ posts: [] }, { 'posts.title': '$isNull' })).to.equal(true);
+        expect(matchesFilter<any>({ company: null }, { 'company.name': { $not: { $equalTo: 'Acme' } } })).to.equal(false);
+    });
+
+    it('should test related entities with $some, $none and $every like EXISTS', () => {
+        expect(matchesFilter(user, { posts: { $some: { status: 'draft', title: { $startsWith: 'Draft' } } } })).to.equal(true);
+        expect(matchesFilter(user, { posts: { $none: { status: 'archived' }, $every: { title: '$isNotNull' } } })).to.equal(true);
+        expect(matchesFilter(user, { posts: { $every: { status: 'published' } } })).to.equal(false);
+        expect(matchesFilter(user, { company: { $some: { name: 'Acme' } } })).to.equal(true);
+        // Related entities the filter is UNKNOWN for break $every, an empty relation satisfies it
+        expect(matchesFilter<any>({ posts: [{ status: null }] }, { posts: { $every: { status: { $not: { $equalTo: 'draft' } } } } })).to.equal(false);
+        expect(matchesFilter<any>({ posts: [] }, { posts: { $every: { status: 'x' } }, $not: { posts: { $some: {} } } })).to.equal(true);
+        expect(() => matchesFilter(user, { posts: { $some: 'draft' } })).to.throw('$SOME_OPERATOR_MUST_HAVE_A_FILTER_OBJECT at posts');
+    });
+
+    it('should compile a reusable predicate', () => {
+        const isPublished = compileFilterToPredicate({ 'posts.status': 'published' });
+        expect([user, { posts: [{ status: 'draft' }] }].filter(isPublished)).to.deep.equal([user]);
+    });
+
+    it('should throw the errors of the query builder with the filter path', () => {
+        expect(() => matchesFilter(user, { $or: [{ age: { $gte: true } }] })).to.throw('$GTE_OPERATOR_MUST_HAVE_A_NUMBER_STRING_OR_DATE at $or[0].age');
+        expect(() => matchesFilter(user, { age: { $unknown: 1 } })).to.throw('INVALID_CONDITION_OPERATOR $unknown');
+        expect(() => matchesFilter(user, { name: { $search: { query: 'john', columns: ['email'] } } })).to.throw('UNSUPPORTED_OPERATOR_IN_MEMORY $search');
+        expect(() => matchesFilter(user, { name: { $regex: '(' } })).to.throw('$REGEX_OPERATOR_MUST_HAVE_A_VALID_PATTERN');
+        expect(() => matchesFilter(user, { email: { $regex: 'x' } }, { dialect: 'sqlite' })).to.throw('UNSUPPORTED_OPERATOR_ON_DIALECT $regex sqlite');
+    });
+
+    it('should evaluate custom operators with toPredicate', () => {
+        const operators = createOperatorRegistry().registerOperator('$divisibleBy', {
+            validate: (value) => Number.isInteger(value) && value > 0,
+            toQB: (value, { fieldAlias, param }) => ({ query: `MOD(${fieldAlias}, :${param}) = 0`, parameters: { [param]: value } }),
+            toPredicate: (value) => (column) => column % value === 0,
+        });
+        expect(matchesFilter(user, { age: { $divisibleBy: 17 } }, { operators })).to.equal(true);
+        expect(matchesFilter(user, { age: { $divisibleBy: 5 } }, { operators })).to.equal(false);
+    });
+});
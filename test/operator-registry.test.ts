@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { Not, Equal } from 'typeorm';
+import parseCondition from '../src/parse-condition';
+import buildFindWhere from '../src/build-find-where';
+import registerOperator, { createOperatorRegistry, defaultOperatorRegistry } from '../src/operator-registry';
+
+const divisibleBy: OperatorDefinition = {
+    validate: (value) => Number.isInteger(value) && value > 0,
+    expected: 'positive integer',
+    toQB: (value, { fieldAlias, param }) => ({ query: `MOD(${fieldAlias}, :${param}) = 0`, parameters: { [param]: value } }),
+};
+
+describe('operator registry', () => {
+    afterEach(() => {
+        defaultOperatorRegistry.unregisterOperator('$divisibleBy');
+        defaultOperatorRegistry.unregisterOperator('$notZero');
+    });
+
+    it('should register the built-in operators on every registry', () => {
+        expect(createOperatorRegistry().operatorNames()).to.include.members(['$in', '$gte', '$iContains', '$regex', '$jsonHasKey']);
+    });
+
+    it('should compile a custom operator for qb and as a Raw condition for find', () => {
+        registerOperator('$divisibleBy', divisibleBy);
+
+        const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'item.quantity', condition: { $divisibleBy: 6 } });
+        expect(result.query).to.match(/^MOD\(item\.quantity, :p0\) = 0$/);
+        expect(Object.values(result.parameters)).to.deep.equal([6]);
+
+        const raw: any = parseCondition({ conditionFor: 'find', fieldAlias: 'quantity', condition: { $divisibleBy: 6 } });
+        expect(raw.type).to.equal('raw');
+        expect(raw.getSql('"item"."quantity"')).to.match(/^MOD\("item"\."quantity", :p0\) = 0$/);
+        expect(Object.values(raw.objectLiteralParameters)).to.deep.equal([6]);
+    });
+
+    it('should use toFind and combine custom operators with the logical operators', () => {
+        registerOperator('$notZero', { toQB: (value, { fieldAlias }) => ({ query: `${fieldAlias} <> 0` }), toFind: () => Not(Equal(0)) });
+
+        expect(buildFindWhere({ $not: { age: { $notZero: true } } }).where).to.deep.equal({ age: Not(Not(Equal(0))) });
+    });
+
+    it('should reject invalid values with the validate function', () => {
+        registerOperator('$divisibleBy', divisibleBy);
+        expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'item.quantity', condition: { $divisibleBy: 0 } }))
+            .to.throw('INVALID_VALUE_FOR_OPERATOR $divisibleBy').with.property('expected', 'positive integer');
+    });
+
+    it('should keep operators registered on a registry to that registry', () => {
+        const operators = createOperatorRegistry().registerOperator('$divisibleBy', divisibleBy);
+
+        expect(parseCondition({ conditionFor: 'qb', fieldAlias: 'item.quantity', condition: { $divisibleBy: 2 }, operators }).query).to.match(/^MOD/);
+        expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'item.quantity', condition: { $divisibleBy: 2 } })).to.throw('INVALID_CONDITION_OPERATOR $divisibleBy');
+        expect(defaultOperatorRegistry.hasOperator('$divisibleBy')).to.equal(false);
+    });
+
+    it('should reject a custom operator on a dialect it does not support', () => {
+        const operators = createOperatorRegistry().registerOperator('$divisibleBy', { ...divisibleBy, dialects: ['postgres', 'mysql'] });
+        expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'item.quantity', condition: { $divisibleBy: 2 }, dialect: 'sqlite', operators }))
+            .to.throw('UNSUPPORTED_OPERATOR_ON_DIALECT $divisibleBy sqlite');
+    });
+
+    it('should not allow logical operators or names without $ to be registered', () => {
+        expect(() => registerOperator('$or', divisibleBy)).to.throw('OPERATOR_IS_RESERVED $or');
+        expect(() => registerOperator('divisibleBy', divisibleBy)).to.throw('INVALID_OPERATOR_NAME divisibleBy');
+    });
+
+    it('should fail with INVALID_CONDITION_OPERATOR once an operator is unregistered', () => {
+        const operators = createOperatorRegistry();
+        operators.unregisterOperator('$contains');
+        expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'user.name', condition: { $contains: 'a' }, operators })).to.throw('INVALID_CONDITION_OPERATOR $contains');
+    });
+});
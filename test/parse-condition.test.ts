@@ -1,6 +1,6 @@
 import { expect } from 'chai';
 import parseCondition from '../src/parse-condition';
-import { In, Not, MoreThanOrEqual, LessThanOrEqual, MoreThan, LessThan, Between, Like, ILike, Equal, IsNull, Raw } from 'typeorm';
+import { And, ArrayContains, ArrayOverlap, In, Not, MoreThanOrEqual, LessThanOrEqual, MoreThan, LessThan, Between, Like, ILike, Equal, IsNull, Or, Raw } from 'typeorm';
 
 describe('parseCondition', () => {
     it('should parse a equalTo condition', () => {
@@ -11,14 +11,14 @@ describe('parseCondition', () => {
         });
 
         // Use a regular expression to match the query string
-        expect(result.query).to.match(/^user\.name = :[a-z0-9_]+_equalTo_user\.name$/);
+        expect(result.query).to.match(/^user\.name = :p0$/);
         expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'John');
     });
 
     describe('should parse $in operator correctly', () => {
         it('should parse $in operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $in: [1, 2, 3] } });
-            expect(result.query).to.match(/^field IN \(:\.\.\.[a-z0-9_]+_in_field\)$/);
+            expect(result.query).to.match(/^field IN \(:\.\.\.p0\)$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0]).that.is.an("array");
             expect(result.parameters[Object.keys(result.parameters)[0]]).to.deep.equal([1, 2, 3]);
         });
@@ -36,7 +36,7 @@ describe('parseCondition', () => {
     describe('should parse $notIn operator correctly', () => {
         it('should parse $notIn operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notIn: [5, 6, 7] } });
-            expect(result.query).to.match(/^field NOT IN \(:\.\.\.[a-z0-9_]+_notIn_field\)$/);
+            expect(result.query).to.match(/^field NOT IN \(:\.\.\.p0\)$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0]).that.is.an("array");
             expect(result.parameters[Object.keys(result.parameters)[0]]).to.deep.equal([5, 6, 7]);
         });
@@ -54,7 +54,7 @@ describe('parseCondition', () => {
     describe('should parse $gte operator correctly', () => {
         it('should parse $gte operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $gte: 10 } });
-            expect(result.query).to.match(/^field >= :[a-z0-9_]+_gte_field$/);
+            expect(result.query).to.match(/^field >= :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 10);
         });
 
@@ -75,7 +75,7 @@ describe('parseCondition', () => {
     describe('should parse $lte operator correctly', () => {
         it('should parse $lte operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $lte: 10 } });
-            expect(result.query).to.match(/^field <= :[a-z0-9_]+_lte_field$/);
+            expect(result.query).to.match(/^field <= :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 10);
         });
 
@@ -96,7 +96,7 @@ describe('parseCondition', () => {
     describe('should parse $gt operator correctly', () => {
         it('should parse $gt operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $gt: 10 } });
-            expect(result.query).to.match(/^field > :[a-z0-9_]+_gt_field$/);
+            expect(result.query).to.match(/^field > :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 10);
         });
 
@@ -117,7 +117,7 @@ describe('parseCondition', () => {
     describe('should parse $lt operator correctly', () => {
         it('should parse $lt operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $lt: 10 } });
-            expect(result.query).to.match(/^field < :[a-z0-9_]+_lt_field$/);
+            expect(result.query).to.match(/^field < :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 10);
         });
 
@@ -138,7 +138,7 @@ describe('parseCondition', () => {
     describe('should parse $between operator correctly', () => {
         it('should parse $between operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $between: [1, 10] } });
-            expect(result.query).to.match(/^field BETWEEN :[a-z0-9_]+_between_field_start AND :[a-z0-9_]+_between_field_end$/);
+            expect(result.query).to.match(/^field BETWEEN :p0_start AND :p0_end$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 1);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[1], 10);
         });
@@ -160,7 +160,7 @@ describe('parseCondition', () => {
     describe('should parse $notBetween operator correctly', () => {
         it('should parse $notBetween operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notBetween: [1, 10] } });
-            expect(result.query).to.match(/^field NOT BETWEEN :[a-z0-9_]+_notBetween_field_start AND :[a-z0-9_]+_notBetween_field_end$/);
+            expect(result.query).to.match(/^field NOT BETWEEN :p0_start AND :p0_end$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 1);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[1], 10);
         });
@@ -182,7 +182,7 @@ describe('parseCondition', () => {
     describe('should parse $contains operator correctly', () => {
         it('should parse $contains operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $contains: 'test' } });
-            expect(result.query).to.match(/^field LIKE :[a-z0-9_]+_contains_field$/);
+            expect(result.query).to.match(/^field LIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], '%test%');
         });
 
@@ -199,7 +199,7 @@ describe('parseCondition', () => {
     describe('should parse $notContains operator correctly', () => {
         it('should parse $notContains operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notContains: 'test' } });
-            expect(result.query).to.match(/^field NOT LIKE :[a-z0-9_]+_notContains_field$/);
+            expect(result.query).to.match(/^field NOT LIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], '%test%');
         });
 
@@ -228,7 +228,7 @@ describe('parseCondition', () => {
     describe('should parse $iContains operator correctly', () => {
         it('should parse $iContains operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $iContains: 'test' } });
-            expect(result.query).to.match(/^field ILIKE :[a-z0-9_]+_iContains_field$/);
+            expect(result.query).to.match(/^field ILIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], '%test%');
         });
 
@@ -245,7 +245,7 @@ describe('parseCondition', () => {
     describe('should parse $notIContains operator correctly', () => {
         it('should parse $notIContains operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notIContains: 'test' } });
-            expect(result.query).to.match(/^field NOT ILIKE :[a-z0-9_]+_notIContains_field$/);
+            expect(result.query).to.match(/^field NOT ILIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], '%test%');
         });
 
@@ -262,7 +262,7 @@ describe('parseCondition', () => {
     describe('should parse $startsWith operator correctly', () => {
         it('should parse $startsWith operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $startsWith: 'test' } });
-            expect(result.query).to.match(/^field LIKE :[a-z0-9_]+_startsWith_field$/);
+            expect(result.query).to.match(/^field LIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'test%');
         });
 
@@ -279,7 +279,7 @@ describe('parseCondition', () => {
     describe('should parse $notStartsWith operator correctly', () => {
         it('should parse $notStartsWith operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notStartsWith: 'test' } });
-            expect(result.query).to.match(/^field NOT LIKE :[a-z0-9_]+_notStartsWith_field$/);
+            expect(result.query).to.match(/^field NOT LIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'test%');
         });
 
@@ -296,7 +296,7 @@ describe('parseCondition', () => {
     describe('should parse $endsWith operator correctly', () => {
         it('should parse $endsWith operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $endsWith: 'test' } });
-            expect(result.query).to.match(/^field LIKE :[a-z0-9_]+_endsWith_field$/);
+            expect(result.query).to.match(/^field LIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], '%test');
         });
 
@@ -313,7 +313,7 @@ describe('parseCondition', () => {
     describe('should parse $notEndsWith operator correctly', () => {
         it('should parse $notEndsWith operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notEndsWith: 'test' } });
-            expect(result.query).to.match(/^field NOT LIKE :[a-z0-9_]+_notEndsWith_field$/);
+            expect(result.query).to.match(/^field NOT LIKE :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], '%test');
         });
 
@@ -330,7 +330,7 @@ describe('parseCondition', () => {
     describe('should parse $regex operator correctly', () => {
         it('should parse $regex operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $regex: 'test' } });
-            expect(result.query).to.match(/^field ~ :[a-z0-9_]+_regex_field$/);
+            expect(result.query).to.match(/^field ~ :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'test');
         });
 
@@ -347,7 +347,7 @@ describe('parseCondition', () => {
     describe('should parse $notRegex operator correctly', () => {
         it('should parse $notRegex operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notRegex: 'test' } });
-            expect(result.query).to.match(/^field !~ :[a-z0-9_]+_notRegex_field$/);
+            expect(result.query).to.match(/^field !~ :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'test');
         });
 
@@ -364,7 +364,7 @@ describe('parseCondition', () => {
     describe('should parse $regexi operator correctly', () => {
         it('should parse $regexi operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $regexi: 'test' } });
-            expect(result.query).to.match(/^field ~\* :[a-z0-9_]+_regexi_field$/);
+            expect(result.query).to.match(/^field ~\* :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'test');
         });
 
@@ -381,7 +381,7 @@ describe('parseCondition', () => {
     describe('should parse $notRegexi operator correctly', () => {
         it('should parse $notRegexi operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notRegexi: 'test' } });
-            expect(result.query).to.match(/^field !~\* :[a-z0-9_]+_notRegexi_field$/);
+            expect(result.query).to.match(/^field !~\* :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'test');
         });
 
@@ -398,7 +398,7 @@ describe('parseCondition', () => {
     describe('should parse $jsonContains operator correctly', () => {
         it('should parse $jsonContains operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonContains: { key: 'value' } } });
-            expect(result.query).to.match(/^field @> :[a-z0-9_]+_jsonContains_field$/);
+            expect(result.query).to.match(/^field @> :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], JSON.stringify({ key: 'value' }));
         });
 
@@ -411,7 +411,7 @@ describe('parseCondition', () => {
     describe('should parse $jsonContained operator correctly', () => {
         it('should parse $jsonContained operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonContained: { key: 'value' } } });
-            expect(result.query).to.match(/^field <@ :[a-z0-9_]+_jsonContained_field$/);
+            expect(result.query).to.match(/^field <@ :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], JSON.stringify({ key: 'value' }));
         });
 
@@ -424,7 +424,7 @@ describe('parseCondition', () => {
     describe('should parse $jsonEquals operator correctly', () => {
         it('should parse $jsonEquals operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonEquals: { key: 'value' } } });
-            expect(result.query).to.match(/^field = :[a-z0-9_]+_jsonEquals_field$/);
+            expect(result.query).to.match(/^field = :p0$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], JSON.stringify({ key: 'value' }));
         });
 
@@ -437,7 +437,7 @@ describe('parseCondition', () => {
     describe('should parse $jsonHasKey operator correctly', () => {
         it('should parse $jsonHasKey operator correctly for qb', () => {
             const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonHasKey: 'key' } });
-            expect(result.query).to.match(/^field \? :[a-z0-9_]+_jsonHasKey_field_key$/);
+            expect(result.query).to.match(/^field \? :p0_key$/);
             expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], 'key');
         });
 
@@ -447,6 +447,92 @@ describe('parseCondition', () => {
         // });
     });
 
+    describe('should generate dialect specific SQL', () => {
+        it('should use LOWER(...) LIKE LOWER(...) for $iContains outside postgres', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $iContains: 'test' }, dialect: 'mysql' });
+            expect(result.query).to.match(/^LOWER\(field\) LIKE LOWER\(:p0\)$/);
+            expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], '%test%');
+        });
+
+        it('should use NOT LIKE with LOWER(...) for $notIContains on sqlite', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notIContains: 'test' }, dialect: 'better-sqlite3' });
+            expect(result.query).to.match(/^LOWER\(field\) NOT LIKE LOWER\(:p0\)$/);
+        });
+
+        it('should use REGEXP for $regex and $regexi on mysql', () => {
+            const regex = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $regex: '^a' }, dialect: 'mariadb' });
+            expect(regex.query).to.match(/^field REGEXP :p0$/);
+            expect(regex.parameters).to.have.property(Object.keys(regex.parameters)[0], '^a');
+
+            const regexi = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notRegexi: '^a' }, dialect: 'mysql' });
+            expect(regexi.query).to.match(/^field NOT REGEXP :p0$/);
+            expect(regexi.parameters).to.have.property(Object.keys(regexi.parameters)[0], '(?i)^a');
+        });
+
+        it('should use JSON_CONTAINS for $jsonContains on mysql', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonContains: { key: 'value' } }, dialect: 'mysql' });
+            expect(result.query).to.match(/^JSON_CONTAINS\(field, :p0\)$/);
+            expect(result.parameters).to.have.property(Object.keys(result.parameters)[0], JSON.stringify({ key: 'value' }));
+        });
+
+        it('should use json_extract for $jsonContains on sqlite', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonContains: { a: { b: true }, c: 'd' } }, dialect: 'sqlite' });
+            expect(result.query).to.match(/^\(json_extract\(field, :[a-zA-Z0-9_]+_path_0\) = :[a-zA-Z0-9_]+_0 AND json_extract\(field, :[a-zA-Z0-9_]+_path_1\) = :[a-zA-Z0-9_]+_1\)$/);
+            expect(Object.values(result.parameters)).to.deep.equal(['$."a"."b"', 1, '$."c"', 'd']);
+        });
+
+        it('should use JSON paths for $jsonHasKey on mysql and sqlite', () => {
+            const mysql = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonHasKey: 'key' }, dialect: 'mysql' });
+            expect(mysql.query).to.match(/^JSON_CONTAINS_PATH\(field, 'one', :p0_key\)$/);
+            expect(mysql.parameters).to.have.property(Object.keys(mysql.parameters)[0], '$."key"');
+
+            const sqlite = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonHasKey: 'k"ey' }, dialect: 'sqlite' });
+            expect(sqlite.query).to.match(/^json_type\(field, :p0_key\) IS NOT NULL$/);
+            expect(sqlite.parameters).to.have.property(Object.keys(sqlite.parameters)[0], '$."k\\"ey"');
+        });
+
+        it('should throw an error for operators unsupported on the dialect', () => {
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $regex: 'a' }, dialect: 'sqlite' })).to.throw('UNSUPPORTED_OPERATOR_ON_DIALECT $regex sqlite');
+            expect(() => parseCondition({ conditionFor: 'find', fieldAlias: 'field', condition: { $jsonContained: {} }, dialect: 'sqlite' })).to.throw('UNSUPPORTED_OPERATOR_ON_DIALECT $jsonContained sqlite');
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $jsonEquals: {} }, dialect: 'mssql' })).to.throw('UNSUPPORTED_OPERATOR_ON_DIALECT $jsonEquals mssql');
+        });
+
+        it('should throw an error for database types without a dialect', () => {
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: 'a', dialect: 'oracle' })).to.throw('UNSUPPORTED_DIALECT oracle');
+        });
+    });
+
+    describe('should parse field-level logical operators correctly', () => {
+        it('should parse $or and $and of the same field for qb', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'age', condition: { $or: [{ $lt: 18 }, { $gt: 65 }] } });
+            expect(result.query).to.match(/^\(age < :p0 OR age > :p1\)$/);
+            expect(Object.values(result.parameters)).to.deep.equal([18, 65]);
+
+            const range = parseCondition({ conditionFor: 'qb', fieldAlias: 'age', condition: { $and: [{ $gte: 18 }, { $lt: 65 }] } });
+            expect(range.query).to.match(/^\(age >= :[a-z0-9_]+ AND age < :[a-z0-9_]+\)$/);
+        });
+
+        it('should parse $not and $nor of the same field for qb', () => {
+            const not = parseCondition({ conditionFor: 'qb', fieldAlias: 'name', condition: { $not: { $startsWith: 'tmp' } } });
+            expect(not.query).to.match(/^NOT \(name LIKE :p0\)$/);
+            expect(Object.values(not.parameters)).to.deep.equal(['tmp%']);
+
+            const nor = parseCondition({ conditionFor: 'qb', fieldAlias: 'status', condition: { $nor: ['closed', '$isNull'] } });
+            expect(nor.query).to.match(/^NOT \(status = :p0 OR status IS NULL\)$/);
+        });
+
+        it('should parse field-level logical operators for find', () => {
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'age', condition: { $or: [{ $lt: 18 }, { $gt: 65 }] } })).to.deep.equal(Or(LessThan(18), MoreThan(65)));
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'age', condition: { $and: [{ $gte: 18 }, { $lt: 65 }] } })).to.deep.equal(And(MoreThanOrEqual(18), LessThan(65)));
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'name', condition: { $not: { $startsWith: 'tmp' } } })).to.deep.equal(Not(Like('tmp%')));
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'status', condition: { $nor: ['a', 'b'] } })).to.deep.equal(Not(Or(Equal('a'), Equal('b'))));
+        });
+
+        it('should throw an error when a field-level $or is not a non empty array', () => {
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'age', condition: { $or: [] } })).to.throw('$OR_OPERATOR_MUST_HAVE_A_NON_EMPTY_ARRAY_OF_CONDITIONS');
+        });
+    });
+
     it('should throw error for unsupported conditionFor value', () => {
         expect(() => parseCondition({ conditionFor: 'unsupported' as 'qb', fieldAlias: 'field', condition: { $in: [1, 2, 3] } })).to.throw('UNSUPPORTED_CONDITION_FOR_VALUE');
     });
@@ -463,8 +549,127 @@ describe('parseCondition', () => {
         expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: '', condition: {} })).to.throw("ALIAS_MUST_BE_A_NON_EMPTY_STRING");
     })
 
-    it('should throw an error for qb if more then one condition operator is passed into condition', () => {
-        expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $in: [1, 2], $equalTo: "3" } })).to.throw("CONDITION_OBJECT_MUST_HAVE_EXACTLY_ONE_KEY");
+    describe('should parse multiple condition operators correctly', () => {
+        it('should AND-combine the operators for qb', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'age', condition: { $gte: 18, $lt: 65 } });
+            expect(result.query).to.match(/^\(age >= :p0 AND age < :p1\)$/);
+            expect(Object.values(result.parameters)).to.deep.equal([18, 65]);
+        });
+
+        it('should use unique parameter names for repeated operators', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $notContains: 'a', $not: { $notContains: 'b' } } });
+            expect(Object.keys(result.parameters)).to.have.lengthOf(2);
+        });
+
+        it('should combine the operators with And for find', () => {
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'age', condition: { $gte: 18, $lt: 65 } })).to.deep.equal(And(MoreThanOrEqual(18), LessThan(65)));
+        });
+
+        it('should throw an error for an invalid operator among them', () => {
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: { $in: [1, 2], $equalTo: {} } })).to.throw("$EQUAL_TO_OPERATOR_MUST_HAVE_A_STRING_NUMBER_BOOLEAN_OR_DATE_VALUE");
+        });
+    });
+
+    describe('should parse the PostgreSQL array operators correctly', () => {
+        it('should parse $arrayContains, $arrayContainedBy and $arrayOverlap for qb', () => {
+            const contains = parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayContains: ['a', 'b'] } });
+            expect(contains.query).to.match(/^post\.tags @> :p0$/);
+            expect(Object.values(contains.parameters)).to.deep.equal([['a', 'b']]);
+            expect(parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayContainedBy: [1, 2] } }).query).to.match(/^post\.tags <@ :/);
+            expect(parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayOverlap: ['a'] } }).query).to.match(/^post\.tags && :/);
+        });
+
+        it('should parse the array operators for find', () => {
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'tags', condition: { $arrayContains: ['a', 'b'] } })).to.deep.equal(ArrayContains(['a', 'b']));
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'tags', condition: { $arrayOverlap: ['a'] } })).to.deep.equal(ArrayOverlap(['a']));
+            const anyEquals: any = parseCondition({ conditionFor: 'find', fieldAlias: 'tags', condition: { $anyEquals: 'a' } });
+            expect(anyEquals.getSql('"post"."tags"')).to.match(/^:p0 = ANY\("post"\."tags"\)$/);
+        });
+
+        it('should parse $arrayLength with a length or length comparisons', () => {
+            expect(parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayLength: 0 } }).query).to.match(/^cardinality\(post\.tags\) = :/);
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayLength: { $gte: 1, $lt: 5 } } });
+            expect(result.query).to.match(/^\(cardinality\(post\.tags\) >= :[a-zA-Z0-9_.]+_gte AND cardinality\(post\.tags\) < :[a-zA-Z0-9_.]+_lt\)$/);
+            expect(Object.values(result.parameters)).to.deep.equal([1, 5]);
+        });
+
+        it('should throw an error for elements of mixed types, invalid lengths and other dialects', () => {
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayContains: ['a', 1] } })).to.throw('$ARRAY_CONTAINS_OPERATOR_MUST_HAVE_AN_ARRAY_OF_VALUES_OF_ONE_TYPE');
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayLength: { $between: [1, 2] } } })).to.throw('$ARRAY_LENGTH_OPERATOR_MUST_HAVE_A_LENGTH_OR_LENGTH_COMPARISONS');
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $arrayLength: { toString: 1 } } })).to.throw('$ARRAY_LENGTH_OPERATOR_MUST_HAVE_A_LENGTH_OR_LENGTH_COMPARISONS');
+            expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'post.tags', condition: { $anyEquals: 'a' }, dialect: 'mysql' })).to.throw('UNSUPPORTED_OPERATOR_ON_DIALECT $anyEquals mysql');
+        });
+    });
+
+    describe('should parse $search operator correctly', () => {
+        const query = (condition: any, dialect: SqlDialect) =>
+            parseCondition({ conditionFor: 'qb', fieldAlias: 'post.title', condition, dialect }).query.replace(/:[a-zA-Z0-9_.]+/g, ':p');
+
+        it('should compile to to_tsvector and websearch_to_tsquery on postgres', () => {
+            expect(query({ $search: 'laptop' }, 'postgres')).to.equal(`to_tsvector('english', post.title) @@ websearch_to_tsquery('english', :p)`);
+            expect(query({ $search: { query: 'laptop', config: 'german', columns: ['status'] } }, 'postgres')).to.equal(
+                `to_tsvector('german', coalesce(post.title, '') || ' ' || coalesce(post.status, '')) @@ websearch_to_tsquery('german', :p)`
+            );
+        });
+
+        it('should compile to MATCH AGAINST on mysql and LIKE per term on sqlite', () => {
+            expect(query({ $search: { query: 'laptop', columns: ['status'] } }, 'mysql')).to.equal('MATCH (post.title, post.status) AGAINST (:p IN NATURAL LANGUAGE MODE)');
+            expect(query({ $search: 'gaming Laptop' }, 'sqlite')).to.equal("((LOWER(post.title) LIKE :p ESCAPE '\\') AND (LOWER(post.title) LIKE :p ESCAPE '\\'))");
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'post.title', condition: { $search: '100% off_\\' }, dialect: 'sqlite' });
+            expect(Object.values(result.parameters)).to.deep.equal(['%100\\%%', '%off\\_\\\\%']);
+        });
+
+        it('should use the escaped column for find and map the other columns to its alias', () => {
+            const result: any = parseCondition({ conditionFor: 'find', fieldAlias: 'title', condition: { $search: { query: 'laptop', columns: ['status'] } }, dialect: 'mysql' });
+            expect(result.getSql('"Post"."title"')).to.match(/^MATCH \("Post"\."title", Post\.status\) AGAINST \(:p0 IN NATURAL LANGUAGE MODE\)$/);
+        });
+
+        it('should throw an error for invalid searches and on mssql', () => {
+            expect(() => query({ $search: { query: 'a', config: "english'); --" } }, 'postgres')).to.throw('$SEARCH_OPERATOR_MUST_HAVE_A_QUERY_STRING_OR_SEARCH_OPTIONS');
+            expect(() => query({ $search: '  ' }, 'postgres')).to.throw('$SEARCH_OPERATOR_MUST_HAVE_A_QUERY_STRING_OR_SEARCH_OPTIONS');
+            expect(() => query({ $search: 'a' }, 'mssql')).to.throw('UNSUPPORTED_OPERATOR_ON_DIALECT $search mssql');
+        });
+    });
+
+    describe('should parse relative dates and the calendar date operators correctly', () => {
+        // Sunday 2024-03-10 16:00 in Berlin, 11:00 in New York
+        const clock = () => new Date('2024-03-10T15:00:00Z');
+        const parameters = (condition: any, timezone?: string) =>
+            Object.values(parseCondition({ conditionFor: 'qb', fieldAlias: 'post.createdAt', condition, clock, timezone }).parameters);
+
+        it('should resolve relative dates of comparisons against the clock', () => {
+            expect(parameters({ $gte: 'now-7d' })).to.deep.equal([new Date('2024-03-03T15:00:00Z')]);
+            expect(parameters({ $between: ['startOf:month', 'endOf:day'] }, 'Europe/Berlin')).to.deep.equal([
+                new Date('2024-02-29T23:00:00Z'), new Date('2024-03-10T22:59:59.999Z'),
+            ]);
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'createdAt', condition: { $lt: 'startOf:day' }, clock })).to.deep.equal(LessThan(new Date('2024-03-10T00:00:00Z')));
+        });
+
+        it('should match whole calendar units in the time zone with $dateEquals', () => {
+            const result = parseCondition({ conditionFor: 'qb', fieldAlias: 'post.createdAt', condition: { $dateEquals: 'now' }, clock, timezone: 'America/New_York' });
+            expect(result.query).to.match(/^\(post\.createdAt >= :p0_start AND post\.createdAt < :p0_end\)$/);
+            // DST starts in New York on 2024-03-10, the day has 23 hours
+            expect(Object.values(result.parameters)).to.deep.equal([new Date('2024-03-10T05:00:00Z'), new Date('2024-03-11T04:00:00Z')]);
+            expect(parameters({ $dateEquals: { date: '2024-03-06', granularity: 'week' } }, 'Europe/Berlin')).to.deep.equal([
+                new Date('2024-03-03T23:00:00Z'), new Date('2024-03-10T23:00:00Z'),
+            ]);
+        });
+
+        it('should match the calendar units from one date through another with $dateBetween', () => {
+            expect(parameters({ $dateBetween: ['2024-01-15', '2024-01-31'] })).to.deep.equal([new Date('2024-01-15T00:00:00Z'), new Date('2024-02-01T00:00:00Z')]);
+            expect(parseCondition({ conditionFor: 'find', fieldAlias: 'createdAt', condition: { $dateBetween: { from: 'now-1M', to: 'now', granularity: 'month' } }, clock }))
+                .to.deep.equal(And(MoreThanOrEqual(new Date('2024-02-01T00:00:00Z')), LessThan(new Date('2024-04-01T00:00:00Z'))));
+        });
+
+        it('should throw an error for invalid dates, granularities and time zones', () => {
+            expect(() => parameters({ $dateEquals: 'yesterday' })).to.throw('$DATE_EQUALS_OPERATOR_MUST_HAVE_A_DATE_OR_DATE_AND_GRANULARITY');
+            expect(() => parameters({ $dateBetween: { from: 'now-7d', to: 'now', granularity: 'fortnight' } })).to.throw('$DATE_BETWEEN_OPERATOR_MUST_HAVE_TWO_DATES_OR_FROM_TO_AND_GRANULARITY');
+            expect(() => parameters({ $gte: 'now-7d' }, 'Mars/Olympus')).to.throw('INVALID_TIMEZONE Mars/Olympus');
+        });
+    });
+
+    it('should throw an error for qb if an empty condition object is passed', () => {
+        expect(() => parseCondition({ conditionFor: 'qb', fieldAlias: 'field', condition: {} })).to.throw("CONDITION_OBJECT_MUST_HAVE_AT_LEAST_ONE_KEY");
     })
 
     it('should throw an error for qb if an invalid condition operator is passed into condition', () => {
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import parseQueryString, { QueryStringParseError } from '../src/parse-query-string';
+
+describe('parseQueryString', () => {
+    it('should parse bracket notation filters and coerce values', () => {
+        const { filter } = parseQueryString('?filter[age][$gte]=30&filter[active]=true&filter[name][$startsWith]=007&filter[createdAt][$lt]=2024-01-31');
+        expect(filter).to.deep.equal({
+            age: { $gte: 30 },
+            active: true,
+            name: { $startsWith: '007' },
+            createdAt: { $lt: new Date('2024-01-31') },
+        });
+    });
+
+    it('should parse $or/$and groups into arrays', () => {
+        const { filter } = parseQueryString('filter[$or][1][status]=closed&filter[$or][0][status]=open');
+        expect(filter).to.deep.equal({ $or: [{ status: 'open' }, { status: 'closed' }] });
+    });
+
+    it('should parse $nor groups and $not sub filters', () => {
+        const { filter } = parseQueryString('filter[$nor][0][status]=closed&filter[$not][archived]=true');
+        expect(filter).to.deep.equal({ $nor: [{ status: 'closed' }], $not: { archived: true } });
+    });
+
+    it('should split comma lists for $in and $between', () => {
+        const { filter } = parseQueryString('filter[id][$in]=1,2,3&filter[price][$between]=10,20.5');
+        expect(filter).to.deep.equal({ id: { $in: [1, 2, 3] }, price: { $between: [10, 20.5] } });
+    });
+
+    it('should keep relative dates and the calendar dates of the date operators as strings', () => {
+        const { filter } = parseQueryString(
+            'filter[createdAt][$gte]=now-7d&filter[updatedAt][$dateBetween]=2024-01-01,2024-01-31&filter[dueAt][$dateEquals][date]=startOf:day&filter[dueAt][$dateEquals][granularity]=week'
+        );
+        expect(filter).to.deep.equal({
+            createdAt: { $gte: 'now-7d' },
+            updatedAt: { $dateBetween: ['2024-01-01', '2024-01-31'] },
+            dueAt: { $dateEquals: { date: 'startOf:day', granularity: 'week' } },
+        });
+    });
+
+    it('should turn null values and $isNull flags into null checks', () => {
+        const { filter } = parseQueryString('filter[deletedAt]=null&filter[avatar][$isNull]=false');
+        expect(filter).to.deep.equal({ deletedAt: '$isNull', avatar: '$isNotNull' });
+    });
+
+    it('should turn nested keys into dotted relation paths', () => {
+        const { filter } = parseQueryString('filter[author][company][name]=Acme');
+        expect(filter).to.deep.equal({ 'author.company.name': 'Acme' });
+    });
+
+    it('should parse sort shorthand, page and select', () => {
+        const spec = parseQueryString('sort=-createdAt,name&page=2&pageSize=20&select=id,name,author.name');
+        expect(spec.sort).to.deep.equal({ createdAt: 'desc', name: 'asc' });
+        expect(spec.page).to.deep.equal({ page: 2, pageSize: 20 });
+        expect(spec.select).to.deep.equal(['id', 'name', 'author.name']);
+    });
+
+    it('should accept an already parsed query object', () => {
+        const spec = parseQueryString({ filter: { age: { $lte: '65' } }, 'filter[status][$in]': ['open', 'closed'], sort: { name: 'descend' } });
+        expect(spec.filter).to.deep.equal({ age: { $lte: 65 }, status: { $in: ['open', 'closed'] } });
+        expect(spec.sort).to.deep.equal({ name: 'descend' });
+    });
+
+    it('should report every malformed parameter with its path', () => {
+        try {
+            parseQueryString('filter[price][$between]=1&filter[na me]=x&sort[name]=up&page=0');
+            expect.fail('should have thrown');
+        } catch (error) {
+            expect(error).to.be.instanceOf(QueryStringParseError);
+            expect((error as QueryStringParseError).issues).to.deep.equal([
+                { path: 'filter[price][$between]', code: 'BETWEEN_MUST_HAVE_TWO_VALUES' },
+                { path: 'filter[na me]', code: 'INVALID_FIELD_NAME' },
+                { path: 'sort[name]', code: 'INVALID_SORT_ORDER' },
+                { path: 'page', code: 'MUST_BE_A_POSITIVE_INTEGER' },
+            ]);
+        }
+    });
+
+    it('should reject prototype keys and read inherited property names as plain fields', () => {
+        const issues = (input: string | Record<string, any>) => {
+            try {
+                parseQueryString(input);
+            } catch (error) {
+                expect(error).to.be.instanceOf(QueryStringParseError);
+                return (error as QueryStringParseError).issues;
+            }
+            return expect.fail('should have thrown');
+        };
+
+        expect(issues('filter[__proto__]=1&filter[__proto__][x]=1&filter[age][constructor]=1&sort=prototype')).to.deep.equal([
+            { path: 'filter[__proto__]', code: 'INVALID_FIELD_NAME' },
+            { path: 'filter[__proto__][x]', code: 'INVALID_FIELD_NAME' },
+            { path: 'filter[age][constructor]', code: 'INVALID_FIELD_NAME' },
+            { path: 'sort', code: 'INVALID_SORT_FIELD' },
+        ]);
+        expect(issues(JSON.parse('{"filter":{"__proto__":{"x":"1"}}}'))).to.deep.equal([{ path: 'filter[__proto__]', code: 'INVALID_FIELD_NAME' }]);
+        expect(({} as any).values).to.equal(undefined);
+        expect(parseQueryString('filter[name]=a').filter).to.deep.equal({ name: 'a' });
+
+        const spec = parseQueryString('filter[hasOwnProperty]=1&filter[age][valueOf]=1&sort[toString]=asc');
+        expect(spec.filter).to.deep.equal({ hasOwnProperty: 1, 'age.valueOf': 1 });
+        expect(spec.sort).to.deep.equal({ toString: 'asc' });
+    });
+
+    it('should reject empty lists', () => {
+        expect(() => parseQueryString('filter[id][$in]=')).to.throw(QueryStringParseError, 'LIST_MUST_NOT_BE_EMPTY at filter[id][$in]');
+    });
+});
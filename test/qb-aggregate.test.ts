@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import aggregateQB, { applyAggregateQB } from '../src/qb-aggregate';
+import { createDataSource } from './entities';
+
+describe('aggregateQB', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const posts = () => dataSource.getRepository('Post').createQueryBuilder('post');
+
+    it('should group, aggregate, filter groups with HAVING and sort by aggregate aliases', () => {
+        const qb = applyAggregateQB(posts().where('"post"."title" IS NOT NULL'), {
+            groupBy: ['status', 'author.name'],
+            aggregates: { posts: { $count: '*' }, authors: { $count: 'author.id', distinct: true }, oldest: { $max: 'author.age' } },
+            having: { posts: { $gt: 5 }, $or: [{ status: 'open' }, { oldest: { $lt: 30 } }] },
+            sort: { posts: 'desc', status: 'asc' },
+        });
+
+        expect(qb.getQuery()).to.equal(
+            'SELECT "post"."status" AS "status", "post_author"."name" AS "author.name", COUNT(*) AS "posts", COUNT(DISTINCT "post"."authorId") AS "authors", '
+            + 'MAX("post_author"."age") AS "oldest" FROM "post" "post" LEFT JOIN "user" "post_author" ON "post_author"."id"="post"."authorId" '
+            + 'WHERE "post"."title" IS NOT NULL GROUP BY "post"."status", "post_author"."name" '
+            + 'HAVING COUNT(*) > :p0 AND ("post"."status" = :p1 OR MAX("post_author"."age") < :p2) ORDER BY COUNT(*) DESC, "post"."status" ASC'
+        );
+        expect(qb.getParameters()).to.deep.equal({ p0: 5, p1: 'open', p2: 30 });
+    });
+
+    it('should return the raw rows with numeric aggregates as numbers', async () => {
+        const qb = posts();
+        qb.getRawMany = (async () => [{ status: 'open', posts: '12', oldest: '2024-01-01' }]) as any;
+        const rows = await aggregateQB<{ status: string; posts: number; oldest: string }>(qb, {
+            groupBy: ['status'],
+            aggregates: { posts: { $count: 'id' }, oldest: { $min: 'title' } },
+        });
+        expect(rows).to.deep.equal([{ status: 'open', posts: 12, oldest: '2024-01-01' }]);
+    });
+
+    it('should reject invalid aggregate specs and unknown HAVING fields', () => {
+        expect(() => applyAggregateQB(posts(), { aggregates: {} })).to.throw('AGGREGATES_MUST_HAVE_AT_LEAST_ONE_SELECTION');
+        expect(() => applyAggregateQB(posts(), { aggregates: { total: { $median: 'id' } as any } })).to.throw('INVALID_AGGREGATE_SELECTION total');
+        expect(() => applyAggregateQB(posts(), { aggregates: { total: { toString: 'id' } as any } })).to.throw('INVALID_AGGREGATE_SELECTION total');
+        expect(() => applyAggregateQB(posts(), { aggregates: { total: { $sum: '*' } } })).to.throw('ONLY_$COUNT_CAN_AGGREGATE_ALL_ROWS total');
+        expect(() => applyAggregateQB(posts(), { aggregates: { 'a b': { $count: '*' } } })).to.throw('INVALID_AGGREGATE_ALIAS a b');
+        expect(() => applyAggregateQB(posts(), { aggregates: { total: { $sum: 'missing' } } })).to.throw('UNKNOWN_FIELD missing');
+        expect(() => applyAggregateQB(posts(), { aggregates: { total: { $count: '*' } }, having: { title: 'a' } })).to.throw('UNKNOWN_HAVING_FIELD title at title');
+    });
+
+    it('should enforce the selectable and sortable fields of a policy', () => {
+        const policy: FilterPolicy = { selectable: ['status'], sortable: ['status'] };
+        expect(() => applyAggregateQB(posts(), { groupBy: ['title'], aggregates: { posts: { $count: '*' } } }, { policy })).to.throw('FIELD_NOT_SELECTABLE');
+        const qb = applyAggregateQB(posts(), { groupBy: ['status'], aggregates: { posts: { $count: '*' } }, sort: { posts: 'desc' } }, { policy });
+        expect(qb.getQuery()).to.contain('ORDER BY COUNT(*) DESC');
+    });
+});
@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import applyFiltersQB from '../src/qb-apply-filters';
+import { createDataSource } from './entities';
+
+describe('applyFiltersQB', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const where = (qb: any) => qb.getQuery().replace(/^.*? WHERE /, '').replace(/:[a-zA-Z0-9_.]+/g, ':p');
+    const users = () => dataSource.getRepository('User').createQueryBuilder('user');
+
+    it('should apply $or, $and, $nor and $not groups', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applyFiltersQB(qb, 'post', {
+            title: 'a',
+            $or: [{ status: 'open' }, { status: 'draft' }],
+            $and: [{ id: { $gt: 1 } }, { id: { $lt: 9 } }],
+            $nor: [{ 'author.name': 'bot' }],
+            $not: { status: 'closed' },
+        });
+        expect(where(qb)).to.equal('"post"."title" = :p AND ("post"."status" = :p OR "post"."status" = :p) AND ("post"."id" > :p AND "post"."id" < :p) '
+            + 'AND NOT("post_author"."name" = :p) AND NOT("post"."status" = :p)');
+        expect(Object.values(qb.getParameters())).to.deep.equal(['a', 'open', 'draft', 1, 9, 'bot', 'closed']);
+    });
+
+    it('should compare values extracted from JSON columns', () => {
+        const qb = users();
+        applyFiltersQB(qb, 'user', { 'meta->limits->seats': { $gt: 4 } }, { dialect: 'postgres' });
+        expect(where(qb)).to.equal('CAST("user"."meta" #>> :p AS numeric) > :p');
+        expect(qb.getParameters()).to.deep.equal({ p0: ['limits', 'seats'], p1: 4 });
+    });
+
+    it('should filter by related entities with $some, $none and $every', () => {
+        const qb = users();
+        applyFiltersQB(qb, 'user', { posts: { $some: { status: 'published' } }, company: { $none: { name: 'Acme' } } });
+        expect(where(qb)).to.equal('EXISTS (SELECT 1 FROM "post" "user_posts" WHERE "user_posts"."authorId" = "user"."id" AND "user_posts"."status" = :p) '
+            + 'AND NOT EXISTS (SELECT 1 FROM "company" "user_company" WHERE "user_company"."id" = "user"."companyId" AND "user_company"."name" = :p)');
+
+        const every = users();
+        applyFiltersQB(every, 'user', { posts: { $every: { status: 'published' } } });
+        expect(where(every)).to.contain('NOT EXISTS (SELECT 1 FROM "post" "user_posts"');
+    });
+
+    it('should report every error of nested groups with their paths', () => {
+        const qb = users();
+        expect(() => applyFiltersQB(qb, 'user', { $or: [{ age: { $gte: true } }, { name: { $gt: {} } }] }, { collectErrors: true }))
+            .to.throw('at $or[0].age').with.property('errors').with.length(2);
+        expect(qb.getQuery()).not.to.contain('WHERE');
+    });
+});
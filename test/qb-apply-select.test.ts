@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import applySelectQB from '../src/qb-apply-select';
+import { FilterPolicyError } from '../src/enforce-filter-policy';
+import { FilterValidationError } from '../src/filter-errors';
+import { createDataSource } from './entities';
+
+describe('applySelectQB', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const selections = (qb: any) => qb.expressionMap.selects.map((select: any) => select.selection);
+
+    it('should select the listed fields and keep the primary key', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        applySelectQB(qb, ['name', 'email']);
+        expect(selections(qb)).to.deep.equal(['user.name', 'user.email', 'user.id']);
+        expect(qb.getQuery()).to.match(/^SELECT "user"."id" AS "user_id", "user"."name" AS "user_name", "user"."email" AS "user_email" FROM/);
+    });
+
+    it('should join relation fields of projections and lists alike', () => {
+        const projected = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySelectQB(projected, { title: 1, author: { name: 1, company: { name: true } } });
+
+        const listed = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySelectQB(listed, ['title', 'author.name', 'author.company.name']);
+
+        [projected, listed].forEach((qb) => {
+            expect(selections(qb)).to.have.members([
+                'post.title', 'post_author.name', 'post_author_company.name', 'post.id', 'post_author.id', 'post_author_company.id',
+            ]);
+            expect(qb.getQuery()).to.include('LEFT JOIN "user" "post_author"');
+            expect(qb.getQuery()).to.include('LEFT JOIN "company" "post_author_company"');
+        });
+    });
+
+    it('should select a whole relation and reuse joins made by the caller', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user').leftJoin('user.company', 'c');
+        applySelectQB(qb, { name: 1, company: 1 });
+        expect(selections(qb)).to.deep.equal(['user.name', 'c', 'user.id']);
+        expect(qb.expressionMap.joinAttributes).to.have.length(1);
+    });
+
+    it('should reject unknown fields and invalid specs', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        expect(() => applySelectQB(qb, ['passwordHash'])).to.throw(FilterValidationError, 'UNKNOWN_FIELD passwordHash at passwordHash');
+        expect(() => applySelectQB(qb, { company: { name: 0 } } as any)).to.throw(FilterValidationError, 'INVALID_SELECT_VALUE 0 FOR_FIELD company.name')
+            .with.property('path', 'company.name');
+        expect(() => applySelectQB(qb, ['name', ''])).to.throw(FilterValidationError, 'INVALID_SELECT_FIELD').with.property('code', 'INVALID_SELECT');
+        expect(() => applySelectQB(qb, 'name' as any)).to.throw(FilterValidationError, 'SELECT_MUST_BE_AN_ARRAY_OR_AN_OBJECT');
+    });
+
+    it('should enforce the selectable fields of the policy', () => {
+        const policy: FilterPolicy = { selectable: ['name', 'company'] };
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+
+        applySelectQB(qb, ['name', 'company.name'], { policy });
+        expect(selections(qb)).to.include('user_company.name');
+
+        try {
+            applySelectQB(qb, ['name', 'email'], { policy });
+            expect.fail('should have thrown');
+        } catch (error) {
+            expect(error).to.be.instanceOf(FilterPolicyError);
+            expect((error as FilterPolicyError).violations).to.deep.equal([{ path: 'email', field: 'email', code: 'FIELD_NOT_SELECTABLE' }]);
+        }
+
+        applySelectQB(qb, ['name', 'email'], { policy: { ...policy, mode: 'strip' } });
+        expect(selections(qb)).to.deep.equal(['user.name', 'user.id']);
+    });
+});
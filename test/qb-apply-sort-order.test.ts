@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import applySortOrderQB, { normalizeSort, registerSortExpression } from '../src/qb-apply-sort-order';
+import { createDataSource, User } from './entities';
+
+describe('applySortOrderQB', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const orderBy = (qb: any) => qb.getQuery().replace(/^.* ORDER BY /, '').replace(/:[a-zA-Z0-9_.]+/g, ':p');
+    const selected = (qb: any) => qb.getQuery().replace(/ FROM .*$/, '').replace(/:[a-zA-Z0-9_.]+/g, ':p');
+
+    it('should apply an ordered list of sort keys', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySortOrderQB(qb, [{ field: 'status', order: 'desc' }, { field: 'title' }]);
+        expect(orderBy(qb)).to.equal('"post"."status" DESC, "post"."title" ASC');
+    });
+
+    it('should reject invalid sort orders instead of sorting descending', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        expect(() => applySortOrderQB(qb, { title: 'up' as any })).to.throw('INVALID_SORT_ORDER up at title').with.property('code', 'INVALID_SORT');
+        expect(() => normalizeSort([{ field: 'title', nulls: 'middle' as any }])).to.throw('INVALID_SORT_NULLS middle at title');
+        expect(() => normalizeSort([{ order: 'asc' } as any])).to.throw('SORT_KEY_MUST_HAVE_A_FIELD at [0]');
+    });
+
+    it('should sort case-insensitively with NULLS FIRST/LAST', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySortOrderQB(qb, { title: { order: 'asc', nulls: 'last', caseInsensitive: true } });
+        expect(orderBy(qb)).to.equal('__order_0 ASC NULLS LAST');
+        expect(selected(qb)).to.contain(', LOWER("post"."title") AS "__order_0"');
+    });
+
+    it('should emulate NULLS FIRST/LAST on MySQL', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySortOrderQB(qb, [{ field: 'title', order: 'desc', nulls: 'first' }], { dialect: 'mysql' });
+        expect(orderBy(qb)).to.equal('__order_0 DESC, "post"."title" DESC');
+        expect(selected(qb)).to.contain(', CASE WHEN "post"."title" IS NULL THEN 1 ELSE 0 END AS "__order_0"');
+    });
+
+    it('should sort by the position of the value in a value list', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySortOrderQB(qb, [{ field: 'status', values: ['open', 'pending', 'closed'] }]);
+        expect(orderBy(qb)).to.equal('__order_0 ASC');
+        expect(selected(qb)).to.contain(', CASE WHEN "post"."status" = :p THEN 0 WHEN "post"."status" = :p THEN 1 WHEN "post"."status" = :p THEN 2 ELSE 3 END AS "__order_0"');
+        expect(Object.values(qb.getParameters())).to.deep.equal(['open', 'pending', 'closed']);
+    });
+
+    it('should sort by the full-text rank of a search', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySortOrderQB(qb, [{ field: 'title', search: { query: 'laptop', columns: ['status'] }, order: 'desc' }], { dialect: 'postgres' });
+        expect(orderBy(qb)).to.equal('__order_0 DESC');
+        expect(selected(qb)).to.contain(
+            `, ts_rank(to_tsvector('english', coalesce("post"."title", '') || ' ' || coalesce("post"."status", '')), websearch_to_tsquery('english', :p)) AS "__order_0"`
+        );
+        expect(Object.values(qb.getParameters())).to.deep.equal(['laptop']);
+    });
+
+    it('should sort by values extracted from JSON columns', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applySortOrderQB(qb, [{ field: 'author.meta->limits->seats::numeric', order: 'desc', nulls: 'last' }, { field: 'author.meta->plan' }], { dialect: 'postgres' });
+        expect(orderBy(qb)).to.equal('__order_0 DESC NULLS LAST, __order_1 ASC');
+        expect(selected(qb)).to.contain(', CAST("post_author"."meta" #>> :p AS numeric) AS "__order_0", ("post_author"."meta" #>> :p) AS "__order_1"');
+        expect(qb.getParameters()).to.deep.equal({ p0: ['limits', 'seats'], p1: ['plan'] });
+    });
+
+    it('should sort by computed expressions, passed or registered per entity', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        applySortOrderQB(qb, { nameLength: 'desc' }, { expressions: { nameLength: (alias) => `LENGTH(${alias}.name)` } });
+        expect(orderBy(qb)).to.equal('__order_0 DESC');
+        expect(selected(qb)).to.contain(', LENGTH("user"."name") AS "__order_0"');
+
+        registerSortExpression(User, 'emailDomain', "SUBSTR(user.email, INSTR(user.email, '@') + 1)");
+        try {
+            const registered = dataSource.getRepository('User').createQueryBuilder('user');
+            applySortOrderQB(registered, { emailDomain: 'asc' });
+            expect(selected(registered)).to.contain(`, SUBSTR("user"."email", INSTR("user"."email", '@') + 1) AS "__order_0"`);
+        } finally {
+            registerSortExpression(User, 'emailDomain', undefined);
+        }
+    });
+});
@@ -0,0 +1,169 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import createFilterCache from '../src/filter-cache';
+import { createDataSource } from './entities';
+
+describe('applyWhereConditionsQB', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const where = (qb: any) => qb.getQuery().replace(/^.*? WHERE /, '').replace(/:[a-zA-Z0-9_.]+/g, ':p');
+
+    it('should wrap $and and $or groups in brackets', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applyWhereConditionsQB(qb, 'andWhere', { title: 'a', $or: [{ status: 'open' }, { status: 'draft' }] }, 'post');
+        expect(where(qb)).to.equal('"post"."title" = :p AND ("post"."status" = :p OR "post"."status" = :p)');
+    });
+
+    it('should negate a group with $not', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applyWhereConditionsQB(qb, 'andWhere', { $not: { status: 'closed', title: { $startsWith: 'tmp' } } }, 'post');
+        expect(where(qb)).to.equal('NOT(("post"."status" = :p AND "post"."title" LIKE :p))');
+    });
+
+    it('should negate the OR of the filters with $nor', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applyWhereConditionsQB(qb, 'andWhere', { $nor: [{ status: 'closed' }, { 'author.name': 'bot' }] }, 'post');
+        expect(where(qb)).to.equal('NOT(("post"."status" = :p OR "post_author"."name" = :p))');
+    });
+
+    it('should apply field-level logic', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        applyWhereConditionsQB(qb, 'andWhere', { age: { $or: [{ $lt: 18 }, { $gt: 65 }] }, name: { $not: { $startsWith: 'tmp' } } }, 'user');
+        expect(where(qb)).to.equal('("user"."age" < :p OR "user"."age" > :p) AND NOT ("user"."name" LIKE :p)');
+        expect(Object.values(qb.getParameters())).to.deep.equal([18, 65, 'tmp%']);
+    });
+
+    it('should throw an error for malformed logical operators', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        expect(() => applyWhereConditionsQB(qb, 'andWhere', { $nor: { status: 'a' } }, 'post')).to.throw('$NOR_OPERATOR_MUST_HAVE_AN_ARRAY_OF_OBJECTS');
+        expect(() => applyWhereConditionsQB(qb, 'andWhere', { $not: [{ status: 'a' }] }, 'post')).to.throw('$NOT_OPERATOR_MUST_HAVE_AN_OBJECT');
+    });
+
+    it('should filter by related entities with $some, joining nested relation paths inside the sub query', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        applyWhereConditionsQB(qb, 'andWhere', { name: 'John', posts: { $some: { status: 'published', 'categories.name': 'news' } } }, 'user');
+        expect(where(qb)).to.equal('"user"."name" = :p AND EXISTS (SELECT 1 FROM "post" "user_posts" '
+            + 'LEFT JOIN "post_categories_category" "user_posts_user_posts_categories" ON "user_posts_user_posts_categories"."postId"="user_posts"."id" '
+            + 'LEFT JOIN "category" "user_posts_categories" ON "user_posts_categories"."id"="user_posts_user_posts_categories"."categoryId" '
+            + 'WHERE "user_posts"."authorId" = "user"."id" AND "user_posts"."status" = :p AND "user_posts_categories"."name" = :p)');
+        expect(qb.getParameters()).to.deep.equal({ p0: 'John', p1: 'published', p2: 'news' });
+        expect(qb.expressionMap.joinAttributes).to.have.length(0);
+    });
+
+    it('should compile $none and $every to NOT EXISTS, $every failing on UNKNOWN', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applyWhereConditionsQB(qb, 'andWhere', { author: { $none: { active: false } }, 'author.posts': { $every: { status: 'published' } } }, 'post');
+        expect(where(qb)).to.equal('NOT EXISTS (SELECT 1 FROM "user" "post_author" WHERE "post_author"."id" = "post"."authorId" AND "post_author"."active" = :p) '
+            + 'AND NOT EXISTS (SELECT 1 FROM "post" "post_author_posts" WHERE "post_author_posts"."authorId" = "post_author"."id" '
+            + 'AND CASE WHEN ("post_author_posts"."status" = :p) THEN 0 ELSE 1 END = 1)');
+    });
+
+    it('should correlate many-to-many relations through the junction table from either side', () => {
+        const posts = dataSource.getRepository('Post').createQueryBuilder('post');
+        applyWhereConditionsQB(posts, 'andWhere', { categories: { $some: {} } }, 'post');
+        expect(where(posts)).to.equal('EXISTS (SELECT 1 FROM "post_categories_category" "post_categories_junction" '
+            + 'INNER JOIN "category" "post_categories" ON "post_categories"."id" = "post_categories_junction"."categoryId" '
+            + 'WHERE "post_categories_junction"."postId" = "post"."id")');
+
+        const categories = dataSource.getRepository('Category').createQueryBuilder('category');
+        applyWhereConditionsQB(categories, 'andWhere', { posts: { $some: { status: 'open' } } }, 'category');
+        expect(where(categories)).to.equal('EXISTS (SELECT 1 FROM "post_categories_category" "category_posts_junction" '
+            + 'INNER JOIN "post" "category_posts" ON "category_posts"."id" = "category_posts_junction"."postId" '
+            + 'WHERE "category_posts_junction"."categoryId" = "category"."id" AND "category_posts"."status" = :p)');
+    });
+
+    it('should throw an error for relation quantifiers not applied to a relation or without a filter', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        expect(() => applyWhereConditionsQB(qb, 'andWhere', { name: { $some: {} } }, 'user')).to.throw('RELATION_FILTER_MUST_BE_APPLIED_TO_A_RELATION name at name');
+        expect(() => applyWhereConditionsQB(qb, 'andWhere', { posts: { $every: 'published' } }, 'user')).to.throw('$EVERY_OPERATOR_MUST_HAVE_A_FILTER_OBJECT at posts');
+        expect(() => applyWhereConditionsQB(qb, 'andWhere', { posts: { $some: { status: { $gt: true } } } }, 'user')).to.throw('at posts.$some.status');
+    });
+
+    it('should compare values extracted from JSON columns with the cast of their values', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        applyWhereConditionsQB(qb, 'andWhere', {
+            'meta->notifications->email': true,
+            'meta->limits->seats': { $gt: 4 },
+            'company.name': 'Acme',
+            'meta->plan::text': { $in: ['pro', 'team'] },
+        }, 'user', { dialect: 'postgres' });
+        expect(where(qb)).to.equal('CAST("user"."meta" #>> :p AS boolean) = :p AND CAST("user"."meta" #>> :p AS numeric) > :p '
+            + 'AND "user_company"."name" = :p AND ("user"."meta" #>> :p) IN (:p)');
+        expect(qb.getParameters()).to.deep.equal({
+            p0: ['notifications', 'email'], p1: true, p2: ['limits', 'seats'], p3: 4, p4: 'Acme', p5: ['plan'], p6: ['pro', 'team'],
+        });
+    });
+
+    it('should bind the JSON paths of cached filters and compile again for another cast', () => {
+        const cache = createFilterCache();
+        const users = () => dataSource.getRepository('User').createQueryBuilder('user');
+
+        applyWhereConditionsQB(users(), 'andWhere', { 'meta->seats': { $gte: 2 } }, 'user', { cache, dialect: 'mysql' });
+        const rebound = users();
+        applyWhereConditionsQB(rebound, 'andWhere', { 'meta->seats': { $gte: 5 } }, 'user', { cache, dialect: 'mysql' });
+        expect(rebound.getParameters()).to.deep.equal({ p0: '$."seats"', p1: 5 });
+
+        const text = users();
+        applyWhereConditionsQB(text, 'andWhere', { 'meta->seats': { $gte: 'a' } }, 'user', { cache, dialect: 'mysql' });
+        expect(where(text)).to.equal('JSON_UNQUOTE(JSON_EXTRACT("user"."meta", :p)) >= :p');
+        expect(cache.size).to.equal(2);
+    });
+
+    it('should name parameters sequentially per query builder', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        applyWhereConditionsQB(qb, 'andWhere', { name: 'John', age: { $between: [18, 65] } }, 'user');
+        applyWhereConditionsQB(qb, 'andWhere', { email: { $endsWith: '@example.com' } }, 'user');
+        expect(qb.getQuery()).to.contain('"user"."name" = :p0 AND "user"."age" BETWEEN :p1_start AND :p1_end AND "user"."email" LIKE :p2');
+        expect(qb.getParameters()).to.deep.equal({ p0: 'John', p1_start: 18, p1_end: 65, p2: '%@example.com' });
+    });
+
+    it('should skip parameter names already bound on the query builder', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user').where('"user"."id" > :p0', { p0: 10 });
+        applyWhereConditionsQB(qb, 'andWhere', { age: { $gte: 18 } }, 'user');
+        expect(qb.getQuery()).to.contain('"user"."age" >= :p1');
+        expect(qb.getParameters()).to.deep.equal({ p0: 10, p1: 18 });
+    });
+
+    it('should reuse the SQL of cached filters of the same shape and bind the new values', () => {
+        const cache = createFilterCache();
+        const compile = (filter: any) => {
+            const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+            applyWhereConditionsQB(qb, 'andWhere', filter, 'post', { cache });
+            return qb;
+        };
+
+        const first = compile({ 'author.name': { $startsWith: 'Jo' }, $or: [{ status: 'open' }, { status: 'draft' }] });
+        const second = compile({ 'author.name': { $startsWith: 'Ma' }, $or: [{ status: 'closed' }, { status: 'open' }] });
+        expect(cache.size).to.equal(1);
+        expect(second.getQuery()).to.equal(first.getQuery());
+        expect(second.getParameters()).to.deep.equal({ p0: 'Ma%', p1: 'closed', p2: 'open' });
+
+        compile({ 'author.name': { $endsWith: 'Jo' }, $or: [{ status: 'open' }, { status: 'draft' }] });
+        compile({ 'author.name': { $startsWith: 'Jo' }, $or: [{ status: 'open' }] });
+        expect(cache.size).to.equal(3);
+    });
+
+    it('should compile again when a cached filter cannot bind the new values', () => {
+        const cache = createFilterCache();
+        const qb = dataSource.getRepository('User').createQueryBuilder('user');
+        applyWhereConditionsQB(qb, 'andWhere', { age: { $in: [1, 2] } }, 'user', { cache });
+        expect(() => applyWhereConditionsQB(dataSource.getRepository('User').createQueryBuilder('user'), 'andWhere', { age: { $in: 'x' } }, 'user', { cache }))
+            .to.throw('$IN_OPERATOR_MUST_HAVE_AN_ARRAY_OF_STRINGS_OR_NUMBERS');
+    });
+
+    it('should evict the least recently used filters', () => {
+        const cache = createFilterCache(2);
+        const compile = (filter: any) => applyWhereConditionsQB(dataSource.getRepository('User').createQueryBuilder('user'), 'andWhere', filter, 'user', { cache });
+        compile({ age: 1 });
+        compile({ name: 'a' });
+        compile({ age: 2 });
+        compile({ email: 'b' });
+        expect(cache.size).to.equal(2);
+        expect(() => createFilterCache(0)).to.throw('MAX_SIZE_MUST_BE_A_POSITIVE_INTEGER');
+    });
+});
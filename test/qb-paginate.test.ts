@@ -0,0 +1,159 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import paginateQB from '../src/qb-paginate';
+import { createDatabase, createDataSource } from './entities';
+
+describe('paginateQB', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    // Query builder whose results are served from memory
+    const rows = [
+        { id: 1, createdAt: new Date('2024-01-03') },
+        { id: 2, createdAt: new Date('2024-01-02') },
+        { id: 3, createdAt: new Date('2024-01-02') },
+        { id: 4, createdAt: new Date('2024-01-01') },
+    ];
+    const userQB = () => {
+        const qb: any = dataSource.getRepository('User').createQueryBuilder('user');
+        qb.getManyAndCount = async () => [rows.slice(qb.expressionMap.skip, qb.expressionMap.skip + qb.expressionMap.take), rows.length];
+        return qb;
+    };
+
+    describe('offset mode', () => {
+        it('should page with skip/take and return total counts', async () => {
+            const qb = userQB();
+            const { items, pageInfo } = await paginateQB(qb, { mode: 'offset', page: 2, pageSize: 3, sort: { name: 'asc' } });
+            expect(items).to.deep.equal([rows[3]]);
+            expect(pageInfo).to.deep.equal({ mode: 'offset', page: 2, pageSize: 3, totalItems: 4, totalPages: 2, hasNextPage: false, hasPreviousPage: true });
+            expect(qb.getQuery()).to.include('ORDER BY "user"."name" ASC');
+        });
+
+        it('should order by computed sort keys while paging over joined one-to-many rows', async () => {
+            const database = await createDatabase();
+            try {
+                const users = database.getRepository('User');
+                const authors = await users.save(['carol', 'Bob', 'alice', 'dave'].map((name) => ({
+                    name, email: `${name}@example.com`, active: true, role: 'member', createdAt: new Date('2024-01-01'),
+                })));
+                await database.getRepository('Post').save(authors.flatMap((author) => [{ title: 'a', status: 'open', author }, { title: 'b', status: 'open', author }]));
+
+                const qb = users.createQueryBuilder('user').leftJoinAndSelect('user.posts', 'posts');
+                const { items, pageInfo } = await paginateQB(qb, {
+                    mode: 'offset', page: 1, pageSize: 3, sort: [{ field: 'name', values: ['dave'] }, { field: 'name', caseInsensitive: true }],
+                });
+                expect(items.map((user) => [user.name, user.posts.length])).to.deep.equal([['dave', 2], ['alice', 2], ['Bob', 2]]);
+                expect(pageInfo.totalItems).to.equal(4);
+            } finally {
+                await database.destroy();
+            }
+        });
+
+        it('should enforce the max page size', async () => {
+            try {
+                await paginateQB(userQB(), { mode: 'offset', pageSize: 500 });
+                expect.fail('should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.equal('PAGE_SIZE_EXCEEDS_MAX_PAGE_SIZE 100');
+            }
+        });
+    });
+
+    describe('cursor mode', () => {
+        let database: DataSource;
+
+        before(async () => {
+            database = await createDatabase();
+            const users = await database.getRepository('User').save([
+                ['ann', '2024-01-03', 30], ['Bob', '2024-01-02', null], ['cid', '2024-01-02', 25], ['dan', '2024-01-01', null], ['eve', '2024-01-03', 25], ['fay', '2024-01-01', 40],
+            ].map(([name, createdAt, age]) => ({ name, email: `${name}@example.com`, age, active: true, role: 'member', createdAt: new Date(createdAt!) })));
+            await database.getRepository('Post').save(users.flatMap((author, index) => Array.from({ length: index % 3 }, (_, n) => ({ title: `${author.name} ${n}`, status: 'open', author }))));
+        });
+
+        after(async () => {
+            await database.destroy();
+        });
+
+        const users = () => database.getRepository('User').createQueryBuilder('user');
+        const options = { mode: 'cursor', pageSize: 2, secret: 's3cret' } as const;
+
+        // Pages through every row forwards, then backwards from the last page
+        const walk = async (sort: SortSpec, build = users) => {
+            const forward: string[][] = [];
+            let page = await paginateQB(build(), { ...options, sort });
+            forward.push(page.items.map((user) => user.name));
+            while (page.pageInfo.nextCursor) {
+                page = await paginateQB(build(), { ...options, sort, after: page.pageInfo.nextCursor });
+                forward.push(page.items.map((user) => user.name));
+            }
+
+            const backward: string[][] = [];
+            while (page.pageInfo.prevCursor) {
+                page = await paginateQB(build(), { ...options, sort, before: page.pageInfo.prevCursor });
+                backward.unshift(page.items.map((user) => user.name));
+            }
+            return { forward, backward };
+        };
+
+        it('should page through every row in order with the primary key as tiebreaker', async () => {
+            const { items, pageInfo } = await paginateQB(users(), { ...options, sort: { createdAt: 'desc' }, includeTotalCount: true });
+            expect(items.map((user) => [user.id, user.name])).to.deep.equal([[1, 'ann'], [5, 'eve']]);
+            expect(pageInfo).to.deep.include({ hasNextPage: true, hasPreviousPage: false, totalItems: 6 });
+
+            const { forward, backward } = await walk({ createdAt: 'desc' });
+            expect(forward).to.deep.equal([['ann', 'eve'], ['Bob', 'cid'], ['dan', 'fay']]);
+            expect(backward).to.deep.equal([['ann', 'eve'], ['Bob', 'cid']]);
+        });
+
+        it('should page over distinct entities with joined one-to-many relations', async () => {
+            const joined = () => users().leftJoinAndSelect('user.posts', 'posts');
+            const { forward } = await walk({ name: 'desc' }, joined);
+            expect(forward).to.deep.equal([['fay', 'eve'], ['dan', 'cid'], ['ann', 'Bob']]);
+
+            const { items } = await paginateQB(joined(), { ...options, sort: { name: 'desc' } });
+            expect(items.map((user) => user.posts.length)).to.deep.equal([2, 1]);
+        });
+
+        it('should not skip rows with NULL sort key values, placing NULLs like the sort order', async () => {
+            expect((await walk({ age: 'asc' })).forward).to.deep.equal([['Bob', 'dan'], ['cid', 'eve'], ['ann', 'fay']]);
+            expect((await walk({ age: 'desc' })).forward).to.deep.equal([['fay', 'ann'], ['cid', 'eve'], ['Bob', 'dan']]);
+
+            const { forward, backward } = await walk([{ field: 'age', order: 'desc', nulls: 'first' }]);
+            expect(forward).to.deep.equal([['Bob', 'dan'], ['fay', 'ann'], ['cid', 'eve']]);
+            expect(backward).to.deep.equal([['Bob', 'dan'], ['fay', 'ann']]);
+        });
+
+        it('should page by computed sort keys', async () => {
+            const { forward } = await walk([{ field: 'name', caseInsensitive: true }]);
+            expect(forward).to.deep.equal([['ann', 'Bob'], ['cid', 'dan'], ['eve', 'fay']]);
+        });
+
+        it('should reject tampered cursors, cursors of a different sort and cursor mode without a secret', async () => {
+            const { pageInfo } = await paginateQB(users(), { ...options, sort: { createdAt: 'desc' } });
+            const [payload, signature] = pageInfo.nextCursor!.split('.');
+            const forged = Buffer.from(JSON.stringify({ k: ['createdAt', 'id'], v: [null, 0] })).toString('base64url');
+
+            const attempts: [any, string][] = [
+                [{ sort: { createdAt: 'desc' }, after: `${forged}.${signature}` }, 'INVALID_CURSOR'],
+                [{ sort: { createdAt: 'desc' }, secret: 'other', after: `${payload}.${signature}` }, 'INVALID_CURSOR'],
+                [{ sort: { name: 'asc' }, after: `${payload}.${signature}` }, 'CURSOR_DOES_NOT_MATCH_SORT'],
+                [{ sort: { createdAt: 'desc' }, after: [`${payload}.${signature}`] }, 'INVALID_CURSOR'],
+                [{ sort: { createdAt: 'desc' }, before: { cursor: 1 } }, 'INVALID_CURSOR'],
+                [{ sort: { createdAt: 'desc' }, secret: undefined, after: `${payload}.${signature}` }, 'CURSOR_PAGINATION_REQUIRES_A_SECRET'],
+                [{ sort: { createdAt: 'desc' }, secret: '' }, 'CURSOR_PAGINATION_REQUIRES_A_SECRET'],
+                [{ sort: [{ field: 'name', values: ['ann'], nulls: 'last' }] }, 'CURSOR_PAGINATION_DOES_NOT_SUPPORT_NULLS_ORDERING name'],
+            ];
+            for (const [attempt, message] of attempts) {
+                try {
+                    await paginateQB(users(), { ...options, ...attempt });
+                    expect.fail('should have thrown');
+                } catch (error) {
+                    expect((error as Error).message).to.equal(message);
+                }
+            }
+        });
+    });
+});
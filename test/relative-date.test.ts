@@ -0,0 +1,31 @@
+import { expect } from 'chai';
+import resolveRelativeDate, { calendarRange, isRelativeDate } from '../src/relative-date';
+
+describe('resolveRelativeDate', () => {
+    const now = new Date('2024-03-31T10:30:00Z');
+
+    it('should recognize relative dates', () => {
+        expect(['now', 'now-7d', 'startOf:month', 'endOf:week+1w', 'now-1h+30m'].every(isRelativeDate)).to.equal(true);
+        expect(['today', 'now-7', 'startOf:fortnight', '2024-01-01', 7].some(isRelativeDate)).to.equal(false);
+    });
+
+    it('should apply offsets before truncating to the calendar unit', () => {
+        expect(resolveRelativeDate('now-90m', now)).to.deep.equal(new Date('2024-03-31T09:00:00Z'));
+        expect(resolveRelativeDate('startOf:month-1M', now)).to.deep.equal(new Date('2024-02-01T00:00:00Z'));
+        expect(resolveRelativeDate('endOf:year', now)).to.deep.equal(new Date('2024-12-31T23:59:59.999Z'));
+        // Mar 31 minus one month is clamped to Feb 29
+        expect(resolveRelativeDate('now-1M', now)).to.deep.equal(new Date('2024-02-29T10:30:00Z'));
+    });
+
+    it('should resolve calendar units in the time zone across DST changes', () => {
+        expect(resolveRelativeDate('startOf:day', new Date('2024-03-10T15:00:00Z'), 'Europe/Berlin')).to.deep.equal(new Date('2024-03-09T23:00:00Z'));
+        // Berlin moves to summer time on 2024-03-31, one day back is still 12:30 on the wall clock
+        expect(resolveRelativeDate('now-1d', now, 'Europe/Berlin')).to.deep.equal(new Date('2024-03-30T11:30:00Z'));
+        expect(resolveRelativeDate('startOf:week', now, 'Europe/Berlin')).to.deep.equal(new Date('2024-03-24T23:00:00Z'));
+        expect(calendarRange(now, 'day', 'Europe/Berlin')).to.deep.equal([new Date('2024-03-30T23:00:00Z'), new Date('2024-03-31T22:00:00Z')]);
+    });
+
+    it('should throw an error for values that are not relative dates', () => {
+        expect(() => resolveRelativeDate('yesterday', now)).to.throw('INVALID_RELATIVE_DATE yesterday');
+    });
+});
@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import resolveFieldPath from '../src/resolve-field-path';
+import { FilterValidationError } from '../src/filter-errors';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import applySortOrderQB from '../src/qb-apply-sort-order';
+import { createDataSource } from './entities';
+
+describe('resolveFieldPath', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const joins = (qb: any) => qb.expressionMap.joinAttributes.map((join: any) => `${join.entityOrProperty} ${join.alias.name}`);
+
+    it('should resolve columns of the alias without joining', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        expect(resolveFieldPath(qb, 'post', 'title')).to.equal('post.title');
+        expect(joins(qb)).to.deep.equal([]);
+    });
+
+    it('should join every relation of a deep path', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        expect(resolveFieldPath(qb, 'post', 'author.company.name')).to.equal('post_author_company.name');
+        expect(joins(qb)).to.deep.equal(['post.author post_author', 'post_author.company post_author_company']);
+    });
+
+    it('should reuse joins the caller already made', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post').leftJoin('post.author', 'a');
+        expect(resolveFieldPath(qb, 'post', 'author.name')).to.equal('a.name');
+        expect(resolveFieldPath(qb, 'post', 'a.company.name')).to.equal('a_company.name');
+        expect(joins(qb)).to.deep.equal(['post.author a', 'a.company a_company']);
+    });
+
+    it('should generate aliases that do not collide', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post').leftJoin('Company', 'post_author', '1 = 1');
+        expect(resolveFieldPath(qb, 'post', 'author.name')).to.equal('post_author_1.name');
+    });
+
+    it('should share joins between filtering and sorting, also inside $or groups', () => {
+        const qb = dataSource.getRepository('Post').createQueryBuilder('post');
+        applyWhereConditionsQB(qb, 'andWhere', { $or: [{ 'author.company.name': 'Acme' }, { 'author.name': 'Ann' }] }, 'post');
+        applySortOrderQB(qb, { 'author.company.name': 'asc' });
+        expect(joins(qb)).to.deep.equal(['post.author post_author', 'post_author.company post_author_company']);
+        expect(qb.getQuery()).to.include('ORDER BY "post_author_company"."name" ASC');
+    });
+
+    it('should reject paths that are not fields of the entity instead of using them as SQL', () => {
+        const users = () => dataSource.getRepository('User').createQueryBuilder('user');
+        expect(() => resolveFieldPath(users(), 'user', 'company.nme')).to.throw(FilterValidationError, 'UNKNOWN_FIELD company.nme');
+        expect(() => applySortOrderQB(users(), { 'name; DROP TABLE x': 'asc' })).to.throw('UNKNOWN_FIELD name; DROP TABLE x at name; DROP TABLE x');
+        expect(() => applyWhereConditionsQB(users(), 'andWhere', { $or: [{ 'name = name OR 1=1 --': 'x' }] }, 'user'))
+            .to.throw(FilterValidationError, 'UNKNOWN_FIELD name = name OR 1=1 -- at $or[0].name = name OR 1=1 --');
+        expect(resolveFieldPath(users(), 'user', 'posts')).to.equal('user.posts');
+    });
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import validateFilter from '../src/validate-filter';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import { createDataSource } from './entities';
+
+describe('validateFilter', () => {
+    let dataSource: DataSource;
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    it('should coerce values to the column types', () => {
+        const filter = validateFilter(
+            { age: { $gte: '18' }, active: 'true', createdAt: { $lt: '2024-01-01' }, id: ['1', '2'], role: 'admin' },
+            dataSource.getMetadata('User')
+        );
+        expect(filter).to.deep.equal({ age: { $gte: 18 }, active: true, createdAt: { $lt: new Date('2024-01-01') }, id: [1, 2], role: 'admin' });
+    });
+
+    it('should coerce array operator elements and allow array operators only on array columns', () => {
+        const filter = validateFilter({ tags: { $arrayContains: ['a', 'b'], $arrayLength: { $gt: 1 } } }, dataSource.getMetadata('Post'));
+        expect(filter).to.deep.equal({ tags: { $arrayContains: ['a', 'b'], $arrayLength: { $gt: 1 } } });
+        expect(() => validateFilter({ title: { $anyEquals: 'a' } }, dataSource.getMetadata('Post'))).to.throw('OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE $anyEquals');
+    });
+
+    it('should keep relative dates and the dates of the calendar date operators for parseCondition', () => {
+        const filter = validateFilter({ createdAt: { $gte: 'now-7d', $dateEquals: { date: '2024-03-10', granularity: 'week' } } }, dataSource.getMetadata('User'));
+        expect(filter).to.deep.equal({ createdAt: { $gte: 'now-7d', $dateEquals: { date: '2024-03-10', granularity: 'week' } } });
+        expect(() => validateFilter({ age: { $dateBetween: ['2024-01-01', '2024-01-31'] } }, dataSource.getMetadata('User'))).to.throw('OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE $dateBetween');
+    });
+
+    it('should validate relation paths and nested logical operators', () => {
+        const filter = validateFilter({ $or: [{ 'company.id': '3' }, { 'company.name': 'Acme' }] }, dataSource.getMetadata('User'));
+        expect(filter).to.deep.equal({ $or: [{ 'company.id': 3 }, { 'company.name': 'Acme' }] });
+    });
+
+    it('should validate the filters of relation quantifiers against the related entity', () => {
+        const filter = validateFilter({ posts: { $some: { 'author.age': { $gte: '18' } }, $none: { id: '3' } } }, dataSource.getMetadata('User'));
+        expect(filter).to.deep.equal({ posts: { $some: { 'author.age': { $gte: 18 } }, $none: { id: 3 } } });
+        expect(() => validateFilter({ posts: { $every: { titel: 'a' } } }, dataSource.getMetadata('User'))).to.throw('UNKNOWN_FIELD titel at posts.$every.titel');
+        expect(() => validateFilter({ name: { $some: {} } }, dataSource.getMetadata('User'))).to.throw('UNKNOWN_RELATION name at name');
+    });
+
+    it('should keep the values of JSON path fields and require a JSON column', () => {
+        expect(validateFilter({ 'meta->limits->seats': { $gt: '4' } }, dataSource.getMetadata('User'))).to.deep.equal({ 'meta->limits->seats': { $gt: '4' } });
+        expect(() => validateFilter({ 'name->first': 'John' }, dataSource.getMetadata('User'))).to.throw('JSON_PATH_REQUIRES_A_JSON_COLUMN name at name->first');
+        expect(() => validateFilter({ 'mta->plan': 'pro' }, dataSource.getMetadata('User'))).to.throw('UNKNOWN_FIELD mta');
+    });
+
+    it('should validate $not, $nor and field-level logic', () => {
+        const filter = validateFilter(
+            { $not: { age: '18' }, $nor: [{ active: 'false' }], createdAt: { $or: [{ $lt: '2024-01-01' }, { $not: '$isNull' }] } },
+            dataSource.getMetadata('User')
+        );
+        expect(filter).to.deep.equal({ $not: { age: 18 }, $nor: [{ active: false }], createdAt: { $or: [{ $lt: new Date('2024-01-01') }, { $not: '$isNull' }] } });
+        expect(() => validateFilter({ age: { $not: { $regex: '^1' } } }, dataSource.getMetadata('User'))).to.throw('OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE $regex int');
+    });
+
+    it('should validate every operator of a multi-operator condition', () => {
+        expect(validateFilter({ age: { $gte: '18', $lt: '65' } }, dataSource.getMetadata('User'))).to.deep.equal({ age: { $gte: 18, $lt: 65 } });
+        expect(() => validateFilter({ age: { $gte: '18', $lt: 'old' } }, dataSource.getMetadata('User'))).to.throw('INVALID_VALUE_FOR_COLUMN_TYPE old FOR_FIELD age');
+    });
+
+    it('should reject unknown fields', () => {
+        expect(() => validateFilter({ 'name; DROP TABLE user': 'x' }, dataSource.getMetadata('User'))).to.throw('UNKNOWN_FIELD name; DROP TABLE user');
+        expect(() => validateFilter({ 'company.nme': 'x' }, dataSource.getMetadata('User'))).to.throw('UNKNOWN_FIELD company.nme');
+    });
+
+    it('should reject values that do not fit the column', () => {
+        expect(() => validateFilter({ age: 'abc' }, dataSource.getMetadata('User'))).to.throw('INVALID_VALUE_FOR_COLUMN_TYPE abc FOR_FIELD age');
+        expect(() => validateFilter({ role: { $in: ['admin', 'root'] } }, dataSource.getMetadata('User'))).to.throw('INVALID_ENUM_VALUE root FOR_FIELD role');
+    });
+
+    it('should reject operators that do not fit the column type', () => {
+        expect(() => validateFilter({ age: { $regex: '^1' } }, dataSource.getMetadata('User'))).to.throw('OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE $regex int');
+        expect(() => validateFilter({ name: { $jsonContains: {} } }, dataSource.getMetadata('User'))).to.throw('OPERATOR_NOT_ALLOWED_FOR_COLUMN_TYPE $jsonContains String');
+    });
+
+    it('should validate filters applied with applyWhereConditionsQB', () => {
+        const qb = dataSource.getRepository('User').createQueryBuilder('user').leftJoin('user.company', 'c');
+        applyWhereConditionsQB(qb, 'andWhere', { age: { $gt: '30' }, 'c.name': 'Acme' }, 'user', { validate: true });
+        expect(Object.values(qb.getParameters())).to.deep.equal([30, 'Acme']);
+        expect(() => applyWhereConditionsQB(qb, 'andWhere', { agee: 1 }, 'user', { validate: true })).to.throw('UNKNOWN_FIELD agee');
+    });
+});
@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { DataSource } from 'typeorm';
+import registerVirtualField, { expandVirtualFields } from '../src/virtual-fields';
+import applyWhereConditionsQB from '../src/qb-apply-where-conditions';
+import applyFiltersQB from '../src/qb-apply-filters';
+import applySortOrderQB from '../src/qb-apply-sort-order';
+import createFilterCache from '../src/filter-cache';
+import { FilterValidationError } from '../src/filter-errors';
+import { createDataSource, User } from './entities';
+
+describe('virtual fields', () => {
+    let dataSource: DataSource;
+
+    const virtualFields: Record<string, VirtualField> = {
+        nameLength: { expression: (alias) => `LENGTH(${alias}.name)` },
+        isAdult: { expand: (condition) => condition === true ? { age: { $gte: 18 } } : { $or: [{ age: { $lt: 18 } }, { age: '$isNull' }] } },
+        isRecent: { expand: (condition, { now }) => ({ createdAt: condition ? { $gte: new Date(now.getTime() - 86400000) } : { $lt: new Date(now.getTime() - 86400000) } }) },
+    };
+
+    before(async () => {
+        dataSource = await createDataSource();
+    });
+
+    const where = (qb: any) => qb.getQuery().replace(/^.*? WHERE /, '').replace(/:[a-zA-Z0-9_.]+/g, ':p');
+    const users = () => dataSource.getRepository('User').createQueryBuilder('user');
+
+    it('should compare virtual fields with their expression and expand the others into filters', () => {
+        const clock = () => new Date('2024-03-15T00:00:00Z');
+        const qb = users();
+        applyWhereConditionsQB(qb, 'andWhere', { nameLength: { $gt: 3 }, $or: [{ isAdult: false }, { isRecent: true }] }, 'user', { virtualFields, clock, validate: true });
+
+        expect(where(qb)).to.equal('LENGTH("user"."name") > :p AND (("user"."age" < :p OR "user"."age" IS NULL) OR "user"."createdAt" >= :p)');
+        expect(Object.values(qb.getParameters())).to.deep.equal([3, 18, new Date('2024-03-14T00:00:00Z')]);
+    });
+
+    it('should merge expanded filters into their filter, AND-ing conditions on the same fields', () => {
+        const context = { now: new Date(), timezone: 'UTC' };
+        expect(expandVirtualFields({ isAdult: true, name: 'a' }, virtualFields, context)).to.deep.equal({ age: { $gte: 18 }, name: 'a' });
+        expect(expandVirtualFields({ isAdult: true, age: 20, $and: [{ active: true }] }, virtualFields, context))
+            .to.deep.equal({ age: 20, $and: [{ active: true }, { age: { $gte: 18 } }] });
+    });
+
+    it('should apply virtual fields with applyFiltersQB and reuse cached filters of the same shape', () => {
+        const qb = users();
+        applyFiltersQB(qb, 'user', { nameLength: 4, isAdult: true }, { virtualFields });
+        expect(where(qb)).to.equal('LENGTH("user"."name") = :p AND "user"."age" >= :p');
+
+        const cache = createFilterCache();
+        const first = users();
+        applyWhereConditionsQB(first, 'andWhere', { nameLength: { $gt: 3 } }, 'user', { virtualFields, cache });
+        const second = users();
+        applyWhereConditionsQB(second, 'andWhere', { nameLength: { $gt: 5 } }, 'user', { virtualFields, cache });
+        expect(second.getQuery()).to.equal(first.getQuery());
+        expect(second.getParameters()).to.deep.equal({ p0: 5 });
+    });
+
+    it('should sort by virtual fields with an expression only', () => {
+        expect(applySortOrderQB(users(), { nameLength: 'desc' }, { virtualFields }).getQuery()).to.match(/LENGTH\("user"."name"\) AS "__order_0" FROM .* ORDER BY __order_0 DESC$/);
+        expect(() => applySortOrderQB(users(), { isAdult: 'asc' }, { virtualFields })).to.throw('VIRTUAL_FIELD_IS_NOT_SORTABLE isAdult');
+    });
+
+    it('should use the virtual fields registered for the entity', () => {
+        registerVirtualField(User, 'nameLength', virtualFields.nameLength);
+        try {
+            const qb = users();
+            applyWhereConditionsQB(qb, 'andWhere', { nameLength: 3 }, 'user');
+            expect(where(qb)).to.equal('LENGTH("user"."name") = :p');
+            expect(applySortOrderQB(users(), { nameLength: 'asc' }).getQuery()).to.match(/LENGTH\("user"."name"\) AS "__order_0" FROM .* ORDER BY __order_0 ASC$/);
+        } finally {
+            registerVirtualField(User, 'nameLength', undefined);
+        }
+    });
+
+    it('should reject invalid virtual fields and tag expansion errors with the filter path', () => {
+        expect(() => registerVirtualField(User, 'broken', {})).to.throw('VIRTUAL_FIELD_MUST_HAVE_AN_EXPRESSION_OR_AN_EXPAND_FUNCTION broken');
+        const invalid: Record<string, VirtualField> = {
+            tagged: { expression: (alias) => `${alias}.name = :name` },
+            castName: { expression: (alias) => `CAST(${alias}.name AS text)::varchar || ':x'` },
+            empty: { expand: () => null as any },
+            strict: {
+                expand: (condition) => {
+                    if (typeof condition !== 'boolean') {
+                        throw new FilterValidationError('STRICT_MUST_BE_A_BOOLEAN', { code: 'INVALID_OPERATOR_VALUE', value: condition, expected: 'boolean' });
+                    }
+                    return { active: condition };
+                },
+            },
+        };
+        expect(() => applyWhereConditionsQB(users(), 'andWhere', { tagged: true }, 'user', { virtualFields: invalid })).to.throw('VIRTUAL_FIELD_EXPRESSION_MUST_NOT_HAVE_PARAMETERS tagged');
+        expect(() => applyWhereConditionsQB(users(), 'andWhere', { $or: [{ strict: 'yes' }] }, 'user', { virtualFields: invalid })).to.throw('STRICT_MUST_BE_A_BOOLEAN at $or[0].strict');
+
+        // Casts and colons in string literals are no parameters
+        const qb = users();
+        applyFiltersQB(qb, 'user', { castName: 'a' }, { virtualFields: invalid });
+        expect(qb.getQuery()).to.contain(`WHERE CAST("user"."name" AS text)::varchar || ':x' = :p0`);
+        expect(() => applyWhereConditionsQB(users(), 'andWhere', { $not: { empty: 1 } }, 'user', { virtualFields: invalid })).to.throw('VIRTUAL_FIELD_MUST_EXPAND_TO_A_FILTER empty');
+    });
+});